@@ -1,29 +1,192 @@
-import { Container, Center, Select, Box, Paper, Transition } from '@mantine/core'
-import { useState } from 'react'
+import { Container, Center, Select, Box, Paper, Transition, Group, Alert, ActionIcon, Tooltip, Modal, SegmentedControl } from '@mantine/core'
+import { useClipboard, useHotkeys } from '@mantine/hooks'
+import { IconArrowBackUp, IconArrowForwardUp, IconFileMusic, IconListSearch, IconTopologyStar3 } from '@tabler/icons-react'
+import { useState, useEffect } from 'react'
 import { useAudioGraph } from './hooks/useAudioGraph'
 import { InstrumentControls } from './components/InstrumentControls'
 import { DebugMenu } from './components/DebugMenu'
 import { InitializationScreen } from './components/InitializationScreen'
+import { PresetMenu } from './components/PresetMenu'
+import { ABComparePanel } from './components/ABComparePanel'
+import { PatchEditor } from './components/PatchEditor'
+import { NodeControlsPanel } from './components/NodeControlsPanel'
+import { MidiInputPanel } from './components/MidiInputPanel'
+import { PianoKeyboard } from './components/PianoKeyboard'
+import { StepSequencer } from './components/StepSequencer'
+import { DrumKitPanel } from './components/DrumKitPanel'
+import { DrumKitSequencer } from './components/DrumKitSequencer'
+import { ExportWavModal } from './components/ExportWavModal'
+import { ModulationMatrix } from './components/ModulationMatrix'
+import { PresetBrowser } from './components/PresetBrowser'
+import { SamplerZoneEditor } from './components/SamplerZoneEditor'
+import { usePresetLibrary } from './hooks/usePresetLibrary'
+import { useMidiInput } from './hooks/useMidiInput'
+import { useMidiLearn } from './hooks/useMidiLearn'
+import { useNotePlayer } from './hooks/useNotePlayer'
+import { useComputerKeyboard } from './hooks/useComputerKeyboard'
+import { useStepSequencer } from './hooks/useStepSequencer'
+import { useDrumKit } from './hooks/useDrumKit'
+import { useWavExport } from './hooks/useWavExport'
+import { usePresetBrowser } from './hooks/usePresetBrowser'
+import { useSamplerZones } from './hooks/useSamplerZones'
 import { getInstrumentPreset, getAvailableInstruments, instrumentPresets } from './config/instrumentPresets'
+import { getEffectChainPreset, getAvailableEffectChains, type EffectChainKey } from './config/effectChainPresets'
 import { loadTone } from './utils/toneLoader'
+import { DEFAULT_MAX_POLYPHONY } from './utils/voiceAllocation'
+import { createShareUrl, decodePatch, readPatchFromHash } from './utils/patchSharing'
+import { buildPresetEntries, getFactoryPresetForValue, EFFECT_CHAIN_PREFIX, USER_PRESET_PREFIX } from './utils/presetBrowser'
 import type { SynthSettings, MembraneSynthSettings } from './types/instruments'
+import type { AudioGraphConfig } from './types/audioGraph'
 
 function App() {
   const [isAudioInitialized, setIsAudioInitialized] = useState(false)
-  const [currentInstrumentType, setCurrentInstrumentType] = useState<keyof typeof instrumentPresets>('membraneSynth')
-  const [currentConfig, setCurrentConfig] = useState(() => getInstrumentPreset('membraneSynth'))
+  // Null when the active graph did not come from a factory preset (e.g. imported JSON)
+  const [currentInstrumentType, setCurrentInstrumentType] = useState<keyof typeof instrumentPresets | null>('membraneSynth')
+  const [currentEffectChain, setCurrentEffectChain] = useState<EffectChainKey | null>(null)
+  const [currentUserPresetId, setCurrentUserPresetId] = useState<string | null>(null)
+  const [currentConfig, setCurrentConfig] = useState<AudioGraphConfig>(() => getInstrumentPreset('membraneSynth'))
+  const [sharedPatchError, setSharedPatchError] = useState<string | null>(null)
+  const [patchEditorOpened, setPatchEditorOpened] = useState(false)
+  const [exportWavOpened, setExportWavOpened] = useState(false)
+  const [presetBrowserOpened, setPresetBrowserOpened] = useState(false)
+  const [mode, setMode] = useState<'instrument' | 'kit'>('instrument')
+  const shareClipboard = useClipboard({ timeout: 2000 })
   
   // Only initialize audio graph after audio is ready
   const { 
     config, 
     isPlaying,
+    isGraphInitialized,
     nodes,
+    updateConfig,
     updateNodeInGraph, 
+    applySettingsSnapshotInGraph,
+    addNodeToGraph,
+    removeNodeFromGraph,
+    moveNodeInGraph,
+    connectInGraph,
+    disconnectInGraph,
+    removeModulationInGraph,
+    setModulationAmountInGraph,
+    setModulationEnabledInGraph,
+    bindMidiControllerInGraph,
+    unbindMidiControllerInGraph,
     triggerGraph, 
     releaseGraph, 
-    getWaveformData
+    playNoteAt,
+    updateSequenceInGraph,
+    activeVoiceCount,
+    getWaveformData,
+    undo,
+    redo,
+    canUndo,
+    canRedo
   } = useAudioGraph(isAudioInitialized ? currentConfig : null)
 
+  // Every note source (MIDI, on-screen piano, computer keyboard) shares one set of held notes
+  const notePlayer = useNotePlayer(config, { triggerGraph, releaseGraph })
+  const triggerNodeDefinition = config ? Object.values(config.graph.nodes).find(node => node.trigger) : undefined
+  const isPitched = triggerNodeDefinition !== undefined && triggerNodeDefinition.type !== 'NoiseSynth'
+
+  const computerKeyboard = useComputerKeyboard({
+    enabled: isPitched && mode === 'instrument',
+    onNoteOn: notePlayer.noteOn,
+    onNoteOff: notePlayer.noteOff
+  })
+
+  const sequencer = useStepSequencer(config, {
+    playNoteAt,
+    onSequenceChange: updateSequenceInGraph
+  })
+
+  // Kit mode plays several graphs side by side; only its pads are built while it is shown
+  const drumKit = useDrumKit(isAudioInitialized && mode === 'kit')
+
+  // Both sequencers share the Tone.js Transport, so switching modes stops whichever is running.
+  // Held notes are released too: their note-offs would go to the kit pads once the mode has changed.
+  const handleModeChange = (value: string) => {
+    notePlayer.releaseAll()
+    sequencer.stop()
+    drumKit.stop()
+    setMode(value === 'kit' ? 'kit' : 'instrument')
+  }
+
+  const wavExport = useWavExport(config)
+  const presetBrowser = usePresetBrowser({
+    config,
+    requestedConfig: currentConfig,
+    isGraphInitialized,
+    triggerGraph,
+    playNoteAt
+  })
+
+  const samplerZones = useSamplerZones(config, {
+    onNodeSettingsChange: updateNodeInGraph,
+    playNoteAt
+  })
+
+  const midiLearn = useMidiLearn(config, {
+    onBind: bindMidiControllerInGraph,
+    onUnbind: unbindMidiControllerInGraph,
+    onNodeSettingsChange: updateNodeInGraph
+  })
+
+  const midi = useMidiInput({
+    onNoteOn: mode === 'kit' ? drumKit.playNote : notePlayer.noteOn,
+    onNoteOff: mode === 'kit' ? () => {} : notePlayer.noteOff, // Pads are one-shot hits
+    onControlChange: midiLearn.handleControlChange
+  })
+
+  // Text inputs are ignored by useHotkeys, so they keep their native undo
+  useHotkeys([
+    ['mod+Z', () => undo()],
+    ['mod+shift+Z', () => redo()],
+    ['mod+Y', () => redo()],
+    ['Escape', () => midiLearn.cancelLearning()]
+  ])
+
+  const {
+    userPresets,
+    getUserPreset,
+    saveAs,
+    overwrite,
+    rename,
+    duplicate,
+    remove
+  } = usePresetLibrary()
+
+  // Boot into a patch shared through the URL hash, falling back to the default preset if it is broken
+  useEffect(() => {
+    const encodedPatch = readPatchFromHash(window.location.hash)
+    if (!encodedPatch) return
+
+    let cancelled = false
+    decodePatch(encodedPatch)
+      .then(sharedConfig => {
+        if (cancelled) return
+        console.log('🔗 Loaded shared patch:', sharedConfig.name)
+        setCurrentInstrumentType(null)
+        setCurrentEffectChain(null)
+        setCurrentUserPresetId(null)
+        setCurrentConfig(sharedConfig)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.warn('⚠️ Could not load shared patch:', error)
+        setSharedPatchError(error instanceof Error ? error.message : String(error))
+      })
+      .finally(() => {
+        // Drop the patch from the address bar so later edits are not confused with the shared state
+        if (!cancelled) {
+          window.history.replaceState(null, '', window.location.pathname + window.location.search)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   const instrumentOptions = getAvailableInstruments()
     .map(instrument => ({
       value: instrument.key,
@@ -31,6 +194,20 @@ function App() {
       disabled: instrument.disabled || false
     }))
 
+  // Effect chains and user presets share the select with factory instruments, prefixed to keep values distinct
+  const effectChainOptions = getAvailableEffectChains()
+    .map(chain => ({ value: `${EFFECT_CHAIN_PREFIX}${chain.key}`, label: chain.name }))
+  const presetOptions = [
+    { group: 'Factory', items: instrumentOptions },
+    { group: 'Effect Chains', items: effectChainOptions },
+    ...(userPresets.length > 0
+      ? [{ group: 'My Presets', items: userPresets.map(preset => ({ value: `${USER_PRESET_PREFIX}${preset.presetId}`, label: preset.name })) }]
+      : [])
+  ]
+  const selectedPresetValue = currentUserPresetId
+    ? `${USER_PRESET_PREFIX}${currentUserPresetId}`
+    : currentEffectChain ? `${EFFECT_CHAIN_PREFIX}${currentEffectChain}` : currentInstrumentType
+
   const handleAudioInitialization = async () => {
     try {
       // Load Tone.js module
@@ -53,9 +230,139 @@ function App() {
   const changeInstrumentType = (type: keyof typeof instrumentPresets) => {
     const newConfig = getInstrumentPreset(type)
     setCurrentInstrumentType(type)
+    setCurrentEffectChain(null)
+    setCurrentUserPresetId(null)
     setCurrentConfig(newConfig)
   }
 
+  const loadEffectChain = (key: EffectChainKey) => {
+    setCurrentInstrumentType(null)
+    setCurrentEffectChain(key)
+    setCurrentUserPresetId(null)
+    setCurrentConfig(getEffectChainPreset(key))
+  }
+
+  // Load a saved user preset (cloned so edits never touch the stored copy)
+  const loadUserPreset = (presetId: string) => {
+    const preset = getUserPreset(presetId)
+    if (!preset) {
+      console.warn('⚠️ User preset not found:', presetId)
+      return
+    }
+    setCurrentInstrumentType(null)
+    setCurrentEffectChain(null)
+    setCurrentUserPresetId(presetId)
+    setCurrentConfig(structuredClone(preset))
+  }
+
+  const handlePresetChange = (value: string | null) => {
+    if (!value) return
+    if (value.startsWith(USER_PRESET_PREFIX)) {
+      loadUserPreset(value.slice(USER_PRESET_PREFIX.length))
+    } else if (value.startsWith(EFFECT_CHAIN_PREFIX)) {
+      loadEffectChain(value.slice(EFFECT_CHAIN_PREFIX.length) as EffectChainKey)
+    } else {
+      changeInstrumentType(value as keyof typeof instrumentPresets)
+    }
+  }
+
+  // Picking from the select settles on a preset straight away
+  const handlePresetSelect = (value: string | null) => {
+    if (!value) return
+    handlePresetChange(value)
+    presetBrowser.markUsed(value)
+  }
+
+  // Browsing loads each preset and plays it once the graph is rebuilt
+  const handlePresetBrowse = (value: string) => {
+    handlePresetChange(value)
+    presetBrowser.requestAudition()
+  }
+
+  const handlePresetChoose = (value: string) => {
+    if (value !== selectedPresetValue) {
+      handlePresetChange(value)
+    }
+    presetBrowser.markUsed(value)
+    setPresetBrowserOpened(false)
+  }
+
+  // Load a config pasted or dropped into the JSON editor as the active graph
+  const importConfig = (importedConfig: AudioGraphConfig) => {
+    console.log('📥 Loading imported config:', importedConfig.name)
+    setCurrentInstrumentType(null)
+    setCurrentEffectChain(null)
+    setCurrentUserPresetId(null)
+    setCurrentConfig(importedConfig)
+  }
+
+  // Preset library actions - all operate on the live config so tweaks are captured
+  const saveCurrentPreset = () => {
+    if (config && currentUserPresetId) {
+      overwrite(currentUserPresetId, config)
+    }
+  }
+
+  // Factory preset behind the active graph: the selected one, or the one a user preset was saved from
+  const currentUserPreset = currentUserPresetId ? getUserPreset(currentUserPresetId) : undefined
+  const sourcePresetId = currentUserPresetId
+    ? currentUserPreset?.sourcePresetId
+    : (currentEffectChain ? `${EFFECT_CHAIN_PREFIX}${currentEffectChain}` : currentInstrumentType ?? undefined)
+  const sourcePreset = sourcePresetId ? getFactoryPresetForValue(sourcePresetId) : undefined
+
+  const saveCurrentPresetAs = (name: string) => {
+    if (!config) return
+    const preset = saveAs(config, name, sourcePresetId)
+    setCurrentInstrumentType(null)
+    setCurrentEffectChain(null)
+    setCurrentUserPresetId(preset.presetId)
+    setCurrentConfig(structuredClone(preset))
+  }
+
+  const renameCurrentPreset = (name: string) => {
+    if (!currentUserPresetId) return
+    rename(currentUserPresetId, name)
+    updateConfig({ name })
+  }
+
+  const duplicateCurrentPreset = () => {
+    if (!currentUserPresetId) return
+    const copy = duplicate(currentUserPresetId)
+    if (copy) {
+      setCurrentUserPresetId(copy.presetId)
+      setCurrentConfig(structuredClone(copy))
+    }
+  }
+
+  const deleteCurrentPreset = () => {
+    if (!currentUserPresetId) return
+    remove(currentUserPresetId)
+    changeInstrumentType('membraneSynth')
+  }
+
+  // Back to the factory preset the graph came from; a user preset keeps its name so Save stores the reverted sound.
+  // User presets with no known factory source (imported or shared patches) reload their saved copy instead.
+  const revertCurrentPreset = () => {
+    if (sourcePreset) {
+      console.log('↩️ Reverting to factory preset:', sourcePresetId)
+      setCurrentConfig({ ...structuredClone(sourcePreset), ...(currentUserPreset ? { name: currentUserPreset.name } : {}) })
+    } else if (currentUserPresetId) {
+      loadUserPreset(currentUserPresetId)
+    }
+  }
+
+  // Copy a link that reproduces the live graph, including unsaved tweaks
+  const shareCurrentPatch = async () => {
+    if (!config) return
+    try {
+      const shareUrl = await createShareUrl(config)
+      shareClipboard.copy(shareUrl)
+      console.log('🔗 Copied share link for:', config.name)
+    } catch (error) {
+      console.error('❌ Failed to create share link:', error)
+    }
+  }
+
   // Helper function to update settings for the current instrument node
   const updateSettings = async (newSettings: Partial<SynthSettings | MembraneSynthSettings>) => {
     if (!config) return
@@ -91,7 +398,12 @@ function App() {
     const nodeSettings = nodeInstance?.settings || triggerNodeConfig[1].settings || {}
 
     // Ensure we have proper default settings for each instrument type
-    const getDefaultSettingsForType = (type: keyof typeof instrumentPresets, settings: Record<string, unknown>) => {
+    const getDefaultSettingsForType = (type: keyof typeof instrumentPresets | null, settings: Record<string, unknown>) => {
+      // Imported graphs carry their own settings - there is no preset to fall back on
+      if (!type) {
+        return settings
+      }
+      
       // Use the preset configuration as default and merge with actual settings
       const presetConfig = getInstrumentPreset(type)
       const triggerNode = Object.entries(presetConfig.graph.nodes)
@@ -124,6 +436,8 @@ function App() {
         onPlay={config?.graph.trigger === 'sustained' ? () => triggerGraph() : undefined}
         onStop={config?.graph.trigger === 'sustained' ? () => releaseGraph() : undefined}
         getWaveformData={getWaveformData}
+        onImportConfig={importConfig}
+        midiLearn={midiLearn}
       />
     )
   }
@@ -161,17 +475,199 @@ function App() {
                 padding: '0'
               }}>
                 
-                <Select
-                  label="Choose Instrument"
-                  value={currentInstrumentType}
-                  onChange={(value) => changeInstrumentType(value as keyof typeof instrumentPresets)}
-                  data={instrumentOptions}
-                  mb="xl"
-                  style={{ width: '100%' }}
+                <SegmentedControl
+                  fullWidth
+                  mb="md"
+                  value={mode}
+                  onChange={handleModeChange}
+                  data={[
+                    { value: 'instrument', label: 'Instrument' },
+                    { value: 'kit', label: 'Drum kit' }
+                  ]}
+                />
+
+                <Group gap="xs" align="flex-end" wrap="nowrap" mb="xl">
+                  <Select
+                    label="Choose Instrument"
+                    value={selectedPresetValue}
+                    onChange={handlePresetSelect}
+                    data={presetOptions}
+                    style={{ flex: 1 }}
+                  />
+                  <Tooltip label="Browse presets">
+                    <ActionIcon variant="subtle" size="lg" color="gray" onClick={() => setPresetBrowserOpened(true)} aria-label="Browse presets">
+                      <IconListSearch size={18} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Patch editor">
+                    <ActionIcon variant="subtle" size="lg" color="gray" onClick={() => setPatchEditorOpened(true)} disabled={!config} aria-label="Open patch editor">
+                      <IconTopologyStar3 size={18} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Undo (Ctrl+Z)">
+                    <ActionIcon variant="subtle" size="lg" color="gray" onClick={() => undo()} disabled={!canUndo} aria-label="Undo">
+                      <IconArrowBackUp size={18} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Redo (Ctrl+Shift+Z)">
+                    <ActionIcon variant="subtle" size="lg" color="gray" onClick={() => redo()} disabled={!canRedo} aria-label="Redo">
+                      <IconArrowForwardUp size={18} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Export WAV">
+                    <ActionIcon variant="subtle" size="lg" color="gray" onClick={() => setExportWavOpened(true)} disabled={!config} aria-label="Export WAV">
+                      <IconFileMusic size={18} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <PresetMenu
+                    currentName={config?.name || currentConfig.name}
+                    isUserPreset={currentUserPresetId !== null}
+                    revertTarget={sourcePreset ? 'factory' : currentUserPresetId ? 'saved' : null}
+                    onSave={saveCurrentPreset}
+                    onSaveAs={saveCurrentPresetAs}
+                    onRename={renameCurrentPreset}
+                    onDuplicate={duplicateCurrentPreset}
+                    onDelete={deleteCurrentPreset}
+                    onRevert={revertCurrentPreset}
+                    onShare={shareCurrentPatch}
+                    shareLinkCopied={shareClipboard.copied}
+                  />
+                </Group>
+
+                {sharedPatchError && (
+                  <Alert
+                    color="red"
+                    variant="light"
+                    title="Could not open shared patch"
+                    withCloseButton
+                    onClose={() => setSharedPatchError(null)}
+                    mb="md"
+                  >
+                    {sharedPatchError}. The default instrument was loaded instead.
+                  </Alert>
+                )}
+
+                {mode === 'kit' ? (
+                  <>
+                    <Paper shadow="sm" p="md" withBorder style={{ width: '100%', boxSizing: 'border-box' }}>
+                      <DrumKitPanel drumKit={drumKit} currentConfig={config} />
+                    </Paper>
+
+                    <Paper shadow="sm" p="md" withBorder mt="md" style={{ width: '100%', boxSizing: 'border-box' }}>
+                      <DrumKitSequencer drumKit={drumKit} />
+                    </Paper>
+                  </>
+                ) : (
+                  <>
+                    <Paper shadow="sm" p="md" withBorder style={{ width: '100%', boxSizing: 'border-box' }}>
+                      {renderInstrumentControls()}
+                    </Paper>
+
+                    {samplerZones.nodeId && (
+                      <Paper shadow="sm" p="md" withBorder mt="md" style={{ width: '100%', boxSizing: 'border-box' }}>
+                        <SamplerZoneEditor samplerZones={samplerZones} />
+                      </Paper>
+                    )}
+
+                    {isPitched && (
+                      <Paper shadow="sm" p="md" withBorder mt="md" style={{ width: '100%', boxSizing: 'border-box' }}>
+                        <PianoKeyboard
+                          octave={computerKeyboard.octave}
+                          onOctaveChange={computerKeyboard.setOctave}
+                          heldNotes={notePlayer.heldNotes}
+                          onNoteOn={notePlayer.noteOn}
+                          onNoteOff={notePlayer.noteOff}
+                          voices={notePlayer.isPolyphonic ? {
+                            active: activeVoiceCount,
+                            max: triggerNodeDefinition?.settings?.maxPolyphony ?? DEFAULT_MAX_POLYPHONY
+                          } : undefined}
+                        />
+                      </Paper>
+                    )}
+
+                    <Paper shadow="sm" p="md" withBorder mt="md" style={{ width: '100%', boxSizing: 'border-box' }}>
+                      <StepSequencer sequencer={sequencer} pitched={isPitched} />
+                    </Paper>
+                  </>
+                )}
+
+                <Paper shadow="sm" p="md" withBorder mt="md" style={{ width: '100%', boxSizing: 'border-box' }}>
+                  <MidiInputPanel midi={midi} />
+                </Paper>
+
+                <Box mt="md" display={mode === 'kit' ? 'none' : undefined}>
+                  <NodeControlsPanel
+                    config={config}
+                    nodes={nodes}
+                    onNodeSettingsChange={updateNodeInGraph}
+                    midiLearn={midiLearn}
+                  />
+                </Box>
+
+                {config && (
+                  <Paper shadow="sm" p="md" withBorder mt="md" display={mode === 'kit' ? 'none' : undefined} style={{ width: '100%', boxSizing: 'border-box' }}>
+                    <ModulationMatrix
+                      graph={config.graph}
+                      onSetAmount={setModulationAmountInGraph}
+                      onRemoveRoute={removeModulationInGraph}
+                      onSetEnabled={setModulationEnabledInGraph}
+                    />
+                  </Paper>
+                )}
+
+                <Modal
+                  opened={patchEditorOpened && config !== null}
+                  onClose={() => setPatchEditorOpened(false)}
+                  title={`Patch Editor - ${config?.name || ''}`}
+                  size="xl"
+                  centered
+                >
+                  {config && (
+                    <PatchEditor
+                      graph={config.graph}
+                      onAddNode={addNodeToGraph}
+                      onRemoveNode={removeNodeFromGraph}
+                      onMoveNode={moveNodeInGraph}
+                      onConnect={connectInGraph}
+                      onDisconnect={disconnectInGraph}
+                      onRemoveModulation={removeModulationInGraph}
+                    />
+                  )}
+                </Modal>
+
+                <Modal
+                  opened={presetBrowserOpened}
+                  onClose={() => setPresetBrowserOpened(false)}
+                  title="Preset Browser"
+                  size="lg"
+                  centered
+                >
+                  <PresetBrowser
+                    entries={buildPresetEntries(userPresets)}
+                    currentValue={selectedPresetValue}
+                    favourites={presetBrowser.favourites}
+                    recents={presetBrowser.recents}
+                    onToggleFavourite={presetBrowser.toggleFavourite}
+                    onSelect={handlePresetBrowse}
+                    onChoose={handlePresetChoose}
+                  />
+                </Modal>
+
+                <ExportWavModal
+                  opened={exportWavOpened}
+                  onClose={() => setExportWavOpened(false)}
+                  config={config}
+                  isExporting={wavExport.isExporting}
+                  error={wavExport.error}
+                  onExport={wavExport.exportWav}
                 />
 
-                <Paper shadow="sm" p="md" withBorder style={{ width: '100%', boxSizing: 'border-box' }}>
-                  {renderInstrumentControls()}
+                <Paper shadow="sm" p="md" withBorder mt="md" display={mode === 'kit' ? 'none' : undefined} style={{ width: '100%', boxSizing: 'border-box' }}>
+                  <ABComparePanel
+                    config={config}
+                    onApplySnapshot={applySettingsSnapshotInGraph}
+                    onAudition={config?.graph.trigger === 'momentary' ? () => triggerGraph() : undefined}
+                  />
                 </Paper>
               </Container>
             </Center>
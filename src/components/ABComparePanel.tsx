@@ -0,0 +1,123 @@
+import { Stack, Group, Text, SegmentedControl, Button, ActionIcon, Tooltip, Table, Badge } from '@mantine/core'
+import { IconCopy, IconPlayerPlay } from '@tabler/icons-react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { useABCompare, type CompareSlot } from '../hooks/useABCompare'
+import { getParameterMetadata } from '../types/parameterMetadata'
+import type { GraphSettingsSnapshot } from '../utils/settingsDiff'
+
+interface ABComparePanelProps {
+  config: AudioGraphConfig | null
+  onApplySnapshot: (snapshot: GraphSettingsSnapshot) => Promise<void>
+  onAudition?: () => void // Only offered for momentary graphs, where a trigger plays a complete sound
+}
+
+const formatValue = (value: unknown, unit?: string): string => {
+  if (value === undefined) return '—'
+  if (typeof value === 'number') {
+    const rounded = String(Math.round(value * 1000) / 1000)
+    return unit ? `${rounded} ${unit}` : rounded
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+export function ABComparePanel({ config, onApplySnapshot, onAudition }: ABComparePanelProps) {
+  const {
+    activeSlot,
+    isSlotEmpty,
+    differences,
+    switchTo,
+    copyAToB
+  } = useABCompare(config, onApplySnapshot)
+
+  if (!config) {
+    return null
+  }
+
+  const multipleNodesDiffer = new Set(differences.map(difference => difference.nodeId)).size > 1
+
+  // Flip and immediately play so the two sounds can be heard back to back
+  const handleSlotChange = async (slot: string) => {
+    await switchTo(slot as CompareSlot)
+    onAudition?.()
+  }
+
+  const getParameterLabel = (nodeId: string, path: string) => {
+    const label = path.charAt(0).toUpperCase() + path.slice(1)
+    return multipleNodesDiffer ? `${nodeId} · ${label}` : label
+  }
+
+  const getParameterUnit = (nodeId: string, path: string) => {
+    const parameterName = path.split('.').pop() || path
+    return getParameterMetadata(parameterName, config.graph.nodes[nodeId]?.type)?.unit
+  }
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between" align="center">
+        <Group gap="xs" align="center">
+          <Text fw={500} size="sm">Compare</Text>
+          <SegmentedControl
+            size="xs"
+            value={activeSlot}
+            onChange={handleSlotChange}
+            data={['A', 'B']}
+          />
+          {onAudition && (
+            <Tooltip label="Audition current slot">
+              <ActionIcon variant="subtle" color="gray" onClick={onAudition} aria-label="Audition current slot">
+                <IconPlayerPlay size={16} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </Group>
+        <Button
+          size="xs"
+          variant="light"
+          color="gray"
+          leftSection={<IconCopy size={14} />}
+          onClick={() => copyAToB()}
+        >
+          Copy A to B
+        </Button>
+      </Group>
+
+      {isSlotEmpty('B') ? (
+        <Text size="xs" c="dimmed">
+          Slot B is empty. Switch to B to start from a copy of A.
+        </Text>
+      ) : differences.length === 0 ? (
+        <Text size="xs" c="dimmed">A and B are identical.</Text>
+      ) : (
+        <Table withRowBorders={false} verticalSpacing={2} fz="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Parameter</Table.Th>
+              <Table.Th>A</Table.Th>
+              <Table.Th>B</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {differences.map(difference => (
+              <Table.Tr key={`${difference.nodeId}.${difference.path}`}>
+                <Table.Td>{getParameterLabel(difference.nodeId, difference.path)}</Table.Td>
+                {(['A', 'B'] as const).map(slot => (
+                  <Table.Td key={slot}>
+                    <Badge
+                      size="sm"
+                      radius="sm"
+                      variant={slot === activeSlot ? 'filled' : 'light'}
+                      color={slot === 'A' ? 'blue' : 'orange'}
+                      tt="none"
+                    >
+                      {formatValue(slot === 'A' ? difference.a : difference.b, getParameterUnit(difference.nodeId, difference.path))}
+                    </Badge>
+                  </Table.Td>
+                ))}
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Stack>
+  )
+}
@@ -6,6 +6,8 @@ interface ADSRControlsProps<T extends BaseADSRSettings = ADSRSettings> extends U
   instrumentType?: InstrumentType
   onSettingsChange?: (settings: T) => void
   totalDuration?: number
+  onHandleContextMenu?: (handle: 'attack' | 'decay' | 'sustain' | 'release') => void
+  highlightedHandle?: 'attack' | 'decay' | 'sustain' | 'release' | null
 }
 
 export function ADSRControls<T extends BaseADSRSettings = ADSRSettings>({ 
@@ -13,6 +15,8 @@ export function ADSRControls<T extends BaseADSRSettings = ADSRSettings>({
   onSettingsChange, 
   initialSettings,
   totalDuration,
+  onHandleContextMenu,
+  highlightedHandle,
   ...adsrOptions 
 }: ADSRControlsProps<T>) {
   // Use the initialSettings directly if provided, otherwise use useADSR
@@ -50,6 +54,8 @@ export function ADSRControls<T extends BaseADSRSettings = ADSRSettings>({
       ranges={ranges}
       totalDuration={totalDuration}
       onReset={resetToDefaults}
+      onHandleContextMenu={onHandleContextMenu}
+      highlightedHandle={highlightedHandle}
     />
   )
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { useRef } from 'react'
+import type { KeyboardEvent, PointerEvent } from 'react'
+
+export interface DepthKnobProps {
+  value: number // -1..1, 0 at the top
+  onChange: (value: number) => void
+  label: string
+  disabled?: boolean
+  dimmed?: boolean
+  size?: number
+}
+
+const SWEEP_DEGREES = 135 // Either side of the top
+const DRAG_PIXELS = 150 // Vertical travel from centre to full depth
+const KEY_STEP = 0.05
+
+const clampDepth = (value: number) => Math.max(-1, Math.min(1, Number(value.toFixed(3))))
+
+const polar = (center: number, radius: number, degrees: number) => {
+  const radians = (degrees - 90) * Math.PI / 180
+  return { x: center + radius * Math.cos(radians), y: center + radius * Math.sin(radians) }
+}
+
+const arcPath = (center: number, radius: number, fromDegrees: number, toDegrees: number) => {
+  const start = polar(center, radius, fromDegrees)
+  const end = polar(center, radius, toDegrees)
+  const largeArc = Math.abs(toDegrees - fromDegrees) > 180 ? 1 : 0
+  const sweep = toDegrees > fromDegrees ? 1 : 0
+  return `M ${start.x} ${start.y} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${end.x} ${end.y}`
+}
+
+// Bipolar knob: drag up or down, arrow keys to nudge, double-click to reset to zero
+export function DepthKnob({ value, onChange, label, disabled = false, dimmed = false, size = 36 }: DepthKnobProps) {
+  const dragRef = useRef<{ startY: number; startValue: number } | null>(null)
+
+  const center = size / 2
+  const radius = size / 2 - 4
+  const angle = value * SWEEP_DEGREES
+  const color = value < 0 ? 'var(--mantine-color-orange-5)' : 'var(--mantine-color-blue-5)'
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (disabled) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { startY: event.clientY, startValue: value }
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const next = clampDepth(drag.startValue + (drag.startY - event.clientY) / DRAG_PIXELS)
+    if (next !== value) {
+      onChange(next)
+    }
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+    if (disabled) return
+    const step = event.shiftKey ? KEY_STEP / 5 : KEY_STEP
+    const next = {
+      ArrowUp: value + step,
+      ArrowRight: value + step,
+      ArrowDown: value - step,
+      ArrowLeft: value - step,
+      Home: 0
+    }[event.key]
+    if (next !== undefined) {
+      event.preventDefault()
+      onChange(clampDepth(next))
+    }
+  }
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      role="slider"
+      tabIndex={disabled ? -1 : 0}
+      aria-label={label}
+      aria-valuemin={-1}
+      aria-valuemax={1}
+      aria-valuenow={value}
+      aria-valuetext={`${Math.round(value * 100)}%`}
+      aria-disabled={disabled}
+      style={{ cursor: disabled ? 'default' : 'ns-resize', opacity: disabled ? 0.3 : dimmed ? 0.5 : 1, touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      onDoubleClick={() => !disabled && onChange(0)}
+    >
+      <path d={arcPath(center, radius, -SWEEP_DEGREES, SWEEP_DEGREES)} fill="none" stroke="var(--mantine-color-gray-4)" strokeWidth={3} strokeLinecap="round" />
+      {value !== 0 && (
+        <path d={arcPath(center, radius, Math.min(0, angle), Math.max(0, angle))} fill="none" stroke={color} strokeWidth={3} strokeLinecap="round" />
+      )}
+      <line
+        x1={center}
+        y1={center}
+        x2={polar(center, radius - 3, angle).x}
+        y2={polar(center, radius - 3, angle).y}
+        stroke="var(--mantine-color-text)"
+        strokeWidth={2}
+        strokeLinecap="round"
+      />
+    </svg>
+  )
+}
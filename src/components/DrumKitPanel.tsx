@@ -0,0 +1,210 @@
+import { Stack, Group, Text, Button, Select, Slider, TextInput, ActionIcon, Tooltip, SimpleGrid, Box, Badge } from '@mantine/core'
+import { IconPlus, IconTrash, IconRestore } from '@tabler/icons-react'
+import { useState } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import type { useDrumKit } from '../hooks/useDrumKit'
+import { drumPadSounds } from '../config/drumKits'
+import { getAvailableInstruments, getInstrumentPreset } from '../config/instrumentPresets'
+import { midiNoteToName } from '../utils/midi'
+import { MAX_KIT_PADS, getPadKeyLabel } from '../utils/drumKit'
+
+interface DrumKitPanelProps {
+  drumKit: ReturnType<typeof useDrumKit>
+  currentConfig: AudioGraphConfig | null // The instrument open in the editor, offered as a pad sound
+}
+
+const KIT_SOUND_PREFIX = 'kit:'
+const PRESET_PREFIX = 'preset:'
+
+const soundOptions = [
+  {
+    group: 'Drum sounds',
+    items: Object.entries(drumPadSounds).map(([key, config]) => ({ value: `${KIT_SOUND_PREFIX}${key}`, label: config.name }))
+  },
+  {
+    group: 'Instruments',
+    items: getAvailableInstruments()
+      .filter(instrument => !instrument.disabled)
+      .map(instrument => ({ value: `${PRESET_PREFIX}${instrument.key}`, label: instrument.name }))
+  }
+]
+
+const resolveSound = (value: string): AudioGraphConfig | null => {
+  if (value.startsWith(KIT_SOUND_PREFIX)) {
+    return drumPadSounds[value.slice(KIT_SOUND_PREFIX.length) as keyof typeof drumPadSounds] ?? null
+  }
+  if (value.startsWith(PRESET_PREFIX)) {
+    return getInstrumentPreset(value.slice(PRESET_PREFIX.length) as Parameters<typeof getInstrumentPreset>[0]) ?? null
+  }
+  return null
+}
+
+const NOTE_OPTIONS = Array.from({ length: 128 }, (_, note) => ({ value: String(note), label: `${midiNoteToName(note)} (${note})` }))
+
+// Pad grid for drum kit mode; the selected pad's sound, MIDI note, gain and pan are edited below
+export function DrumKitPanel({ drumKit, currentConfig }: DrumKitPanelProps) {
+  const { kit, hitPadIds, playPad, updatePad, setPadConfig, addPad, removePad, resetKit } = drumKit
+  const [selectedPadId, setSelectedPadId] = useState<string | null>(null)
+
+  const selectedPad = kit.pads.find(pad => pad.id === selectedPadId) ?? kit.pads[0]
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between" align="center">
+        <Group gap="xs" align="center">
+          <Text fw={500} size="sm">{kit.name}</Text>
+          <Badge size="sm" variant="light" color="gray" tt="none">
+            {kit.pads.length}/{MAX_KIT_PADS} pads
+          </Badge>
+        </Group>
+        <Group gap={4}>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPlus size={14} />}
+            onClick={() => addPad(drumPadSounds.snare)}
+            disabled={kit.pads.length >= MAX_KIT_PADS}
+          >
+            Add pad
+          </Button>
+          <Tooltip label="Reset to the default kit">
+            <ActionIcon variant="subtle" color="gray" size="lg" onClick={resetKit} aria-label="Reset kit">
+              <IconRestore size={16} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+      </Group>
+
+      <SimpleGrid cols={4} spacing="xs">
+        {kit.pads.map((pad, index) => {
+          const isHit = hitPadIds.includes(pad.id)
+          const isSelected = selectedPad?.id === pad.id
+          return (
+            <Box
+              key={pad.id}
+              role="button"
+              aria-label={`Play ${pad.name}`}
+              onPointerDown={(event) => {
+                event.preventDefault()
+                playPad(pad.id)
+                setSelectedPadId(pad.id)
+              }}
+              style={{
+                height: 72,
+                padding: 8,
+                borderRadius: 6,
+                cursor: 'pointer',
+                userSelect: 'none',
+                touchAction: 'none',
+                display: 'flex',
+                flexDirection: 'column',
+                justifyContent: 'space-between',
+                backgroundColor: isHit ? 'var(--mantine-color-blue-5)' : 'var(--mantine-color-default-hover)',
+                color: isHit ? 'white' : undefined,
+                border: isSelected ? '2px solid var(--mantine-color-yellow-5)' : '1px solid var(--mantine-color-default-border)',
+                boxSizing: 'border-box',
+                transition: 'background-color 60ms'
+              }}
+            >
+              <Text size="sm" fw={500} truncate>{pad.name}</Text>
+              <Group justify="space-between" gap={4}>
+                <Text size="xs" c={isHit ? undefined : 'dimmed'}>{midiNoteToName(pad.note)}</Text>
+                {getPadKeyLabel(index) && (
+                  <Badge size="xs" variant="outline" color="gray">{getPadKeyLabel(index)}</Badge>
+                )}
+              </Group>
+            </Box>
+          )
+        })}
+      </SimpleGrid>
+
+      {selectedPad && (
+        <Stack gap="xs">
+          <Group gap="sm" align="flex-end" wrap="wrap">
+            <TextInput
+              size="xs"
+              w={130}
+              label="Pad name"
+              value={selectedPad.name}
+              onChange={(event) => updatePad(selectedPad.id, { name: event.currentTarget.value })}
+            />
+            <Select
+              size="xs"
+              w={150}
+              label="Sound"
+              placeholder="Load sound…"
+              value={null}
+              onChange={(value) => {
+                const config = value ? resolveSound(value) : null
+                if (config) setPadConfig(selectedPad.id, config)
+              }}
+              data={soundOptions}
+            />
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => currentConfig && setPadConfig(selectedPad.id, currentConfig)}
+              disabled={!currentConfig}
+            >
+              Use current instrument
+            </Button>
+            <Select
+              size="xs"
+              w={110}
+              label="MIDI note"
+              value={String(selectedPad.note)}
+              onChange={(value) => value && updatePad(selectedPad.id, { note: Number(value) })}
+              data={NOTE_OPTIONS}
+              allowDeselect={false}
+              searchable
+            />
+          </Group>
+          <Group gap="md" align="flex-end" wrap="wrap">
+            <Box w={160}>
+              <Text size="xs" fw={500}>Gain {Math.round(selectedPad.gain * 100)}%</Text>
+              <Slider
+                size="sm"
+                min={0}
+                max={1}
+                step={0.01}
+                value={selectedPad.gain}
+                onChange={(value) => updatePad(selectedPad.id, { gain: value })}
+                label={(value) => `${Math.round(value * 100)}%`}
+                aria-label="Pad gain"
+              />
+            </Box>
+            <Box w={160}>
+              <Text size="xs" fw={500}>
+                Pan {selectedPad.pan === 0 ? 'C' : `${Math.round(Math.abs(selectedPad.pan) * 100)}${selectedPad.pan < 0 ? 'L' : 'R'}`}
+              </Text>
+              <Slider
+                size="sm"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={selectedPad.pan}
+                onChange={(value) => updatePad(selectedPad.id, { pan: value })}
+                label={null}
+                aria-label="Pad pan"
+              />
+            </Box>
+            <Tooltip label="Remove pad">
+              <ActionIcon
+                variant="subtle"
+                color="red"
+                onClick={() => removePad(selectedPad.id)}
+                aria-label="Remove pad"
+              >
+                <IconTrash size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </Group>
+        </Stack>
+      )}
+
+      <Text size="xs" c="dimmed">
+        Click a pad or press its key to play it. MIDI notes play every pad mapped to them.
+      </Text>
+    </Stack>
+  )
+}
@@ -0,0 +1,88 @@
+import { Stack, Group, Text, Box } from '@mantine/core'
+import { useState } from 'react'
+import type { useDrumKit } from '../hooks/useDrumKit'
+import { SequencerHeader, StepCell, StepEditor } from './SequencerControls'
+
+interface DrumKitSequencerProps {
+  drumKit: ReturnType<typeof useDrumKit>
+}
+
+const PAD_LABEL_WIDTH = 72
+
+// One pattern row per pad, all sharing tempo, swing and length; the selected step's velocity and accent are edited below
+export function DrumKitSequencer({ drumKit }: DrumKitSequencerProps) {
+  const {
+    kit,
+    isRunning,
+    currentStep,
+    start,
+    stop,
+    toggleStep,
+    updateStep,
+    setLength,
+    setBpm,
+    setSwing,
+    clearSteps
+  } = drumKit
+  const [selected, setSelected] = useState<{ padId: string; index: number } | null>(null)
+
+  const selectedPad = selected ? kit.pads.find(pad => pad.id === selected.padId) : undefined
+  const selectedStep = selected && selectedPad ? selectedPad.steps[selected.index] : undefined
+
+  return (
+    <Stack gap="sm">
+      <SequencerHeader
+        title="Kit pattern"
+        isRunning={isRunning}
+        onStart={start}
+        onStop={stop}
+        length={kit.length}
+        onLengthChange={setLength}
+        bpm={kit.bpm}
+        onBpmChange={setBpm}
+        swing={kit.swing}
+        onSwingChange={setSwing}
+        onClear={clearSteps}
+      />
+
+      <Box style={{ overflowX: 'auto' }}>
+        <Stack gap={4} miw={kit.length === 32 ? 900 : undefined}>
+          {kit.pads.map(pad => (
+            <Group key={pad.id} gap={4} wrap="nowrap" align="center">
+              <Text size="xs" w={PAD_LABEL_WIDTH} truncate style={{ flexShrink: 0 }}>{pad.name}</Text>
+              <Box style={{ display: 'grid', gridTemplateColumns: `repeat(${kit.length}, 1fr)`, gap: 3, flex: 1 }}>
+                {pad.steps.map((step, index) => {
+                  const isSelected = selected?.padId === pad.id && selected.index === index
+                  return (
+                    <StepCell
+                      key={index}
+                      step={step}
+                      index={index}
+                      isCurrent={currentStep === index}
+                      isSelected={isSelected}
+                      onClick={() => {
+                        // The first click on an active step selects it for editing; clicking it again turns it off
+                        if (!step.active || isSelected) toggleStep(pad.id, index)
+                        setSelected({ padId: pad.id, index })
+                      }}
+                    />
+                  )
+                })}
+              </Box>
+            </Group>
+          ))}
+        </Stack>
+      </Box>
+
+      {selected && selectedPad && selectedStep && (
+        <StepEditor
+          label={`${selectedPad.name} · step ${selected.index + 1}`}
+          step={selectedStep}
+          onChange={(changes) => updateStep(selected.padId, selected.index, changes)}
+          showNote={false}
+          showGate={false}
+        />
+      )}
+    </Stack>
+  )
+}
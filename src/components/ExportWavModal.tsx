@@ -0,0 +1,110 @@
+import { Modal, Stack, Group, Select, SegmentedControl, NumberInput, Button, Alert, Text } from '@mantine/core'
+import { IconDownload, IconAlertTriangle } from '@tabler/icons-react'
+import { useState } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import type { WavExportOptions } from '../hooks/useWavExport'
+import { DEFAULT_RENDER_OPTIONS, EXPORT_SAMPLE_RATES, MAX_RENDER_SECONDS, getRenderHoldTime } from '../utils/offlineRender'
+import { WAV_BIT_DEPTHS, type WavBitDepth } from '../utils/wavEncoder'
+
+export interface ExportWavModalProps {
+  opened: boolean
+  onClose: () => void
+  config: AudioGraphConfig | null
+  isExporting: boolean
+  error: string | null
+  onExport: (options: WavExportOptions) => Promise<boolean>
+}
+
+const BIT_DEPTH_LABELS: Record<string, string> = {
+  16: '16-bit',
+  24: '24-bit',
+  '32f': '32-bit float'
+}
+
+const bitsPerSample = (bitDepth: WavBitDepth): number => bitDepth === '32f' ? 32 : bitDepth
+
+export function ExportWavModal({ opened, onClose, config, isExporting, error, onExport }: ExportWavModalProps) {
+  const [sampleRate, setSampleRate] = useState(DEFAULT_RENDER_OPTIONS.sampleRate)
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24)
+  const [noteLength, setNoteLength] = useState(DEFAULT_RENDER_OPTIONS.noteLength)
+  const [tail, setTail] = useState(DEFAULT_RENDER_OPTIONS.tail)
+
+  const isSustained = config?.graph.trigger === 'sustained'
+  const totalSeconds = config ? getRenderHoldTime(config, noteLength) + tail : 0
+  const fileKilobytes = totalSeconds * sampleRate * 2 * (bitsPerSample(bitDepth) / 8) / 1024
+  const isTooLong = totalSeconds > MAX_RENDER_SECONDS
+
+  const handleExport = async () => {
+    if (await onExport({ sampleRate, bitDepth, noteLength, tail })) {
+      onClose()
+    }
+  }
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={`Export WAV - ${config?.name || ''}`} centered>
+      <Stack gap="md">
+        <Select
+          label="Sample rate"
+          value={String(sampleRate)}
+          onChange={(value) => value && setSampleRate(Number(value))}
+          data={EXPORT_SAMPLE_RATES.map(rate => ({ value: String(rate), label: `${(rate / 1000).toFixed(1)} kHz` }))}
+          allowDeselect={false}
+        />
+        <div>
+          <Text size="sm" fw={500} mb={4}>Bit depth</Text>
+          <SegmentedControl
+            fullWidth
+            value={String(bitDepth)}
+            onChange={(value) => setBitDepth(value === '32f' ? '32f' : Number(value) as WavBitDepth)}
+            data={WAV_BIT_DEPTHS.map(depth => ({ value: String(depth), label: BIT_DEPTH_LABELS[depth] }))}
+          />
+        </div>
+        <Group grow>
+          {isSustained && (
+            <NumberInput
+              label="Note length (s)"
+              description="How long the note is held"
+              value={noteLength}
+              min={0.05}
+              max={MAX_RENDER_SECONDS}
+              step={0.25}
+              decimalScale={2}
+              onChange={(value) => typeof value === 'number' && setNoteLength(value)}
+            />
+          )}
+          <NumberInput
+            label="Tail (s)"
+            description="Recorded after the release"
+            value={tail}
+            min={0}
+            max={MAX_RENDER_SECONDS}
+            step={0.5}
+            decimalScale={2}
+            onChange={(value) => typeof value === 'number' && setTail(value)}
+          />
+        </Group>
+        <Text size="xs" c={isTooLong ? 'red' : 'dimmed'}>
+          {isTooLong
+            ? `Exports are limited to ${MAX_RENDER_SECONDS} seconds.`
+            : `${totalSeconds.toFixed(2)} s stereo, about ${Math.ceil(fileKilobytes)} KB. Effects are rendered with the instrument.`}
+        </Text>
+        {error && (
+          <Alert color="red" variant="light" icon={<IconAlertTriangle size={16} />}>
+            {error}
+          </Alert>
+        )}
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>Cancel</Button>
+          <Button
+            leftSection={<IconDownload size={16} />}
+            onClick={handleExport}
+            loading={isExporting}
+            disabled={!config || isTooLong}
+          >
+            Export WAV
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  )
+}
@@ -17,6 +17,8 @@ interface GraphicalADSRProps {
   height?: number
   totalDuration?: number
   onReset?: () => void
+  onHandleContextMenu?: (handle: ControlPoint['id']) => void // Right-click on a handle, e.g. to arm MIDI learn
+  highlightedHandle?: ControlPoint['id'] | null // Drawn with a ring, e.g. while waiting for a MIDI controller
 }
 
 interface ControlPoint {
@@ -33,7 +35,9 @@ export function GraphicalADSR({
   ranges,
   width,
   height = 200,
-  onReset
+  onReset,
+  onHandleContextMenu,
+  highlightedHandle
 }: GraphicalADSRProps) {
   // Make responsive - use states to track window size and mobile status
   const [containerWidth, setContainerWidth] = useState(400)
@@ -542,6 +546,18 @@ export function GraphicalADSR({
             
             return (
               <g key={point.id}>
+                {highlightedHandle === point.id && (
+                  <circle
+                    cx={point.x}
+                    cy={point.y}
+                    r={dragHandleSizeActive + 4}
+                    fill="none"
+                    stroke={colors[point.id]}
+                    strokeWidth="2"
+                    strokeDasharray="3,3"
+                    pointerEvents="none"
+                  />
+                )}
                 <circle
                   cx={point.x}
                   cy={point.y}
@@ -553,7 +569,10 @@ export function GraphicalADSR({
                   }}
                   onMouseDown={(e) => handleMouseDown(e, point.id)}
                   onTouchStart={(e) => handleTouchStart(e, point.id)}
-                  onContextMenu={(e) => e.preventDefault()}
+                  onContextMenu={(e) => {
+                    e.preventDefault()
+                    onHandleContextMenu?.(point.id)
+                  }}
                   opacity={dragState.dragId === point.id ? 0.9 : 1}
                 />
                 <text
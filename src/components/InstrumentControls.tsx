@@ -1,16 +1,15 @@
-import { Stack, Text, Slider, Select, Group, Title, useMantineTheme } from '@mantine/core'
+import { Stack, Text, Select, Group, Title } from '@mantine/core'
 import { useState } from 'react'
-import type { ReactElement } from 'react'
 import { PlayButton } from './PlayButton'
 import { JsonViewButton } from './JsonViewButton'
 import { JsonModal } from './JsonModal'
-import { useMediaQuery } from '@mantine/hooks'
-import { EditableValue } from './EditableValue'
+import { ParameterControls } from './ParameterControls'
 import { ADSRControls } from './ADSRControls'
 import { WaveformVisualization } from './WaveformVisualization'
+import { MidiLearnBadge } from './MidiLearnBadge'
+import type { MidiLearn } from '../hooks/useMidiLearn'
 import type { AudioGraphConfig } from '../types/audioGraph'
 import type { ADSRSettings, SustainedADSRSettings } from '../hooks/useADSR'
-import { getParameterMetadata, shouldShowParameter } from '../types/parameterMetadata'
 
 interface InstrumentControlsProps {
   config: AudioGraphConfig | null
@@ -21,8 +20,12 @@ interface InstrumentControlsProps {
   onPlay?: () => void
   onStop?: () => void
   getWaveformData: () => Float32Array | null
+  onImportConfig?: (config: AudioGraphConfig) => void
+  midiLearn?: MidiLearn
 }
 
+const ENVELOPE_HANDLES = ['attack', 'decay', 'sustain', 'release'] as const
+
 export function InstrumentControls({
   config,
   settings,
@@ -31,21 +34,11 @@ export function InstrumentControls({
   onTrigger,
   onPlay,
   onStop,
-  getWaveformData
+  getWaveformData,
+  onImportConfig,
+  midiLearn
 }: InstrumentControlsProps) {
   const [jsonModalOpened, setJsonModalOpened] = useState(false)
-  const theme = useMantineTheme()
-  const isMobile = useMediaQuery('(max-width: 768px)')
-  const sliderSize = isMobile ? 'md' : 'sm'
-
-  // Get responsive thumb size from theme
-  const thumbSize = isMobile ? theme.other.slider.thumb.sizeMobile : theme.other.slider.thumb.size
-  const sliderStyles = {
-    thumb: {
-      width: thumbSize,
-      height: thumbSize,
-    }
-  }
 
   if (!config) {
     return null
@@ -61,8 +54,27 @@ export function InstrumentControls({
   const instrumentName = config.name
 
   // Get instrument type for specialized controls
+  const triggerNodeId = triggerNodeEntry[0]
   const instrumentType = triggerNodeEntry[1].type
 
+  // MIDI learn for an envelope editor whose settings live at `envelopePath`, e.g. "voice0.envelope"
+  const getEnvelopeLearnProps = (envelopePath: string) => {
+    if (!midiLearn) return {}
+    const targetFor = (handle: typeof ENVELOPE_HANDLES[number]) => `${triggerNodeId}.${envelopePath}.${handle}`
+    return {
+      onHandleContextMenu: (handle: typeof ENVELOPE_HANDLES[number]) => midiLearn.startLearning(targetFor(handle)),
+      highlightedHandle: ENVELOPE_HANDLES.find(handle => midiLearn.learningTarget === targetFor(handle)) ?? null
+    }
+  }
+
+  const renderEnvelopeLearnBadges = (envelopePath: string) => midiLearn && (
+    <Group gap={4}>
+      {ENVELOPE_HANDLES.map(handle => (
+        <MidiLearnBadge key={handle} target={`${triggerNodeId}.${envelopePath}.${handle}`} midiLearn={midiLearn} />
+      ))}
+    </Group>
+  )
+
   // Get instrument description
   const getInstrumentDescription = (instrumentType: string) => {
     const descriptions: Record<string, string> = {
@@ -75,7 +87,8 @@ export function InstrumentControls({
       'PluckSynth': 'Karplus-Strong synthesis for modeling plucked string instruments',
       'MetalSynth': 'Frequency modulation optimized for metallic percussion and bell sounds',
       'NoiseSynth': 'Noise-based synthesis perfect for percussion, drums, and sound effects',
-      'PolySynth': 'Polyphonic synthesis for playing chords and multiple simultaneous notes'
+      'PolySynth': 'Polyphonic synthesis for playing chords and multiple simultaneous notes',
+      'Sampler': 'Plays your own recordings, each pitched from its root note across a key and velocity range'
     }
     return descriptions[instrumentType] || ''
   }
@@ -179,7 +192,9 @@ export function InstrumentControls({
             attack: 0.01, decay: 0.3, sustain: 0.3, release: 1.0
           }}
           onSettingsChange={(envelope) => handlePolySynthVoiceChange({ envelope })}
+          {...getEnvelopeLearnProps('voice.envelope')}
         />
+        {renderEnvelopeLearnBadges('voice.envelope')}
       </Stack>
     )
   }
@@ -212,7 +227,9 @@ export function InstrumentControls({
             attack: 0.01, decay: 0.3, sustain: 0.3, release: 1.0
           }}
           onSettingsChange={(envelope) => handleVoiceEnvelopeChange(0, envelope as unknown as Record<string, unknown>)}
+          {...getEnvelopeLearnProps('voice0.envelope')}
         />
+        {renderEnvelopeLearnBadges('voice0.envelope')}
 
         {/* Voice 1 */}
         <Text fw={500} size="sm">Voice 1</Text>
@@ -233,98 +250,13 @@ export function InstrumentControls({
             attack: 0.01, decay: 0.3, sustain: 0.3, release: 1.0
           }}
           onSettingsChange={(envelope) => handleVoiceEnvelopeChange(1, envelope as unknown as Record<string, unknown>)}
+          {...getEnvelopeLearnProps('voice1.envelope')}
         />
+        {renderEnvelopeLearnBadges('voice1.envelope')}
       </Stack>
     )
   }
 
-  // Generate parameter controls based on settings
-  const renderParameterControls = () => {
-    const controls: ReactElement[] = []
-
-    Object.entries(settings).forEach(([paramName, paramValue]) => {
-      // Skip voice parameters for DuoSynth as they are handled separately
-      if (instrumentType === 'DuoSynth' && (paramName === 'voice0' || paramName === 'voice1')) {
-        return
-      }
-
-      if (!shouldShowParameter(paramName)) {
-        return
-      }
-
-      const metadata = getParameterMetadata(paramName, instrumentType)
-      if (!metadata) {
-        return
-      }
-
-      const key = `${paramName}-control`
-
-      if (metadata.controlType === 'slider') {
-        // Ensure paramValue is a number for slider controls
-        const numericValue = typeof paramValue === 'number' ? paramValue : 0
-        let sliderValue = numericValue
-        const displayValue = numericValue
-
-        // Handle logarithmic scaling for frequency
-        if (metadata.scale === 'logarithmic' && metadata.toSlider) {
-          sliderValue = metadata.toSlider(numericValue)
-        }
-
-        controls.push(
-          <div key={key}>
-            <EditableValue
-              label={paramName.charAt(0).toUpperCase() + paramName.slice(1)}
-              value={displayValue}
-              unit={metadata.unit || ''}
-              onValueChange={(value) => onSettingsChange({ [paramName]: value })}
-              formatDisplay={metadata.formatDisplay}
-              min={metadata.scale === 'logarithmic' ? 20 : metadata.range?.min}
-              max={metadata.scale === 'logarithmic' ? 20000 : metadata.range?.max}
-              description={metadata.description}
-            />
-            <Slider
-              value={sliderValue}
-              onChange={(value) => {
-                let actualValue = value
-                if (metadata.scale === 'logarithmic' && metadata.fromSlider) {
-                  actualValue = metadata.fromSlider(value)
-                }
-                onSettingsChange({ [paramName]: actualValue })
-              }}
-              min={metadata.range?.min || 0}
-              max={metadata.range?.max || 100}
-              step={metadata.range?.step || 1}
-              size={sliderSize}
-              styles={sliderStyles}
-              label={metadata.scale === 'logarithmic' && metadata.fromSlider ?
-                (sliderValue) => {
-                  const actualValue = metadata.fromSlider!(sliderValue)
-                  return `${actualValue} ${metadata.unit || ''}`
-                } : undefined
-              }
-            />
-          </div>
-        )
-      } else if (metadata.controlType === 'select' && metadata.options) {
-        controls.push(
-          <div key={key}>
-            <Text size="xs" mb="4px">
-              {paramName.charAt(0).toUpperCase() + paramName.slice(1)}
-            </Text>
-            <Select
-              value={typeof paramValue === 'string' ? paramValue : ''}
-              onChange={(value) => onSettingsChange({ [paramName]: value })}
-              data={metadata.options}
-              size="xs"
-            />
-          </div>
-        )
-      }
-    })
-
-    return controls
-  }
-
   return (
     <Stack gap="md">
       <Group justify="space-between" align="center">
@@ -367,7 +299,13 @@ export function InstrumentControls({
         adsrSettings={settings.envelope as ADSRSettings | SustainedADSRSettings}
       />
 
-      {renderParameterControls()}
+      <ParameterControls
+        settings={settings}
+        nodeType={instrumentType}
+        onSettingsChange={onSettingsChange}
+        nodeId={triggerNodeId}
+        midiLearn={midiLearn}
+      />
 
       {/* DuoSynth-specific controls */}
       {instrumentType === 'DuoSynth' && renderDuoSynthControls()}
@@ -375,8 +313,8 @@ export function InstrumentControls({
       {/* PolySynth-specific controls */}
       {instrumentType === 'PolySynth' && renderPolySynthControls()}
 
-      {/* Main envelope controls - only for non-DuoSynth, non-PluckSynth, and non-PolySynth instruments */}
-      {instrumentType !== 'DuoSynth' && instrumentType !== 'PluckSynth' && instrumentType !== 'PolySynth' && (
+      {/* Main envelope controls - Sampler has only attack and release, shown as parameters above */}
+      {instrumentType !== 'DuoSynth' && instrumentType !== 'PluckSynth' && instrumentType !== 'PolySynth' && instrumentType !== 'Sampler' && (
         <Stack gap="xs">
           <ADSRControls
             instrumentType={triggerType === 'sustained' ? 'sustained' : 'percussive'}
@@ -397,7 +335,9 @@ export function InstrumentControls({
                 baseTime + 1.0 :
                 baseTime + (('sustainDuration' in envelope) ? envelope.sustainDuration : 0)
             })()}
+            {...getEnvelopeLearnProps('envelope')}
           />
+          {renderEnvelopeLearnBadges('envelope')}
         </Stack>
       )}
 
@@ -406,6 +346,7 @@ export function InstrumentControls({
         opened={jsonModalOpened}
         onClose={() => setJsonModalOpened(false)}
         config={config}
+        onImport={onImportConfig}
       />
     </Stack>
   )
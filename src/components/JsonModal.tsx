@@ -1,22 +1,162 @@
-import { Modal, ScrollArea, Code, Box, Group, ActionIcon } from '@mantine/core'
+import { Modal, ScrollArea, Code, Box, Group, ActionIcon, JsonInput, Button, FileButton, Alert, List, Text, Tooltip } from '@mantine/core'
 import { useClipboard } from '@mantine/hooks'
-import { IconCopy, IconCheck, IconX } from '@tabler/icons-react'
+import { IconCopy, IconCheck, IconX, IconFileImport, IconAlertTriangle } from '@tabler/icons-react'
+import { useEffect, useMemo, useState } from 'react'
+import type { DragEvent } from 'react'
 import type { AudioGraphConfig } from '../types/audioGraph'
+import { parseGraphConfigJson, formatGraphConfigIssue } from '../utils/graphConfigValidator'
 
 export interface JsonModalProps {
   opened: boolean
   onClose: () => void
   config: AudioGraphConfig | null
+  onImport?: (config: AudioGraphConfig) => void // When provided the JSON becomes editable and loadable
 }
 
-export function JsonModal({ opened, onClose, config }: JsonModalProps) {
+const monospaceFont = 'ui-monospace, SFMono-Regular, "SF Mono", Monaco, Consolas, "Liberation Mono", "Courier New", monospace'
+
+export function JsonModal({ opened, onClose, config, onImport }: JsonModalProps) {
   const jsonString = config ? JSON.stringify(config, null, 2) : ''
   const clipboard = useClipboard({ timeout: 2000 })
+  const [draft, setDraft] = useState(jsonString)
+  const [isDragging, setIsDragging] = useState(false)
+
+  // Start each editing session from the current config
+  useEffect(() => {
+    if (opened) {
+      setDraft(jsonString)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opened]) // Live setting changes must not overwrite an edit in progress
+
+  const validation = useMemo(() => parseGraphConfigJson(draft), [draft])
+  const isModified = draft !== jsonString
 
   const handleCopy = () => {
-    clipboard.copy(jsonString)
+    clipboard.copy(onImport ? draft : jsonString)
+  }
+
+  const loadFile = async (file: File | null) => {
+    if (!file) return
+    try {
+      const text = await file.text()
+      console.log('📂 Loaded JSON file:', file.name)
+      setDraft(text)
+    } catch (error) {
+      console.error('❌ Failed to read JSON file:', file.name, error)
+    }
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    loadFile(event.dataTransfer.files[0] || null)
+  }
+
+  const handleImport = () => {
+    if (!onImport || !validation.config) return
+    console.log('📥 Importing audio graph config:', validation.config.name)
+    onImport(validation.config)
+    onClose()
   }
 
+  const renderViewer = () => (
+    config ? (
+      <ScrollArea.Autosize mah={500}>
+        <Code
+          block
+          fz="xs"
+          style={{
+            whiteSpace: 'pre-wrap',
+            fontFamily: monospaceFont
+          }}
+        >
+          {jsonString}
+        </Code>
+      </ScrollArea.Autosize>
+    ) : (
+      <Box p="md">
+        <Code>No configuration available</Code>
+      </Box>
+    )
+  )
+
+  const renderEditor = () => (
+    <Box
+      onDragOver={(event) => {
+        event.preventDefault()
+        setIsDragging(true)
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      style={{
+        borderRadius: '4px',
+        outline: isDragging ? '2px dashed var(--mantine-color-blue-filled)' : 'none'
+      }}
+    >
+      <JsonInput
+        value={draft}
+        onChange={setDraft}
+        placeholder="Paste an audio graph configuration or drop a .json file"
+        autosize
+        minRows={12}
+        maxRows={24}
+        formatOnBlur
+        error={!validation.valid}
+        styles={{ input: { fontFamily: monospaceFont, fontSize: '12px' } }}
+      />
+
+      {validation.errors.length > 0 && (
+        <Alert color="red" variant="light" mt="sm" p="xs" icon={<IconAlertTriangle size={16} />}>
+          <List size="xs" spacing={2}>
+            {validation.errors.map((issue, index) => (
+              <List.Item key={index} style={{ fontFamily: monospaceFont }}>
+                {formatGraphConfigIssue(issue)}
+              </List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      {validation.warnings.length > 0 && (
+        <Alert color="yellow" variant="light" mt="sm" p="xs">
+          <List size="xs" spacing={2}>
+            {validation.warnings.map((issue, index) => (
+              <List.Item key={index} style={{ fontFamily: monospaceFont }}>
+                {formatGraphConfigIssue(issue)}
+              </List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      <Group justify="space-between" mt="sm">
+        <Group gap="xs">
+          <FileButton onChange={loadFile} accept="application/json,.json">
+            {(props) => (
+              <Button {...props} variant="subtle" color="gray" size="xs" leftSection={<IconFileImport size={14} />}>
+                Open file
+              </Button>
+            )}
+          </FileButton>
+          {isModified && (
+            <Button variant="subtle" color="gray" size="xs" onClick={() => setDraft(jsonString)}>
+              Reset
+            </Button>
+          )}
+        </Group>
+        <Group gap="xs">
+          {validation.valid && !isModified && (
+            <Text size="xs" c="dimmed">Current configuration</Text>
+          )}
+          <Button size="xs" onClick={handleImport} disabled={!validation.valid || !isModified}>
+            Load
+          </Button>
+        </Group>
+      </Group>
+    </Box>
+  )
+
   return (
     <Modal
       opened={opened}
@@ -34,15 +174,17 @@ export function JsonModal({ opened, onClose, config }: JsonModalProps) {
     >
       <Box style={{ position: 'absolute', top: '12px', right: '12px', zIndex: 1000 }}>
         <Group gap="xs">
-          <ActionIcon
-            variant="subtle"
-            color={clipboard.copied ? 'teal' : 'gray'}
-            onClick={handleCopy}
-            disabled={!config}
-            size="sm"
-          >
-            {clipboard.copied ? <IconCheck size={16} /> : <IconCopy size={16} />}
-          </ActionIcon>
+          <Tooltip label={clipboard.copied ? 'Copied' : 'Copy JSON'} withArrow>
+            <ActionIcon
+              variant="subtle"
+              color={clipboard.copied ? 'teal' : 'gray'}
+              onClick={handleCopy}
+              disabled={!config && !draft}
+              size="sm"
+            >
+              {clipboard.copied ? <IconCheck size={16} /> : <IconCopy size={16} />}
+            </ActionIcon>
+          </Tooltip>
           <ActionIcon
             variant="subtle"
             color="gray"
@@ -54,25 +196,8 @@ export function JsonModal({ opened, onClose, config }: JsonModalProps) {
         </Group>
       </Box>
       <Box>
-        {config ? (
-          <ScrollArea.Autosize mah={500}>
-            <Code
-              block
-              fz="xs"
-              style={{ 
-                whiteSpace: 'pre-wrap',
-                fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Monaco, Consolas, "Liberation Mono", "Courier New", monospace'
-              }}
-            >
-              {jsonString}
-            </Code>
-          </ScrollArea.Autosize>
-        ) : (
-          <Box p="md">
-            <Code>No configuration available</Code>
-          </Box>
-        )}
+        {onImport ? renderEditor() : renderViewer()}
       </Box>
     </Modal>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,110 @@
+import { Stack, Group, Text, Button, Select, Badge, Box } from '@mantine/core'
+import { IconPiano } from '@tabler/icons-react'
+import type { MidiMessage } from '../types/midi'
+import type { useMidiInput } from '../hooks/useMidiInput'
+import { isWebMidiSupported, midiNoteToName } from '../utils/midi'
+
+interface MidiInputPanelProps {
+  midi: ReturnType<typeof useMidiInput>
+}
+
+const ALL_INPUTS = 'all'
+
+const describeMessage = (message: MidiMessage): string => {
+  switch (message.type) {
+    case 'noteon':
+      return `Note on ${midiNoteToName(message.note)} · velocity ${Math.round(message.velocity * 127)}`
+    case 'noteoff':
+      return `Note off ${midiNoteToName(message.note)}`
+    case 'controlchange':
+      return `CC ${message.controller} = ${message.value}`
+  }
+}
+
+// Device picker and live activity for MIDI keyboards
+export function MidiInputPanel({ midi }: MidiInputPanelProps) {
+  const {
+    isConnected,
+    status,
+    error,
+    devices,
+    selectedInputId,
+    selectInput,
+    heldNotes,
+    sustainActive,
+    lastMessage,
+    connect
+  } = midi
+
+  if (!isConnected) {
+    return (
+      <Stack gap="xs">
+        <Group justify="space-between" align="center">
+          <Text fw={500} size="sm">MIDI</Text>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPiano size={14} />}
+            onClick={() => connect()}
+            loading={status === 'connecting'}
+            disabled={!isWebMidiSupported()}
+          >
+            Enable MIDI input
+          </Button>
+        </Group>
+        {!isWebMidiSupported() && (
+          <Text size="xs" c="dimmed">This browser does not support Web MIDI.</Text>
+        )}
+        {error && (
+          <Text size="xs" c="red">{error}</Text>
+        )}
+      </Stack>
+    )
+  }
+
+  const deviceOptions = [
+    { value: ALL_INPUTS, label: 'All inputs' },
+    ...devices.map(device => ({
+      value: device.id,
+      label: device.connected ? device.name : `${device.name} (disconnected)`
+    }))
+  ]
+
+  return (
+    <Stack gap="xs">
+      <Group justify="space-between" align="center" wrap="nowrap">
+        <Group gap="xs" align="center" wrap="nowrap">
+          <Text fw={500} size="sm">MIDI</Text>
+          <Box
+            w={8}
+            h={8}
+            style={{
+              borderRadius: '50%',
+              backgroundColor: heldNotes.length > 0 ? 'var(--mantine-color-green-6)' : 'var(--mantine-color-gray-5)',
+              transition: 'background-color 80ms'
+            }}
+            aria-label={heldNotes.length > 0 ? 'Notes playing' : 'No notes playing'}
+          />
+          {sustainActive && <Badge size="xs" variant="light" color="blue">Sustain</Badge>}
+        </Group>
+        <Select
+          size="xs"
+          value={selectedInputId ?? ALL_INPUTS}
+          onChange={(value) => selectInput(!value || value === ALL_INPUTS ? null : value)}
+          data={deviceOptions}
+          allowDeselect={false}
+          style={{ maxWidth: 240 }}
+          aria-label="MIDI input device"
+        />
+      </Group>
+      <Text size="xs" c="dimmed">
+        {devices.length === 0 ? 'No MIDI devices found. Connect a keyboard to start playing.' :
+          heldNotes.length > 0 ? `Playing ${heldNotes.map(midiNoteToName).join(' ')}` :
+          lastMessage ? describeMessage(lastMessage) : 'Waiting for MIDI input…'}
+      </Text>
+      <Text size="xs" c="dimmed">
+        Right-click a slider or envelope handle, then move a knob to map it.
+      </Text>
+    </Stack>
+  )
+}
@@ -0,0 +1,39 @@
+import { Badge, CloseButton, Tooltip } from '@mantine/core'
+import type { MidiLearn } from '../hooks/useMidiLearn'
+
+interface MidiLearnBadgeProps {
+  target: string // Parameter path, e.g. "synth.pitchDecay"
+  midiLearn: MidiLearn
+}
+
+// Shows whether a parameter is waiting for a controller or already bound to one
+export function MidiLearnBadge({ target, midiLearn }: MidiLearnBadgeProps) {
+  if (midiLearn.learningTarget === target) {
+    return (
+      <Badge size="xs" variant="light" color="yellow" tt="none" style={{ cursor: 'pointer' }} onClick={midiLearn.cancelLearning}>
+        Move a MIDI control… (click to cancel)
+      </Badge>
+    )
+  }
+
+  const binding = midiLearn.getBinding(target)
+  if (!binding) {
+    return null
+  }
+
+  return (
+    <Tooltip label={`${target} follows CC ${binding.controller}${binding.channel ? ` on channel ${binding.channel}` : ''}`}>
+      <Badge
+        size="xs"
+        variant="light"
+        color="grape"
+        tt="none"
+        rightSection={
+          <CloseButton size="xs" variant="transparent" onClick={() => midiLearn.unbind(target)} aria-label={`Remove MIDI binding for ${target}`} />
+        }
+      >
+        CC {binding.controller}
+      </Badge>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,122 @@
+import { Stack, Group, Text, Table, Checkbox, ActionIcon, Tooltip, ScrollArea } from '@mantine/core'
+import { IconX } from '@tabler/icons-react'
+import type { AudioGraphDefinition, ModulationRoute } from '../types/audioGraph'
+import { DepthKnob } from './DepthKnob'
+import {
+  getModulationSources,
+  getModulationDestinations,
+  findModulationRoute,
+  amountToDepth,
+  depthToAmount,
+  isRouteEnabled,
+  isSelfModulation,
+  type ModulationSourceOption,
+  type ModulationDestinationOption
+} from '../utils/modulationMatrix'
+
+export interface ModulationMatrixProps {
+  graph: AudioGraphDefinition
+  // Adds the route when it doesn't exist yet, otherwise updates its amount
+  onSetAmount: (route: ModulationRoute) => boolean
+  onRemoveRoute: (source: string, destination: string) => boolean
+  onSetEnabled: (source: string, destination: string, enabled: boolean) => boolean
+}
+
+const formatDepth = (depth: number) => `${depth > 0 ? '+' : ''}${Math.round(depth * 100)}%`
+
+// CV sources across, modulatable parameters down; each cell holds the depth of one route
+export function ModulationMatrix({ graph, onSetAmount, onRemoveRoute, onSetEnabled }: ModulationMatrixProps) {
+  const sources = getModulationSources(graph)
+  const destinations = getModulationDestinations(graph)
+
+  const handleDepthChange = (source: ModulationSourceOption, destination: ModulationDestinationOption, depth: number) => {
+    // The graph prop lags behind a drag, so whether the route exists yet is left to the graph hook
+    onSetAmount({ source: source.path, destination: destination.path, amount: depthToAmount(graph, source.path, destination.path, depth) })
+  }
+
+  const renderCell = (source: ModulationSourceOption, destination: ModulationDestinationOption) => {
+    if (isSelfModulation(source, destination)) {
+      return <Text size="xs" c="dimmed" ta="center">—</Text>
+    }
+
+    const route = findModulationRoute(graph, source.path, destination.path)
+    const depth = route ? amountToDepth(graph, route) : 0
+    const enabled = route ? isRouteEnabled(route) : true
+    const unit = destination.metadata.unit ? ` ${destination.metadata.unit}` : ''
+
+    return (
+      <Stack gap={2} align="center">
+        <Tooltip label={route ? `${formatDepth(depth)} · ±${Math.abs(route.amount)}${unit}` : 'Drag to add a route'} openDelay={400}>
+          <div>
+            <DepthKnob
+              value={depth}
+              onChange={(value) => handleDepthChange(source, destination, value)}
+              label={`${source.label} to ${destination.label} depth`}
+              dimmed={!route || !enabled}
+            />
+          </div>
+        </Tooltip>
+        {route ? (
+          <Group gap={4} wrap="nowrap">
+            <Checkbox
+              size="xs"
+              checked={enabled}
+              onChange={(event) => onSetEnabled(source.path, destination.path, event.currentTarget.checked)}
+              aria-label={`${enabled ? 'Disable' : 'Enable'} ${source.label} to ${destination.label}`}
+            />
+            <ActionIcon
+              size="xs"
+              variant="subtle"
+              color="gray"
+              onClick={() => onRemoveRoute(source.path, destination.path)}
+              aria-label={`Remove ${source.label} to ${destination.label}`}
+            >
+              <IconX size={12} />
+            </ActionIcon>
+          </Group>
+        ) : (
+          <Text size="xs" c="dimmed">off</Text>
+        )}
+      </Stack>
+    )
+  }
+
+  return (
+    <Stack gap="xs">
+      <Text fw={500} size="sm">Modulation</Text>
+      {sources.length === 0 || destinations.length === 0 ? (
+        <Text size="xs" c="dimmed">
+          {sources.length === 0
+            ? 'No modulation sources. Add an LFO or ADSR node in the patch editor.'
+            : 'No parameters in this patch can be modulated.'}
+        </Text>
+      ) : (
+        <ScrollArea type="auto">
+          <Table withRowBorders={false} verticalSpacing={4} fz="xs">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Destination</Table.Th>
+                {sources.map(source => (
+                  <Table.Th key={source.path} ta="center">{source.label}</Table.Th>
+                ))}
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {destinations.map(destination => (
+                <Table.Tr key={destination.path}>
+                  <Table.Td>{destination.label}</Table.Td>
+                  {sources.map(source => (
+                    <Table.Td key={source.path}>{renderCell(source, destination)}</Table.Td>
+                  ))}
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      )}
+      <Text size="xs" c="dimmed">
+        Drag a knob up or down to set the depth, double-click to reset. Full depth sweeps the whole range of the parameter.
+      </Text>
+    </Stack>
+  )
+}
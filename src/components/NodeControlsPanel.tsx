@@ -0,0 +1,79 @@
+import { Accordion, Group, Text, Badge, Stack } from '@mantine/core'
+import { ParameterControls } from './ParameterControls'
+import type { MidiLearn } from '../hooks/useMidiLearn'
+import type { AudioGraphConfig, NodeInstance } from '../types/audioGraph'
+import { getControllableParameters } from '../types/parameterMetadata'
+
+interface NodeControlsPanelProps {
+  config: AudioGraphConfig | null
+  nodes: Map<string, NodeInstance>
+  onNodeSettingsChange: (nodeId: string, settings: Record<string, unknown>) => void
+  midiLearn?: MidiLearn
+}
+
+// Current values of a live Tone.js node, so parameters left at their defaults still get controls
+const getLiveValues = (node: NodeInstance | undefined): Record<string, unknown> => {
+  if (!node?.instance || typeof node.instance.get !== 'function') {
+    return {}
+  }
+  try {
+    return node.instance.get()
+  } catch (error) {
+    console.warn('⚠️ Could not read live values for node:', node.id, error)
+    return {}
+  }
+}
+
+/**
+ * Collapsible controls for every non-trigger node in the graph (effects, filters, utilities).
+ * Trigger nodes are edited through InstrumentControls.
+ */
+export function NodeControlsPanel({ config, nodes, onNodeSettingsChange, midiLearn }: NodeControlsPanelProps) {
+  if (!config) {
+    return null
+  }
+
+  // Read on every render: Tone.js instances are created lazily without a state change
+  const editableNodes = Object.entries(config.graph.nodes)
+    .filter(([, definition]) => !definition.trigger)
+    .map(([nodeId, definition]) => ({
+      nodeId,
+      type: definition.type,
+      settings: { ...getLiveValues(nodes.get(nodeId)), ...(definition.settings || {}) }
+    }))
+    // Nodes such as Output and Recorder have nothing to adjust
+    .filter(({ type, settings }) => getControllableParameters(settings, type).length > 0)
+
+  if (editableNodes.length === 0) {
+    return null
+  }
+
+  return (
+    <Stack gap="xs">
+      <Text fw={500} size="sm">Nodes</Text>
+      <Accordion multiple variant="separated" chevronPosition="left">
+        {editableNodes.map(({ nodeId, type, settings }) => (
+          <Accordion.Item key={nodeId} value={nodeId}>
+            <Accordion.Control>
+              <Group gap="xs" justify="space-between" wrap="nowrap">
+                <Text size="sm">{nodeId}</Text>
+                <Badge size="sm" variant="light" color="gray" tt="none">{type}</Badge>
+              </Group>
+            </Accordion.Control>
+            <Accordion.Panel>
+              <Stack gap="md">
+                <ParameterControls
+                  settings={settings}
+                  nodeType={type}
+                  onSettingsChange={(changedSettings) => onNodeSettingsChange(nodeId, changedSettings)}
+                  nodeId={nodeId}
+                  midiLearn={midiLearn}
+                />
+              </Stack>
+            </Accordion.Panel>
+          </Accordion.Item>
+        ))}
+      </Accordion>
+    </Stack>
+  )
+}
@@ -0,0 +1,117 @@
+import { Text, Slider, Select, useMantineTheme } from '@mantine/core'
+import { useMediaQuery } from '@mantine/hooks'
+import { EditableValue } from './EditableValue'
+import { MidiLearnBadge } from './MidiLearnBadge'
+import type { MidiLearn } from '../hooks/useMidiLearn'
+import { getControllableParameters, parseSelectValue } from '../types/parameterMetadata'
+
+interface ParameterControlsProps {
+  settings: Record<string, unknown>
+  nodeType?: string // Picks node-specific metadata where it exists
+  onSettingsChange: (settings: Record<string, unknown>) => void
+  excludeParameters?: string[] // Parameters the caller renders with dedicated controls
+  nodeId?: string // Needed with midiLearn to build parameter paths
+  midiLearn?: MidiLearn // Right-clicking a control arms it for MIDI learn
+}
+
+// Slider and select controls for every setting that has parameter metadata
+export function ParameterControls({ settings, nodeType, onSettingsChange, excludeParameters = [], nodeId, midiLearn }: ParameterControlsProps) {
+  const theme = useMantineTheme()
+  const isMobile = useMediaQuery('(max-width: 768px)')
+  const sliderSize = isMobile ? 'md' : 'sm'
+
+  // Get responsive thumb size from theme
+  const thumbSize = isMobile ? theme.other.slider.thumb.sizeMobile : theme.other.slider.thumb.size
+  const sliderStyles = {
+    thumb: {
+      width: thumbSize,
+      height: thumbSize,
+    }
+  }
+
+  const parameters = getControllableParameters(settings, nodeType)
+    .filter(({ name }) => !excludeParameters.includes(name))
+
+  return (
+    <>
+      {parameters.map(({ name: paramName, value: paramValue, metadata }) => {
+        const key = `${paramName}-control`
+        const label = paramName.charAt(0).toUpperCase() + paramName.slice(1)
+        const learnTarget = nodeId && midiLearn ? `${nodeId}.${paramName}` : null
+        const handleContextMenu = learnTarget ? (event: React.MouseEvent) => {
+          event.preventDefault()
+          midiLearn!.startLearning(learnTarget)
+        } : undefined
+        const learnBadge = learnTarget && <MidiLearnBadge target={learnTarget} midiLearn={midiLearn!} />
+
+        if (metadata.controlType === 'slider') {
+          // Ensure paramValue is a number for slider controls
+          const numericValue = typeof paramValue === 'number' ? paramValue : 0
+          let sliderValue = numericValue
+          const displayValue = numericValue
+
+          // Handle logarithmic scaling for frequency
+          if (metadata.scale === 'logarithmic' && metadata.toSlider) {
+            sliderValue = metadata.toSlider(numericValue)
+          }
+
+          return (
+            <div key={key} onContextMenu={handleContextMenu}>
+              <EditableValue
+                label={label}
+                value={displayValue}
+                unit={metadata.unit || ''}
+                onValueChange={(value) => onSettingsChange({ [paramName]: value })}
+                formatDisplay={metadata.formatDisplay}
+                min={metadata.scale === 'logarithmic' ? metadata.valueRange?.min ?? 20 : metadata.range?.min}
+                max={metadata.scale === 'logarithmic' ? metadata.valueRange?.max ?? 20000 : metadata.range?.max}
+                description={metadata.description}
+              />
+              <Slider
+                value={sliderValue}
+                onChange={(value) => {
+                  let actualValue = value
+                  if (metadata.scale === 'logarithmic' && metadata.fromSlider) {
+                    actualValue = metadata.fromSlider(value)
+                  }
+                  onSettingsChange({ [paramName]: actualValue })
+                }}
+                min={metadata.range?.min || 0}
+                max={metadata.range?.max || 100}
+                step={metadata.range?.step || 1}
+                size={sliderSize}
+                styles={sliderStyles}
+                label={metadata.scale === 'logarithmic' && metadata.fromSlider ?
+                  (sliderValue) => {
+                    const actualValue = metadata.fromSlider!(sliderValue)
+                    return `${actualValue} ${metadata.unit || ''}`
+                  } : undefined
+                }
+              />
+              {learnBadge}
+            </div>
+          )
+        }
+
+        if (metadata.controlType === 'select' && metadata.options) {
+          return (
+            <div key={key} onContextMenu={handleContextMenu}>
+              <Text size="xs" mb="4px">
+                {label}
+              </Text>
+              <Select
+                value={paramValue === undefined || paramValue === null ? '' : String(paramValue)}
+                onChange={(value) => value !== null && onSettingsChange({ [paramName]: parseSelectValue(value, paramValue, metadata) })}
+                data={metadata.options}
+                size="xs"
+              />
+              {learnBadge}
+            </div>
+          )
+        }
+
+        return null
+      })}
+    </>
+  )
+}
@@ -0,0 +1,405 @@
+import { Box, Group, Select, Button, ActionIcon, Tooltip, Text } from '@mantine/core'
+import { IconPlus, IconTrash } from '@tabler/icons-react'
+import { useMemo, useRef, useState } from 'react'
+import type { KeyboardEvent, PointerEvent } from 'react'
+import { AUDIO_NODE_TYPES } from '../types/audioGraph'
+import type { AudioGraphDefinition, AudioNodeDefinition, AudioNodeType, NodePosition, SignalType } from '../types/audioGraph'
+import { parseConnectionString, parseParameterPath, DEFAULT_PROPERTIES } from '../utils/graphUtils'
+import { getNodePorts, getInputSignalType } from '../utils/nodePorts'
+import { layoutGraph, getInputPortNames, getNodeHeight, getPortPosition, NODE_WIDTH, NODE_HEADER_HEIGHT, PORT_ROW_HEIGHT } from '../utils/graphLayout'
+
+export interface PatchEditorProps {
+  graph: AudioGraphDefinition
+  onAddNode: (nodeId: string, definition: AudioNodeDefinition) => Promise<boolean>
+  onRemoveNode: (nodeId: string) => boolean
+  onMoveNode: (nodeId: string, position: NodePosition) => void
+  onConnect: (from: string, to: string, signalType: SignalType) => boolean
+  onDisconnect: (from: string, to: string) => boolean
+  onRemoveModulation: (source: string, destination: string) => boolean
+}
+
+type Selection =
+  | { kind: 'node'; nodeId: string }
+  | { kind: 'connection'; from: string; to: string }
+  | { kind: 'modulation'; source: string; destination: string }
+  | null
+
+interface NodeDrag {
+  nodeId: string
+  offset: NodePosition // Pointer position relative to the node's corner
+  position: NodePosition
+}
+
+interface PendingCable {
+  fromNodeId: string
+  pointer: NodePosition
+}
+
+const CANVAS_MARGIN = 40
+const MIN_CANVAS_WIDTH = 720
+const MIN_CANVAS_HEIGHT = 420
+const PORT_RADIUS = 5
+
+const CABLE_COLORS: Record<SignalType, string> = {
+  audio: 'var(--mantine-color-blue-5)',
+  cv: 'var(--mantine-color-orange-5)'
+}
+
+// Cables leave outputs to the right and enter inputs from the left
+const cablePath = (from: NodePosition, to: NodePosition) => {
+  const handle = Math.max(40, Math.abs(to.x - from.x) / 2)
+  return `M ${from.x} ${from.y} C ${from.x + handle} ${from.y}, ${to.x - handle} ${to.y}, ${to.x} ${to.y}`
+}
+
+// Lower-camel-case ID from the type, numbered when taken (filter, filter2, …)
+const createNodeId = (type: AudioNodeType, existingIds: string[]) => {
+  const base = type.charAt(0).toLowerCase() + type.slice(1)
+  let nodeId = base
+  for (let index = 2; existingIds.includes(nodeId); index++) {
+    nodeId = `${base}${index}`
+  }
+  return nodeId
+}
+
+export function PatchEditor({
+  graph,
+  onAddNode,
+  onRemoveNode,
+  onMoveNode,
+  onConnect,
+  onDisconnect,
+  onRemoveModulation
+}: PatchEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [selection, setSelection] = useState<Selection>(null)
+  const [drag, setDrag] = useState<NodeDrag | null>(null)
+  const [pendingCable, setPendingCable] = useState<PendingCable | null>(null)
+  const [nodeTypeToAdd, setNodeTypeToAdd] = useState<string | null>('Filter')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const layout = useMemo(() => layoutGraph(graph), [graph])
+  const getPosition = (nodeId: string): NodePosition =>
+    drag?.nodeId === nodeId ? drag.position : layout[nodeId] || { x: CANVAS_MARGIN, y: CANVAS_MARGIN }
+
+  const nodeEntries = Object.entries(graph.nodes)
+  const canvasWidth = Math.max(MIN_CANVAS_WIDTH, ...nodeEntries.map(([nodeId]) => getPosition(nodeId).x + NODE_WIDTH + CANVAS_MARGIN))
+  const canvasHeight = Math.max(MIN_CANVAS_HEIGHT, ...nodeEntries.map(([nodeId, node]) => getPosition(nodeId).y + getNodeHeight(node.type) + CANVAS_MARGIN))
+
+  const toCanvasPoint = (event: PointerEvent): NodePosition => {
+    const bounds = svgRef.current?.getBoundingClientRect()
+    return bounds ? { x: event.clientX - bounds.left, y: event.clientY - bounds.top } : { x: 0, y: 0 }
+  }
+
+  const isSelected = (candidate: NonNullable<Selection>) =>
+    JSON.stringify(selection) === JSON.stringify(candidate)
+
+  const canDelete = (target: Selection) =>
+    target !== null && !(target.kind === 'node' && graph.nodes[target.nodeId]?.trigger)
+
+  // Pointer handling: node drags and pending cables both follow the pointer across the canvas
+  const handleNodePointerDown = (event: PointerEvent, nodeId: string) => {
+    event.stopPropagation()
+    const point = toCanvasPoint(event)
+    const position = getPosition(nodeId)
+    setSelection({ kind: 'node', nodeId })
+    setDrag({ nodeId, offset: { x: point.x - position.x, y: point.y - position.y }, position })
+  }
+
+  const handleOutputPointerDown = (event: PointerEvent, nodeId: string) => {
+    event.stopPropagation()
+    setMessage(null)
+    setPendingCable({ fromNodeId: nodeId, pointer: toCanvasPoint(event) })
+  }
+
+  const handleCanvasPointerMove = (event: PointerEvent) => {
+    if (drag) {
+      const point = toCanvasPoint(event)
+      setDrag({ ...drag, position: { x: Math.max(0, point.x - drag.offset.x), y: Math.max(0, point.y - drag.offset.y) } })
+    } else if (pendingCable) {
+      setPendingCable({ ...pendingCable, pointer: toCanvasPoint(event) })
+    }
+  }
+
+  // Dropping ends a drag (committed as a single move) or abandons an unfinished cable
+  const handleCanvasPointerUp = () => {
+    if (drag) {
+      const start = layout[drag.nodeId]
+      if (!start || start.x !== drag.position.x || start.y !== drag.position.y) {
+        onMoveNode(drag.nodeId, { x: Math.round(drag.position.x), y: Math.round(drag.position.y) })
+      }
+      setDrag(null)
+    }
+    setPendingCable(null)
+  }
+
+  const handleInputPointerUp = (event: PointerEvent, nodeId: string, port: string) => {
+    if (!pendingCable) return
+    event.stopPropagation()
+    setPendingCable(null)
+
+    const from = `${pendingCable.fromNodeId}.${DEFAULT_PROPERTIES.CONNECTION_OUTPUT}`
+    const to = `${nodeId}.${port}`
+    if (!onConnect(from, to, getInputSignalType(port))) {
+      setMessage(`Cannot connect ${pendingCable.fromNodeId} to ${to}: the cable exists already or would create a loop without a delay`)
+    }
+  }
+
+  const deleteSelection = () => {
+    if (!selection || !canDelete(selection)) return
+    if (selection.kind === 'node') {
+      onRemoveNode(selection.nodeId)
+    } else if (selection.kind === 'connection') {
+      onDisconnect(selection.from, selection.to)
+    } else {
+      onRemoveModulation(selection.source, selection.destination)
+    }
+    setSelection(null)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault()
+      deleteSelection()
+    } else if (event.key === 'Escape') {
+      setSelection(null)
+      setPendingCable(null)
+    }
+  }
+
+  // New nodes go below everything else so they never cover existing ones
+  const addNode = async () => {
+    if (!nodeTypeToAdd) return
+    const type = nodeTypeToAdd as AudioNodeType
+    const nodeId = createNodeId(type, Object.keys(graph.nodes))
+    const bottom = Math.max(0, ...nodeEntries.map(([id, node]) => getPosition(id).y + getNodeHeight(node.type)))
+    const added = await onAddNode(nodeId, { type, settings: {}, position: { x: CANVAS_MARGIN, y: bottom + 24 } })
+    if (added) {
+      setSelection({ kind: 'node', nodeId })
+      setMessage(null)
+    } else {
+      setMessage(`Could not create a ${type} node`)
+    }
+  }
+
+  const renderCable = (
+    key: string,
+    fromNodeId: string,
+    toEndpoint: { nodeId: string; port: string },
+    signalType: SignalType,
+    cableSelection: NonNullable<Selection>,
+    dashArray?: string
+  ) => {
+    const fromNode = graph.nodes[fromNodeId]
+    const toNode = graph.nodes[toEndpoint.nodeId]
+    if (!fromNode || !toNode) return null
+
+    const start = getPortPosition(getPosition(fromNodeId), fromNode.type, DEFAULT_PROPERTIES.CONNECTION_OUTPUT, 'output')
+    const end = getPortPosition(getPosition(toEndpoint.nodeId), toNode.type, toEndpoint.port, 'input')
+    const path = cablePath(start, end)
+    const selected = isSelected(cableSelection)
+
+    return (
+      <g key={key} style={{ cursor: 'pointer' }} onPointerDown={(event) => { event.stopPropagation(); setSelection(cableSelection) }}>
+        {/* Wide transparent stroke makes thin cables easy to hit */}
+        <path d={path} stroke="transparent" strokeWidth={12} fill="none" />
+        <path
+          d={path}
+          stroke={CABLE_COLORS[signalType]}
+          strokeWidth={(signalType === 'audio' ? 2.5 : 1.5) + (selected ? 1.5 : 0)}
+          strokeDasharray={dashArray}
+          strokeOpacity={selected ? 1 : 0.8}
+          fill="none"
+        />
+      </g>
+    )
+  }
+
+  const renderNode = (nodeId: string, node: AudioNodeDefinition) => {
+    const position = getPosition(nodeId)
+    const ports = getNodePorts(node.type)
+    const inputPorts = getInputPortNames(node.type)
+    const selected = isSelected({ kind: 'node', nodeId })
+    const isCableTarget = pendingCable !== null && pendingCable.fromNodeId !== nodeId
+
+    return (
+      <g key={nodeId} transform={`translate(${position.x}, ${position.y})`}>
+        <rect
+          width={NODE_WIDTH}
+          height={getNodeHeight(node.type)}
+          rx={6}
+          fill="var(--mantine-color-body)"
+          stroke={selected ? 'var(--mantine-color-blue-5)' : 'var(--mantine-color-default-border)'}
+          strokeWidth={selected ? 2 : 1}
+          onPointerDown={(event) => handleNodePointerDown(event, nodeId)}
+          style={{ cursor: drag?.nodeId === nodeId ? 'grabbing' : 'grab' }}
+        />
+        <text
+          x={10}
+          y={NODE_HEADER_HEIGHT / 2 + 4}
+          fontSize={12}
+          fontWeight={600}
+          fill="var(--mantine-color-text)"
+          pointerEvents="none"
+        >
+          {node.trigger ? `▸ ${nodeId}` : nodeId}
+        </text>
+        <text
+          x={NODE_WIDTH - 10}
+          y={NODE_HEADER_HEIGHT / 2 + 4}
+          fontSize={10}
+          textAnchor="end"
+          fill="var(--mantine-color-dimmed)"
+          pointerEvents="none"
+        >
+          {node.type}
+        </text>
+
+        {inputPorts.map((port, index) => {
+          const y = NODE_HEADER_HEIGHT + index * PORT_ROW_HEIGHT + PORT_ROW_HEIGHT / 2
+          const signalType = getInputSignalType(port)
+          return (
+            <g key={port}>
+              <circle
+                cx={0}
+                cy={y}
+                r={isCableTarget ? PORT_RADIUS + 2 : PORT_RADIUS}
+                fill={CABLE_COLORS[signalType]}
+                stroke="var(--mantine-color-body)"
+                strokeWidth={1.5}
+                onPointerUp={(event) => handleInputPointerUp(event, nodeId, port)}
+                style={{ cursor: isCableTarget ? 'copy' : 'default' }}
+              />
+              <text x={10} y={y + 3.5} fontSize={10} fill="var(--mantine-color-dimmed)" pointerEvents="none">
+                {port === DEFAULT_PROPERTIES.CONNECTION_INPUT ? 'in' : port}
+              </text>
+            </g>
+          )
+        })}
+
+        {ports.output && (
+          <g>
+            <text
+              x={NODE_WIDTH - 10}
+              y={NODE_HEADER_HEIGHT + PORT_ROW_HEIGHT / 2 + 3.5}
+              fontSize={10}
+              textAnchor="end"
+              fill="var(--mantine-color-dimmed)"
+              pointerEvents="none"
+            >
+              out
+            </text>
+            <circle
+              cx={NODE_WIDTH}
+              cy={NODE_HEADER_HEIGHT + PORT_ROW_HEIGHT / 2}
+              r={PORT_RADIUS}
+              fill="var(--mantine-color-gray-5)"
+              stroke="var(--mantine-color-body)"
+              strokeWidth={1.5}
+              onPointerDown={(event) => handleOutputPointerDown(event, nodeId)}
+              style={{ cursor: 'crosshair' }}
+            />
+          </g>
+        )}
+      </g>
+    )
+  }
+
+  const pendingCableStart = pendingCable && graph.nodes[pendingCable.fromNodeId]
+    ? getPortPosition(getPosition(pendingCable.fromNodeId), graph.nodes[pendingCable.fromNodeId].type, DEFAULT_PROPERTIES.CONNECTION_OUTPUT, 'output')
+    : null
+
+  return (
+    <Box>
+      <Group justify="space-between" mb="sm" gap="xs">
+        <Group gap="xs">
+          <Select
+            size="xs"
+            searchable
+            value={nodeTypeToAdd}
+            onChange={setNodeTypeToAdd}
+            data={[...AUDIO_NODE_TYPES]}
+            aria-label="Node type"
+            w={180}
+          />
+          <Button size="xs" variant="light" leftSection={<IconPlus size={14} />} onClick={addNode} disabled={!nodeTypeToAdd}>
+            Add node
+          </Button>
+        </Group>
+        <Group gap="md">
+          <Text size="xs" c="dimmed">
+            <Text span c="blue" fw={700}>━</Text> audio{'  '}
+            <Text span c="orange" fw={700}>╍</Text> cv{'  '}
+            <Text span c="orange" fw={700}>┈</Text> modulation
+          </Text>
+          <Tooltip label={selection?.kind === 'node' && !canDelete(selection) ? 'Trigger nodes cannot be deleted' : 'Delete selection (Del)'}>
+            <ActionIcon
+              variant="subtle"
+              color="red"
+              onClick={deleteSelection}
+              disabled={!canDelete(selection)}
+              aria-label="Delete selection"
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+      </Group>
+
+      <Box style={{ overflow: 'auto', maxHeight: '65vh', border: '1px solid var(--mantine-color-default-border)', borderRadius: 'var(--mantine-radius-sm)' }}>
+        <svg
+          ref={svgRef}
+          width={canvasWidth}
+          height={canvasHeight}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onPointerMove={handleCanvasPointerMove}
+          onPointerUp={handleCanvasPointerUp}
+          onPointerLeave={handleCanvasPointerUp}
+          onPointerDown={() => setSelection(null)}
+          style={{ display: 'block', outline: 'none', touchAction: 'none', userSelect: 'none' }}
+        >
+          {graph.connections.map(connection => {
+            const to = parseConnectionString(connection.to)
+            return renderCable(
+              `connection:${connection.from}->${connection.to}`,
+              parseConnectionString(connection.from).nodeId,
+              { nodeId: to.nodeId, port: to.property },
+              connection.signalType || getInputSignalType(to.property),
+              { kind: 'connection', from: connection.from, to: connection.to },
+              connection.signalType === 'cv' || getInputSignalType(to.property) === 'cv' ? '6 4' : undefined
+            )
+          })}
+
+          {(graph.modulation || []).map(route => {
+            const destination = parseParameterPath(route.destination)
+            return renderCable(
+              `modulation:${route.source}->${route.destination}`,
+              parseConnectionString(route.source).nodeId,
+              { nodeId: destination.nodeId, port: destination.property.split('.')[0] },
+              'cv',
+              { kind: 'modulation', source: route.source, destination: route.destination },
+              '2 4'
+            )
+          })}
+
+          {nodeEntries.map(([nodeId, node]) => renderNode(nodeId, node))}
+
+          {pendingCable && pendingCableStart && (
+            <path
+              d={cablePath(pendingCableStart, pendingCable.pointer)}
+              stroke="var(--mantine-color-gray-5)"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              fill="none"
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </Box>
+
+      <Text size="xs" c={message ? 'red' : 'dimmed'} mt="xs">
+        {message || 'Drag from an output to an input to connect. Click a node or cable and press Delete to remove it.'}
+      </Text>
+    </Box>
+  )
+}
@@ -0,0 +1,169 @@
+import { Box, Group, Text, ActionIcon, Tooltip, Badge, useComputedColorScheme } from '@mantine/core'
+import { IconChevronLeft, IconChevronRight } from '@tabler/icons-react'
+import { useEffect, useRef } from 'react'
+import { midiNoteToName } from '../utils/midi'
+import { MAX_KEYBOARD_OCTAVE, MIN_KEYBOARD_OCTAVE, getKeyLabels } from '../utils/computerKeyboard'
+
+interface PianoKeyboardProps {
+  octave: number // Lowest C shown is C<octave>
+  onOctaveChange: (octave: number) => void
+  heldNotes: number[] // Highlighted keys, from any input source
+  onNoteOn: (note: number) => void
+  onNoteOff: (note: number) => void
+  octaves?: number
+  voices?: { active: number; max: number } // Shown for polyphonic instruments
+}
+
+const BLACK_KEY_OFFSETS = [1, 3, 6, 8, 10]
+const BLACK_KEY_WIDTH = 0.6 // Relative to a white key
+
+const isBlackKey = (note: number) => BLACK_KEY_OFFSETS.includes(note % 12)
+
+// Clickable piano spanning `octaves` octaves plus the top C; drag across keys to glide
+export function PianoKeyboard({ octave, onOctaveChange, heldNotes, onNoteOn, onNoteOff, octaves = 2, voices }: PianoKeyboardProps) {
+  const isDark = useComputedColorScheme('light') === 'dark'
+  const pointerNoteRef = useRef<number | null>(null)
+
+  const firstNote = (octave + 1) * 12
+  const notes = Array.from({ length: octaves * 12 + 1 }, (_, index) => firstNote + index)
+  const whiteNotes = notes.filter(note => !isBlackKey(note))
+  const whiteKeyWidth = 100 / whiteNotes.length
+  const keyLabels = getKeyLabels(octave)
+
+  // Pointer-up can land outside the keyboard, so listen on the window
+  useEffect(() => {
+    const handlePointerUp = () => {
+      if (pointerNoteRef.current !== null) {
+        onNoteOff(pointerNoteRef.current)
+        pointerNoteRef.current = null
+      }
+    }
+    window.addEventListener('pointerup', handlePointerUp)
+    window.addEventListener('pointercancel', handlePointerUp)
+    return () => {
+      window.removeEventListener('pointerup', handlePointerUp)
+      window.removeEventListener('pointercancel', handlePointerUp)
+    }
+  }, [onNoteOff])
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>, note: number) => {
+    event.preventDefault()
+    // Touch pointers are captured by the pressed key; release so sliding reaches neighbouring keys
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    pointerNoteRef.current = note
+    onNoteOn(note)
+  }
+
+  const handlePointerEnter = (note: number) => {
+    if (pointerNoteRef.current === null || pointerNoteRef.current === note) return
+    onNoteOff(pointerNoteRef.current)
+    pointerNoteRef.current = note
+    onNoteOn(note)
+  }
+
+  const renderKey = (note: number) => {
+    const black = isBlackKey(note)
+    const held = heldNotes.includes(note)
+    const whiteIndex = whiteNotes.filter(white => white < note).length
+    const label = keyLabels.get(note)
+
+    const style: React.CSSProperties = black
+      ? {
+          position: 'absolute',
+          top: 0,
+          left: `${(whiteIndex - BLACK_KEY_WIDTH / 2) * whiteKeyWidth}%`,
+          width: `${BLACK_KEY_WIDTH * whiteKeyWidth}%`,
+          height: '60%',
+          zIndex: 1,
+          backgroundColor: held ? 'var(--mantine-color-blue-7)' : isDark ? 'var(--mantine-color-dark-9)' : 'var(--mantine-color-dark-7)',
+          color: 'var(--mantine-color-gray-4)',
+          borderRadius: '0 0 3px 3px'
+        }
+      : {
+          position: 'absolute',
+          top: 0,
+          left: `${whiteIndex * whiteKeyWidth}%`,
+          width: `${whiteKeyWidth}%`,
+          height: '100%',
+          backgroundColor: held ? 'var(--mantine-color-blue-2)' : isDark ? 'var(--mantine-color-gray-3)' : 'white',
+          color: 'var(--mantine-color-gray-6)',
+          border: '1px solid var(--mantine-color-gray-5)',
+          borderRadius: '0 0 4px 4px',
+          boxSizing: 'border-box'
+        }
+
+    return (
+      <div
+        key={note}
+        role="button"
+        aria-label={midiNoteToName(note)}
+        aria-pressed={held}
+        onPointerDown={(event) => handlePointerDown(event, note)}
+        onPointerEnter={() => handlePointerEnter(note)}
+        style={{
+          ...style,
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'flex-end',
+          alignItems: 'center',
+          paddingBottom: 4,
+          fontSize: 10,
+          cursor: 'pointer',
+          touchAction: 'none',
+          userSelect: 'none'
+        }}
+      >
+        {label && <span>{label}</span>}
+        {!black && note % 12 === 0 && <span style={{ fontSize: 9 }}>{midiNoteToName(note)}</span>}
+      </div>
+    )
+  }
+
+  return (
+    <Box>
+      <Group justify="space-between" align="center" mb="xs">
+        <Group gap="xs" align="center">
+          <Text fw={500} size="sm">Keyboard</Text>
+          {voices && (
+            <Tooltip label="Voices sounding / maximum polyphony">
+              <Badge size="sm" variant="light" color={voices.active >= voices.max ? 'orange' : 'gray'} tt="none">
+                Voices {voices.active}/{voices.max}
+              </Badge>
+            </Tooltip>
+          )}
+        </Group>
+        <Group gap={4} align="center">
+          <Tooltip label="Octave down (Z)">
+            <ActionIcon
+              variant="subtle"
+              color="gray"
+              size="sm"
+              onClick={() => onOctaveChange(octave - 1)}
+              disabled={octave <= MIN_KEYBOARD_OCTAVE}
+              aria-label="Octave down"
+            >
+              <IconChevronLeft size={14} />
+            </ActionIcon>
+          </Tooltip>
+          <Text size="xs" w={56} ta="center">Octave {octave}</Text>
+          <Tooltip label="Octave up (X)">
+            <ActionIcon
+              variant="subtle"
+              color="gray"
+              size="sm"
+              onClick={() => onOctaveChange(octave + 1)}
+              disabled={octave >= MAX_KEYBOARD_OCTAVE}
+              aria-label="Octave up"
+            >
+              <IconChevronRight size={14} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+      </Group>
+      <Box style={{ position: 'relative', height: 110 }}>
+        {whiteNotes.map(renderKey)}
+        {notes.filter(isBlackKey).map(renderKey)}
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,166 @@
+import { Stack, Group, Text, TextInput, SegmentedControl, Chip, ScrollArea, ActionIcon, Badge, Box } from '@mantine/core'
+import { IconSearch, IconStar, IconStarFilled } from '@tabler/icons-react'
+import { useEffect, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { filterPresets, getPresetCategories, type PresetEntry, type PresetView } from '../utils/presetBrowser'
+
+export interface PresetBrowserProps {
+  entries: PresetEntry[]
+  currentValue: string | null
+  favourites: string[]
+  recents: string[]
+  onToggleFavourite: (value: string) => void
+  onSelect: (value: string) => void // Load and audition while browsing
+  onChoose: (value: string) => void // Settle on a preset
+}
+
+const SOURCE_LABELS: Record<PresetEntry['source'], string | null> = {
+  instrument: null,
+  chain: 'Chain',
+  user: 'Mine'
+}
+
+// Search, category facets and favourites over every preset; arrow keys audition as they move
+export function PresetBrowser({ entries, currentValue, favourites, recents, onToggleFavourite, onSelect, onChoose }: PresetBrowserProps) {
+  const [query, setQuery] = useState('')
+  const [category, setCategory] = useState<string | null>(null)
+  const [view, setView] = useState<PresetView>('all')
+  const [highlighted, setHighlighted] = useState<string | null>(currentValue)
+  const rowRefs = useRef(new Map<string, HTMLDivElement>())
+
+  const categories = getPresetCategories(entries)
+  const results = filterPresets(entries, { query, category, view }, { favourites, recents })
+  const highlightedIndex = results.findIndex(entry => entry.value === highlighted)
+
+  // Keep the highlighted row visible while stepping through the list
+  useEffect(() => {
+    if (highlighted) {
+      rowRefs.current.get(highlighted)?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [highlighted])
+
+  const select = (value: string) => {
+    setHighlighted(value)
+    onSelect(value)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault()
+      const offset = event.key === 'ArrowDown' ? 1 : -1
+      const nextIndex = highlightedIndex === -1
+        ? (offset === 1 ? 0 : results.length - 1)
+        : (highlightedIndex + offset + results.length) % results.length
+      select(results[nextIndex].value)
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      onChoose(results[highlightedIndex === -1 ? 0 : highlightedIndex].value)
+    }
+  }
+
+  return (
+    <Stack gap="sm">
+      <TextInput
+        data-autofocus
+        placeholder="Search names, tags and descriptions"
+        leftSection={<IconSearch size={14} />}
+        value={query}
+        onChange={(event) => setQuery(event.currentTarget.value)}
+        onKeyDown={handleKeyDown}
+        aria-controls="preset-browser-results"
+        aria-activedescendant={highlightedIndex === -1 ? undefined : `preset-${highlighted}`}
+      />
+
+      <SegmentedControl
+        size="xs"
+        value={view}
+        onChange={(value) => setView(value as PresetView)}
+        data={[
+          { value: 'all', label: 'All' },
+          { value: 'favourites', label: `Favourites (${favourites.length})` },
+          { value: 'recent', label: 'Recent' }
+        ]}
+      />
+
+      <Group gap={6}>
+        {categories.map(({ category: name, count }) => (
+          <Chip
+            key={name}
+            size="xs"
+            checked={category === name}
+            onChange={() => setCategory(category === name ? null : name)}
+          >
+            {name} ({count})
+          </Chip>
+        ))}
+      </Group>
+
+      <ScrollArea h={340} type="auto">
+        <Stack gap={2} id="preset-browser-results" role="listbox" aria-label="Presets">
+          {results.length === 0 && (
+            <Text size="sm" c="dimmed" ta="center" py="md">
+              {view === 'favourites' && favourites.length === 0
+                ? 'No favourites yet. Star a preset to keep it here.'
+                : 'No presets match.'}
+            </Text>
+          )}
+          {results.map(entry => {
+            const isHighlighted = entry.value === highlighted
+            const isFavourite = favourites.includes(entry.value)
+            const sourceLabel = SOURCE_LABELS[entry.source]
+            return (
+              <Box
+                key={entry.value}
+                id={`preset-${entry.value}`}
+                ref={(element: HTMLDivElement | null) => {
+                  if (element) rowRefs.current.set(entry.value, element)
+                  else rowRefs.current.delete(entry.value)
+                }}
+                role="option"
+                aria-selected={isHighlighted}
+                px="xs"
+                py={4}
+                style={{
+                  borderRadius: 'var(--mantine-radius-sm)',
+                  cursor: 'pointer',
+                  background: isHighlighted ? 'var(--mantine-color-blue-light)' : undefined
+                }}
+                onClick={() => select(entry.value)}
+                onDoubleClick={() => onChoose(entry.value)}
+              >
+                <Group justify="space-between" wrap="nowrap" gap="xs">
+                  <Box style={{ minWidth: 0 }}>
+                    <Group gap={6} wrap="nowrap">
+                      <Text size="sm" fw={entry.value === currentValue ? 600 : 400} truncate>{entry.name}</Text>
+                      {sourceLabel && <Badge size="xs" variant="light" color="gray">{sourceLabel}</Badge>}
+                    </Group>
+                    <Text size="xs" c="dimmed" truncate>
+                      {entry.category}{entry.tags.length > 0 ? ` · ${entry.tags.join(', ')}` : ''}
+                      {entry.description ? ` — ${entry.description}` : ''}
+                    </Text>
+                  </Box>
+                  <ActionIcon
+                    variant="subtle"
+                    color={isFavourite ? 'yellow' : 'gray'}
+                    onClick={(event) => {
+                      event.stopPropagation()
+                      onToggleFavourite(entry.value)
+                    }}
+                    aria-label={isFavourite ? `Remove ${entry.name} from favourites` : `Add ${entry.name} to favourites`}
+                  >
+                    {isFavourite ? <IconStarFilled size={16} /> : <IconStar size={16} />}
+                  </ActionIcon>
+                </Group>
+              </Box>
+            )
+          })}
+        </Stack>
+      </ScrollArea>
+
+      <Text size="xs" c="dimmed">
+        ↑ ↓ audition presets as you move · Enter or double-click to keep one
+      </Text>
+    </Stack>
+  )
+}
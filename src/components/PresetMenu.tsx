@@ -0,0 +1,135 @@
+import { Menu, ActionIcon, Modal, TextInput, Button, Group } from '@mantine/core'
+import { IconDotsVertical, IconDeviceFloppy, IconCopy, IconPencil, IconTrash, IconRestore, IconFilePlus, IconShare, IconCheck } from '@tabler/icons-react'
+import { useState } from 'react'
+
+export interface PresetMenuProps {
+  currentName: string
+  isUserPreset: boolean // Whether the active graph is a saved user preset
+  revertTarget: 'factory' | 'saved' | null // What Revert restores; null disables it
+  onSave: () => void
+  onSaveAs: (name: string) => void
+  onRename: (name: string) => void
+  onDuplicate: () => void
+  onDelete: () => void
+  onRevert: () => void
+  onShare: () => void
+  shareLinkCopied?: boolean // Show confirmation after the share link reached the clipboard
+}
+
+type NamePrompt = { action: 'saveAs' | 'rename'; value: string } | null
+
+export function PresetMenu({
+  currentName,
+  isUserPreset,
+  revertTarget,
+  onSave,
+  onSaveAs,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onRevert,
+  onShare,
+  shareLinkCopied = false
+}: PresetMenuProps) {
+  const [namePrompt, setNamePrompt] = useState<NamePrompt>(null)
+
+  const submitName = () => {
+    if (!namePrompt) return
+    const name = namePrompt.value.trim()
+    if (!name) return
+
+    if (namePrompt.action === 'saveAs') {
+      onSaveAs(name)
+    } else {
+      onRename(name)
+    }
+    setNamePrompt(null)
+  }
+
+  return (
+    <>
+      <Modal
+        opened={namePrompt !== null}
+        onClose={() => setNamePrompt(null)}
+        title={namePrompt?.action === 'rename' ? 'Rename Preset' : 'Save Preset As'}
+        size="sm"
+        centered
+      >
+        <TextInput
+          label="Preset name"
+          value={namePrompt?.value || ''}
+          onChange={(event) => {
+            const value = event.currentTarget.value
+            setNamePrompt(prompt => prompt && { ...prompt, value })
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') submitName()
+          }}
+          data-autofocus
+        />
+        <Group justify="flex-end" mt="md">
+          <Button variant="subtle" color="gray" size="xs" onClick={() => setNamePrompt(null)}>
+            Cancel
+          </Button>
+          <Button size="xs" onClick={submitName} disabled={!namePrompt?.value.trim()}>
+            {namePrompt?.action === 'rename' ? 'Rename' : 'Save'}
+          </Button>
+        </Group>
+      </Modal>
+
+      <Menu shadow="md" width={220} position="bottom-end">
+        <Menu.Target>
+          <ActionIcon variant="subtle" size="lg" color="gray" aria-label="Preset actions">
+            <IconDotsVertical size={18} />
+          </ActionIcon>
+        </Menu.Target>
+
+        <Menu.Dropdown>
+          <Menu.Label>Preset</Menu.Label>
+          {isUserPreset && (
+            <Menu.Item leftSection={<IconDeviceFloppy size={16} />} onClick={onSave}>
+              Save
+            </Menu.Item>
+          )}
+          <Menu.Item
+            leftSection={<IconFilePlus size={16} />}
+            onClick={() => setNamePrompt({ action: 'saveAs', value: isUserPreset ? currentName : `My ${currentName}` })}
+          >
+            Save as…
+          </Menu.Item>
+          {isUserPreset && (
+            <>
+              <Menu.Item
+                leftSection={<IconPencil size={16} />}
+                onClick={() => setNamePrompt({ action: 'rename', value: currentName })}
+              >
+                Rename…
+              </Menu.Item>
+              <Menu.Item leftSection={<IconCopy size={16} />} onClick={onDuplicate}>
+                Duplicate
+              </Menu.Item>
+            </>
+          )}
+          <Menu.Item leftSection={<IconRestore size={16} />} onClick={onRevert} disabled={revertTarget === null}>
+            {revertTarget === 'saved' ? 'Reload saved' : 'Revert to factory'}
+          </Menu.Item>
+          <Menu.Item
+            leftSection={shareLinkCopied ? <IconCheck size={16} /> : <IconShare size={16} />}
+            onClick={onShare}
+            closeMenuOnClick={false}
+          >
+            {shareLinkCopied ? 'Link copied' : 'Copy share link'}
+          </Menu.Item>
+          {isUserPreset && (
+            <>
+              <Menu.Divider />
+              <Menu.Item leftSection={<IconTrash size={16} />} color="red" onClick={onDelete}>
+                Delete
+              </Menu.Item>
+            </>
+          )}
+        </Menu.Dropdown>
+      </Menu>
+    </>
+  )
+}
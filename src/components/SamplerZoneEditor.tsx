@@ -0,0 +1,168 @@
+import { Stack, Group, Text, Button, FileButton, Select, RangeSlider, ActionIcon, Alert, Badge, Box, Loader, Paper, Tooltip } from '@mantine/core'
+import { IconAlertTriangle, IconPlayerPlay, IconTrash, IconUpload, IconWand } from '@tabler/icons-react'
+import { useState } from 'react'
+import type { DragEvent } from 'react'
+import type { SamplerZones } from '../hooks/useSamplerZones'
+import { midiNoteToName } from '../utils/midi'
+import { MAX_NOTE, MAX_VELOCITY, MIN_NOTE, MIN_VELOCITY, SAMPLE_FILE_ACCEPT } from '../utils/samplerZones'
+
+export interface SamplerZoneEditorProps {
+  samplerZones: SamplerZones
+}
+
+const ROOT_NOTE_OPTIONS = Array.from({ length: MAX_NOTE - MIN_NOTE + 1 }, (_, index) => ({
+  value: String(MIN_NOTE + index),
+  label: midiNoteToName(MIN_NOTE + index)
+}))
+
+// Drop local audio files to make zones, then set each zone's root note, key range and velocity range
+export function SamplerZoneEditor({ samplerZones }: SamplerZoneEditorProps) {
+  const { zones, missingSampleIds, isImporting, rejectedFiles, importFiles, updateZone, removeZone, autoMap, clearRejectedFiles, previewZone } = samplerZones
+  const [isDragging, setIsDragging] = useState(false)
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDragging(true)
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    importFiles(Array.from(event.dataTransfer.files))
+  }
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Text fw={500} size="sm">Samples</Text>
+        <Tooltip label="Split the keyboard between the zones' root notes" openDelay={400}>
+          <Button size="xs" variant="subtle" leftSection={<IconWand size={14} />} onClick={autoMap} disabled={zones.length === 0}>
+            Auto-map keys
+          </Button>
+        </Tooltip>
+      </Group>
+
+      <Box
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        p="md"
+        style={{
+          border: `1px dashed var(--mantine-color-${isDragging ? 'blue-5' : 'gray-5'})`,
+          borderRadius: 'var(--mantine-radius-md)',
+          background: isDragging ? 'var(--mantine-color-blue-light)' : undefined,
+          textAlign: 'center'
+        }}
+      >
+        {isImporting ? (
+          <Group justify="center" gap="xs">
+            <Loader size="xs" />
+            <Text size="sm">Importing samples…</Text>
+          </Group>
+        ) : (
+          <Stack gap={6} align="center">
+            <Text size="sm">Drop WAV, MP3, OGG or FLAC files here</Text>
+            <FileButton onChange={importFiles} accept={SAMPLE_FILE_ACCEPT} multiple>
+              {(props) => (
+                <Button {...props} size="xs" variant="light" leftSection={<IconUpload size={14} />}>
+                  Choose files
+                </Button>
+              )}
+            </FileButton>
+            <Text size="xs" c="dimmed">
+              A note in the file name (e.g. piano_C4.wav) sets the root note. Samples stay in this browser.
+            </Text>
+          </Stack>
+        )}
+      </Box>
+
+      {rejectedFiles.length > 0 && (
+        <Alert color="orange" variant="light" withCloseButton onClose={clearRejectedFiles} icon={<IconAlertTriangle size={16} />}>
+          {rejectedFiles.map(message => <Text key={message} size="xs">{message}</Text>)}
+        </Alert>
+      )}
+
+      {zones.map(zone => {
+        const isMissing = missingSampleIds.includes(zone.sampleId)
+        return (
+          <Paper key={zone.id} withBorder p="xs">
+            <Stack gap="xs">
+              <Group justify="space-between" wrap="nowrap" gap="xs">
+                <Group gap={6} wrap="nowrap" style={{ minWidth: 0 }}>
+                  <Text size="sm" truncate>{zone.name}</Text>
+                  {isMissing && (
+                    <Tooltip label="This sample is not stored in this browser. Drop the file again to replace the zone.">
+                      <Badge size="xs" color="orange" variant="light">Missing</Badge>
+                    </Tooltip>
+                  )}
+                </Group>
+                <Group gap={4} wrap="nowrap">
+                  <Select
+                    size="xs"
+                    w={90}
+                    searchable
+                    allowDeselect={false}
+                    data={ROOT_NOTE_OPTIONS}
+                    value={String(zone.rootNote)}
+                    onChange={(value) => value !== null && updateZone(zone.id, { rootNote: Number(value) })}
+                    aria-label={`Root note of ${zone.name}`}
+                  />
+                  <ActionIcon variant="subtle" onClick={() => previewZone(zone)} disabled={isMissing} aria-label={`Preview ${zone.name}`}>
+                    <IconPlayerPlay size={16} />
+                  </ActionIcon>
+                  <ActionIcon variant="subtle" color="red" onClick={() => removeZone(zone.id)} aria-label={`Remove ${zone.name}`}>
+                    <IconTrash size={16} />
+                  </ActionIcon>
+                </Group>
+              </Group>
+
+              {/* Uncontrolled so dragging stays smooth; the key resets them when the zone changes elsewhere (undo, auto-map) */}
+              <Group gap="xs" wrap="nowrap">
+                <Text size="xs" c="dimmed" w={60}>Keys</Text>
+                <RangeSlider
+                  key={`keys-${zone.keyRange.join('-')}`}
+                  style={{ flex: 1 }}
+                  size="sm"
+                  min={MIN_NOTE}
+                  max={MAX_NOTE}
+                  minRange={0}
+                  defaultValue={zone.keyRange}
+                  label={midiNoteToName}
+                  onChangeEnd={(keyRange) => updateZone(zone.id, { keyRange })}
+                  thumbFromLabel={`Lowest note of ${zone.name}`}
+                  thumbToLabel={`Highest note of ${zone.name}`}
+                />
+                <Text size="xs" w={70} ta="right">
+                  {midiNoteToName(zone.keyRange[0])}–{midiNoteToName(zone.keyRange[1])}
+                </Text>
+              </Group>
+              <Group gap="xs" wrap="nowrap">
+                <Text size="xs" c="dimmed" w={60}>Velocity</Text>
+                <RangeSlider
+                  key={`velocity-${zone.velocityRange.join('-')}`}
+                  style={{ flex: 1 }}
+                  size="sm"
+                  min={MIN_VELOCITY}
+                  max={MAX_VELOCITY}
+                  minRange={0}
+                  defaultValue={zone.velocityRange}
+                  onChangeEnd={(velocityRange) => updateZone(zone.id, { velocityRange })}
+                  thumbFromLabel={`Lowest velocity of ${zone.name}`}
+                  thumbToLabel={`Highest velocity of ${zone.name}`}
+                />
+                <Text size="xs" w={70} ta="right">
+                  {zone.velocityRange[0]}–{zone.velocityRange[1]}
+                </Text>
+              </Group>
+            </Stack>
+          </Paper>
+        )
+      })}
+
+      {zones.length === 0 && !isImporting && (
+        <Text size="xs" c="dimmed" ta="center">No samples yet. Each file you add becomes a zone.</Text>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,198 @@
+import { Group, Text, Button, NumberInput, Slider, SegmentedControl, Select, Switch, Box } from '@mantine/core'
+import { IconPlayerPlay, IconPlayerStop } from '@tabler/icons-react'
+import type { SequencerStep, StepSequence } from '../types/audioGraph'
+import { midiNoteToName } from '../utils/midi'
+import { MAX_BPM, MIN_BPM, MIN_GATE, SEQUENCER_LENGTHS } from '../utils/sequencer'
+
+// C0 to C8 covers every preset, from sub bass to hi-hats
+const NOTE_OPTIONS = Array.from({ length: 97 }, (_, index) => {
+  const note = 12 + index
+  return { value: String(note), label: midiNoteToName(note) }
+})
+
+interface SequencerHeaderProps {
+  title: string
+  isRunning: boolean
+  onStart: () => void
+  onStop: () => void
+  length: StepSequence['length']
+  onLengthChange: (length: StepSequence['length']) => void
+  bpm: number
+  onBpmChange: (bpm: number) => void
+  swing: number
+  onSwingChange: (swing: number) => void
+  onClear: () => void
+}
+
+// Transport and timing controls shared by the single-track and drum kit sequencers
+export function SequencerHeader({
+  title,
+  isRunning,
+  onStart,
+  onStop,
+  length,
+  onLengthChange,
+  bpm,
+  onBpmChange,
+  swing,
+  onSwingChange,
+  onClear
+}: SequencerHeaderProps) {
+  return (
+    <Group justify="space-between" align="center">
+      <Group gap="xs" align="center">
+        <Text fw={500} size="sm">{title}</Text>
+        <Button
+          size="xs"
+          variant={isRunning ? 'filled' : 'light'}
+          color={isRunning ? 'red' : 'blue'}
+          leftSection={isRunning ? <IconPlayerStop size={14} /> : <IconPlayerPlay size={14} />}
+          onClick={isRunning ? onStop : onStart}
+        >
+          {isRunning ? 'Stop' : 'Play'}
+        </Button>
+      </Group>
+      <Group gap="sm" align="center">
+        <NumberInput
+          size="xs"
+          w={90}
+          label="BPM"
+          value={bpm}
+          min={MIN_BPM}
+          max={MAX_BPM}
+          clampBehavior="blur"
+          onChange={(value) => {
+            if (typeof value === 'number' && value >= MIN_BPM && value <= MAX_BPM) onBpmChange(value)
+          }}
+        />
+        <Box w={120}>
+          <Text size="xs" fw={500}>Swing {Math.round(swing * 100)}%</Text>
+          <Slider
+            size="sm"
+            min={0}
+            max={1}
+            step={0.05}
+            value={swing}
+            onChange={onSwingChange}
+            label={(value) => `${Math.round(value * 100)}%`}
+            aria-label="Swing"
+          />
+        </Box>
+        <SegmentedControl
+          size="xs"
+          value={String(length)}
+          onChange={(value) => onLengthChange(Number(value) as StepSequence['length'])}
+          data={SEQUENCER_LENGTHS.map(stepCount => ({ value: String(stepCount), label: `${stepCount} steps` }))}
+        />
+        <Button size="xs" variant="subtle" color="gray" onClick={onClear}>
+          Clear
+        </Button>
+      </Group>
+    </Group>
+  )
+}
+
+interface StepCellProps {
+  step: SequencerStep
+  index: number
+  isCurrent: boolean
+  isSelected: boolean
+  label?: string
+  onClick: () => void
+}
+
+// One step of a pattern grid: colour shows active/accent, brightness shows velocity
+export function StepCell({ step, index, isCurrent, isSelected, label, onClick }: StepCellProps) {
+  return (
+    <Box
+      role="button"
+      aria-label={`Step ${index + 1}`}
+      aria-pressed={step.active}
+      onClick={onClick}
+      style={{
+        height: 36,
+        borderRadius: 4,
+        cursor: 'pointer',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+        fontSize: 9,
+        userSelect: 'none',
+        color: step.active ? 'white' : 'var(--mantine-color-dimmed)',
+        backgroundColor: step.active
+          ? step.accent ? 'var(--mantine-color-orange-6)' : 'var(--mantine-color-blue-6)'
+          : index % 4 === 0 ? 'var(--mantine-color-default-hover)' : 'var(--mantine-color-default)',
+        opacity: step.active ? 0.45 + step.velocity * 0.55 : 1,
+        border: isSelected ? '2px solid var(--mantine-color-yellow-5)' : '1px solid var(--mantine-color-default-border)',
+        boxShadow: isCurrent ? '0 0 0 2px var(--mantine-color-green-5)' : undefined,
+        boxSizing: 'border-box'
+      }}
+    >
+      {step.active && label && <span>{label}</span>}
+    </Box>
+  )
+}
+
+interface StepEditorProps {
+  label: string
+  step: SequencerStep
+  onChange: (changes: Partial<SequencerStep>) => void
+  showNote?: boolean
+  showGate?: boolean
+}
+
+// Note, velocity, gate and accent of the selected step
+export function StepEditor({ label, step, onChange, showNote = true, showGate = true }: StepEditorProps) {
+  return (
+    <Group gap="md" align="flex-end" wrap="wrap">
+      <Text size="xs" fw={500} miw={56}>{label}</Text>
+      {showNote && (
+        <Select
+          size="xs"
+          w={90}
+          label="Note"
+          value={String(step.note)}
+          onChange={(value) => value && onChange({ note: Number(value) })}
+          data={NOTE_OPTIONS}
+          allowDeselect={false}
+          searchable
+        />
+      )}
+      <Box w={140}>
+        <Text size="xs" fw={500}>Velocity {Math.round(step.velocity * 127)}</Text>
+        <Slider
+          size="sm"
+          min={0}
+          max={1}
+          step={0.01}
+          value={step.velocity}
+          onChange={(value) => onChange({ velocity: value })}
+          label={(value) => Math.round(value * 127)}
+          aria-label="Step velocity"
+        />
+      </Box>
+      {showGate && (
+        <Box w={140}>
+          <Text size="xs" fw={500}>Gate {Math.round(step.gate * 100)}%</Text>
+          <Slider
+            size="sm"
+            min={MIN_GATE}
+            max={1}
+            step={0.05}
+            value={step.gate}
+            onChange={(value) => onChange({ gate: value })}
+            label={(value) => `${Math.round(value * 100)}%`}
+            aria-label="Step gate length"
+          />
+        </Box>
+      )}
+      <Switch
+        size="xs"
+        label="Accent"
+        checked={step.accent}
+        onChange={(event) => onChange({ accent: event.currentTarget.checked })}
+      />
+    </Group>
+  )
+}
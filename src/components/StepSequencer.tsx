@@ -0,0 +1,87 @@
+import { Stack, SimpleGrid } from '@mantine/core'
+import { useState } from 'react'
+import type { useStepSequencer } from '../hooks/useStepSequencer'
+import { midiNoteToName } from '../utils/midi'
+import { SequencerHeader, StepCell, StepEditor } from './SequencerControls'
+
+interface StepSequencerProps {
+  sequencer: ReturnType<typeof useStepSequencer>
+  pitched: boolean // Unpitched instruments (noise) have no per-step note
+}
+
+const STEPS_PER_ROW = 16
+
+// 16/32-step pattern grid with tempo and swing; the selected step's note, velocity, gate and accent are edited below the grid
+export function StepSequencer({ sequencer, pitched }: StepSequencerProps) {
+  const {
+    sequence,
+    isRunning,
+    currentStep,
+    start,
+    stop,
+    toggleStep,
+    updateStep,
+    setLength,
+    setBpm,
+    setSwing,
+    clearSteps
+  } = sequencer
+  const [selectedStep, setSelectedStep] = useState(0)
+
+  const editedIndex = Math.min(selectedStep, sequence.length - 1)
+  const editedStep = sequence.steps[editedIndex]
+
+  return (
+    <Stack gap="sm">
+      <SequencerHeader
+        title="Sequencer"
+        isRunning={isRunning}
+        onStart={start}
+        onStop={stop}
+        length={sequence.length}
+        onLengthChange={setLength}
+        bpm={sequence.bpm}
+        onBpmChange={setBpm}
+        swing={sequence.swing}
+        onSwingChange={setSwing}
+        onClear={clearSteps}
+      />
+
+      <Stack gap={6}>
+        {Array.from({ length: sequence.length / STEPS_PER_ROW }, (_, row) => (
+          <SimpleGrid key={row} cols={STEPS_PER_ROW} spacing={4}>
+            {Array.from({ length: STEPS_PER_ROW }, (_, column) => {
+              const index = row * STEPS_PER_ROW + column
+              const step = sequence.steps[index]
+              const isSelected = editedIndex === index
+              return (
+                <StepCell
+                  key={index}
+                  step={step}
+                  index={index}
+                  isCurrent={currentStep === index}
+                  isSelected={isSelected}
+                  label={pitched ? midiNoteToName(step.note) : undefined}
+                  onClick={() => {
+                    // The first click on an active step selects it for editing; clicking it again turns it off
+                    if (!step.active || isSelected) toggleStep(index)
+                    setSelectedStep(index)
+                  }}
+                />
+              )
+            })}
+          </SimpleGrid>
+        ))}
+      </Stack>
+
+      {editedStep && (
+        <StepEditor
+          label={`Step ${editedIndex + 1}`}
+          step={editedStep}
+          onChange={(changes) => updateStep(editedIndex, changes)}
+          showNote={pitched}
+        />
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,91 @@
+import type { AudioGraphConfig, AudioNodeType } from '../types/audioGraph'
+import type { DrumKit, DrumPad } from '../types/drumKit'
+import { bassKickPreset } from './instrumentPresets'
+import { DEFAULT_BPM, createStep } from '../utils/sequencer'
+import { createPresetId } from '../utils/presetStorage'
+
+// Single synth straight to the output, as a momentary graph
+const oneShotGraph = (name: string, nodeId: string, type: AudioNodeType, settings: Record<string, unknown>): AudioGraphConfig => ({
+  name,
+  type: 'instrument',
+  graph: {
+    nodes: {
+      [nodeId]: { type, trigger: true, settings },
+      output: { type: 'Output', settings: {} }
+    },
+    connections: [{ from: nodeId, to: 'output' }],
+    trigger: 'momentary'
+  },
+  metadata: {
+    category: 'drums',
+    tags: ['percussion', 'drums'],
+    description: `${name} for drum kits`
+  }
+})
+
+export const snarePadGraph = oneShotGraph('Snare', 'noiseSynth', 'NoiseSynth', {
+  volume: -8,
+  noise: { type: 'white' },
+  envelope: { attack: 0.001, decay: 0.18, sustain: 0, release: 0.08 }
+})
+
+export const closedHatPadGraph = oneShotGraph('Closed Hat', 'metalSynth', 'MetalSynth', {
+  frequency: 250,
+  volume: -18,
+  harmonicity: 5.1,
+  modulationIndex: 32,
+  resonance: 6000,
+  octaves: 1.5,
+  envelope: { attack: 0.001, decay: 0.06, sustain: 0, release: 0.02 }
+})
+
+export const openHatPadGraph = oneShotGraph('Open Hat', 'metalSynth', 'MetalSynth', {
+  frequency: 250,
+  volume: -20,
+  harmonicity: 5.1,
+  modulationIndex: 32,
+  resonance: 5000,
+  octaves: 1.5,
+  envelope: { attack: 0.001, decay: 0.4, sustain: 0, release: 0.1 }
+})
+
+export const kickPadGraph: AudioGraphConfig = { ...structuredClone(bassKickPreset), name: 'Kick' }
+
+/**
+ * Build a pad around a graph, with an empty pattern row of the given length
+ */
+export function createDrumPad(config: AudioGraphConfig, note: number, length: DrumKit['length'] = 16): DrumPad {
+  return {
+    id: createPresetId(),
+    name: config.name,
+    config: structuredClone(config),
+    note,
+    gain: 0.8,
+    pan: 0,
+    steps: Array.from({ length }, () => createStep())
+  }
+}
+
+// Kick, snare and hats on their General MIDI drum notes
+export function createDefaultDrumKit(): DrumKit {
+  return {
+    name: 'Basic Kit',
+    length: 16,
+    bpm: DEFAULT_BPM,
+    swing: 0,
+    pads: [
+      createDrumPad(kickPadGraph, 36),
+      createDrumPad(snarePadGraph, 38),
+      { ...createDrumPad(closedHatPadGraph, 42), pan: -0.2 },
+      { ...createDrumPad(openHatPadGraph, 46), pan: 0.2 }
+    ]
+  }
+}
+
+// Sounds offered when loading a pad, alongside the instrument presets
+export const drumPadSounds = {
+  kick: kickPadGraph,
+  snare: snarePadGraph,
+  closedHat: closedHatPadGraph,
+  openHat: openHatPadGraph
+} as const
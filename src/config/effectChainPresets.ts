@@ -0,0 +1,625 @@
+import type { AudioGraphConfig, AudioNodeDefinition, AudioNodeType, ModulationRoute } from '../types/audioGraph'
+
+type ChainNode = [nodeId: string, type: AudioNodeType, settings: Record<string, unknown>]
+
+interface EffectChainOptions {
+  name: string
+  trigger: 'momentary' | 'sustained'
+  instrument: ChainNode
+  effects: ChainNode[] // In signal order, the last one feeds the output
+  controls?: ChainNode[] // CV sources such as LFOs, wired in through `modulation`
+  modulation?: ModulationRoute[]
+  category: string
+  tags: string[]
+  description: string
+}
+
+// Instrument -> effect -> ... -> output, in series
+const effectChain = ({ name, trigger, instrument, effects, controls = [], modulation, category, tags, description }: EffectChainOptions): AudioGraphConfig => {
+  const nodes: Record<string, AudioNodeDefinition> = {
+    [instrument[0]]: { type: instrument[1], trigger: true, settings: instrument[2] }
+  }
+  for (const [nodeId, type, settings] of [...effects, ...controls]) {
+    nodes[nodeId] = { type, settings }
+  }
+  nodes.output = { type: 'Output', settings: {} }
+
+  const signalPath = [instrument[0], ...effects.map(([nodeId]) => nodeId), 'output']
+  return {
+    name,
+    type: 'instrument',
+    graph: {
+      nodes,
+      connections: signalPath.slice(1).map((to, index) => ({ from: signalPath[index], to })),
+      ...(modulation ? { modulation } : {}),
+      trigger
+    },
+    metadata: { category, tags, description }
+  }
+}
+
+// Drums
+
+export const distorted808KickPreset = effectChain({
+  name: 'Distorted 808 Kick',
+  trigger: 'momentary',
+  instrument: ['kick', 'MembraneSynth', {
+    volume: -8,
+    pitchDecay: 0.08,
+    octaves: 6,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.9, sustain: 0.05, release: 1.2, sustainDuration: 0.3 }
+  }],
+  effects: [
+    ['distortion', 'Distortion', { distortion: 0.6, oversample: '4x', wet: 0.7 }],
+    ['filter', 'Filter', { frequency: 3000, type: 'lowpass', rolloff: -24, Q: 1 }]
+  ],
+  category: 'drums',
+  tags: ['kick', '808', 'distortion', 'bass'],
+  description: 'Long 808 kick driven into distortion and tamed with a lowpass filter'
+})
+
+export const lofiKickPreset = effectChain({
+  name: 'Lo-Fi Kick',
+  trigger: 'momentary',
+  instrument: ['kick', 'MembraneSynth', {
+    volume: -6,
+    pitchDecay: 0.03,
+    octaves: 8,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.35, sustain: 0.01, release: 0.6, sustainDuration: 0.1 }
+  }],
+  effects: [
+    ['bitCrusher', 'BitCrusher', { bits: 6, wet: 0.6 }],
+    ['filter', 'Filter', { frequency: 1800, type: 'lowpass', rolloff: -12, Q: 0.7 }]
+  ],
+  category: 'drums',
+  tags: ['kick', 'lofi', 'bitcrusher'],
+  description: 'Punchy kick with a bit-crushed, filtered edge'
+})
+
+export const roomSnarePreset = effectChain({
+  name: 'Room Snare',
+  trigger: 'momentary',
+  instrument: ['snare', 'NoiseSynth', {
+    volume: -6,
+    noise: { type: 'white' },
+    envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 }
+  }],
+  effects: [
+    ['filter', 'Filter', { frequency: 800, type: 'highpass', rolloff: -12, Q: 1 }],
+    ['reverb', 'Reverb', { decay: 1.2, preDelay: 0.01, wet: 0.3 }]
+  ],
+  category: 'drums',
+  tags: ['snare', 'reverb', 'noise'],
+  description: 'Noise snare through a highpass filter into a short room'
+})
+
+export const crushedClapPreset = effectChain({
+  name: 'Crushed Clap',
+  trigger: 'momentary',
+  instrument: ['clap', 'NoiseSynth', {
+    volume: -8,
+    noise: { type: 'pink' },
+    envelope: { attack: 0.005, decay: 0.15, sustain: 0, release: 0.1 }
+  }],
+  effects: [
+    ['bitCrusher', 'BitCrusher', { bits: 4, wet: 0.5 }],
+    ['slapback', 'FeedbackDelay', { delayTime: 0.03, feedback: 0.2, wet: 0.3 }]
+  ],
+  category: 'drums',
+  tags: ['clap', 'lofi', 'bitcrusher', 'delay'],
+  description: 'Pink noise burst, crushed and smeared by a very short delay'
+})
+
+export const trashyHatPreset = effectChain({
+  name: 'Trashy Hat',
+  trigger: 'momentary',
+  instrument: ['hat', 'MetalSynth', {
+    frequency: 300,
+    volume: -16,
+    harmonicity: 5.1,
+    modulationIndex: 40,
+    resonance: 5000,
+    octaves: 1.5,
+    envelope: { attack: 0.001, decay: 0.12, sustain: 0, release: 0.05 }
+  }],
+  effects: [
+    ['waveshaper', 'Chebyshev', { order: 30, oversample: '2x', wet: 0.4 }],
+    ['filter', 'Filter', { frequency: 6000, type: 'highpass', rolloff: -12, Q: 1 }]
+  ],
+  category: 'drums',
+  tags: ['hihat', 'metal', 'waveshaper'],
+  description: 'Metallic hat through a high-order Chebyshev waveshaper'
+})
+
+export const dubTomPreset = effectChain({
+  name: 'Dub Tom',
+  trigger: 'momentary',
+  instrument: ['tom', 'MembraneSynth', {
+    frequency: 110,
+    volume: -8,
+    pitchDecay: 0.1,
+    octaves: 3,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.5, sustain: 0.01, release: 0.8, sustainDuration: 0.1 }
+  }],
+  effects: [
+    ['pingPong', 'PingPongDelay', { delayTime: 0.375, feedback: 0.5, wet: 0.4 }],
+    ['reverb', 'Reverb', { decay: 3, preDelay: 0.02, wet: 0.25 }]
+  ],
+  category: 'drums',
+  tags: ['tom', 'dub', 'delay', 'reverb'],
+  description: 'Pitched tom bouncing through a ping-pong delay into reverb'
+})
+
+// Bass
+
+export const acidBassPreset = effectChain({
+  name: 'Acid Bass',
+  trigger: 'sustained',
+  instrument: ['bass', 'MonoSynth', {
+    frequency: 55,
+    volume: -10,
+    Q: 12,
+    filterType: 'lowpass',
+    rolloff: -24,
+    baseFrequency: 150,
+    octaves: 4,
+    exponent: 2,
+    oscillator: { type: 'sawtooth' },
+    filter: { Q: 12, type: 'lowpass', rolloff: -24 },
+    envelope: { attack: 0.005, decay: 0.2, sustain: 0.6, release: 0.2 },
+    filterEnvelope: { attack: 0.005, decay: 0.25, sustain: 0.1, release: 0.2, baseFrequency: 150, octaves: 4, exponent: 2 }
+  }],
+  effects: [
+    ['distortion', 'Distortion', { distortion: 0.4, oversample: '2x', wet: 0.5 }],
+    ['delay', 'FeedbackDelay', { delayTime: 0.1875, feedback: 0.25, wet: 0.15 }]
+  ],
+  category: 'bass',
+  tags: ['acid', 'mono', 'filter', 'distortion'],
+  description: 'Resonant squelchy bassline with drive and a dotted delay'
+})
+
+export const wobbleBassPreset = effectChain({
+  name: 'Wobble Bass',
+  trigger: 'sustained',
+  instrument: ['bass', 'FMSynth', {
+    frequency: 55,
+    volume: -8,
+    harmonicity: 1,
+    modulationIndex: 6,
+    oscillator: { type: 'sawtooth' },
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.9, release: 0.3 },
+    modulation: { type: 'square' },
+    modulationEnvelope: { attack: 0.01, decay: 0.2, sustain: 1, release: 0.3 }
+  }],
+  effects: [
+    ['filter', 'Filter', { frequency: 300, type: 'lowpass', rolloff: -24, Q: 8 }]
+  ],
+  controls: [
+    ['lfo', 'LFO', { frequency: 4, type: 'sine', min: 0, max: 1, amplitude: 1 }]
+  ],
+  modulation: [
+    { source: 'lfo', destination: 'filter.frequency', amount: 1800 }
+  ],
+  category: 'bass',
+  tags: ['wobble', 'lfo', 'filter', 'modulation'],
+  description: 'FM bass whose filter cutoff is swept by an LFO through the modulation matrix'
+})
+
+export const warmSubBassPreset = effectChain({
+  name: 'Warm Sub Bass',
+  trigger: 'sustained',
+  instrument: ['sub', 'Synth', {
+    frequency: 55,
+    volume: -6,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.4 }
+  }],
+  effects: [
+    ['harmonics', 'Chebyshev', { order: 2, oversample: 'none', wet: 0.25 }],
+    ['filter', 'Filter', { frequency: 250, type: 'lowpass', rolloff: -24, Q: 0.7 }]
+  ],
+  category: 'bass',
+  tags: ['sub', 'sine', 'warm'],
+  description: 'Sine sub with a touch of second harmonic so it carries on small speakers'
+})
+
+export const growlBassPreset = effectChain({
+  name: 'Growl Bass',
+  trigger: 'sustained',
+  instrument: ['bass', 'FMSynth', {
+    frequency: 55,
+    volume: -10,
+    harmonicity: 0.5,
+    modulationIndex: 20,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.01, decay: 0.3, sustain: 0.8, release: 0.3 },
+    modulation: { type: 'sawtooth' },
+    modulationEnvelope: { attack: 0.05, decay: 0.4, sustain: 0.6, release: 0.3 }
+  }],
+  effects: [
+    ['wah', 'AutoWah', { baseFrequency: 100, octaves: 5, sensitivity: -20, Q: 4, gain: 4, wet: 0.8 }],
+    ['distortion', 'Distortion', { distortion: 0.5, oversample: '4x', wet: 0.6 }]
+  ],
+  category: 'bass',
+  tags: ['fm', 'growl', 'wah', 'distortion'],
+  description: 'Gritty FM bass through an envelope-following wah and distortion'
+})
+
+// Keys
+
+export const fmBellPingPongPreset = effectChain({
+  name: 'FM Bell Echoes',
+  trigger: 'sustained',
+  instrument: ['bell', 'FMSynth', {
+    frequency: 880,
+    volume: -12,
+    harmonicity: 3.01,
+    modulationIndex: 14,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 1.5, sustain: 0, release: 1.5 },
+    modulation: { type: 'sine' },
+    modulationEnvelope: { attack: 0.002, decay: 0.6, sustain: 0, release: 0.5 }
+  }],
+  effects: [
+    ['pingPong', 'PingPongDelay', { delayTime: 0.25, feedback: 0.4, wet: 0.35 }]
+  ],
+  category: 'keys',
+  tags: ['fm', 'bell', 'delay', 'stereo'],
+  description: 'Inharmonic FM bell bouncing across the stereo field'
+})
+
+export const glassKeysPreset = effectChain({
+  name: 'Glass Keys',
+  trigger: 'sustained',
+  instrument: ['keys', 'AMSynth', {
+    frequency: 440,
+    volume: -10,
+    harmonicity: 2.5,
+    oscillator: { type: 'triangle' },
+    envelope: { attack: 0.005, decay: 0.8, sustain: 0.2, release: 1.2 },
+    modulation: { type: 'sine' },
+    modulationEnvelope: { attack: 0.01, decay: 0.5, sustain: 0.3, release: 0.8 }
+  }],
+  effects: [
+    ['chorus', 'Chorus', { frequency: 1.5, delayTime: 3.5, depth: 0.6, spread: 180, feedback: 0.1, wet: 0.4 }],
+    ['reverb', 'Freeverb', { roomSize: 0.75, dampening: 4000, wet: 0.3 }]
+  ],
+  category: 'keys',
+  tags: ['am', 'chorus', 'reverb', 'bright'],
+  description: 'Bright AM keys widened by chorus in a medium room'
+})
+
+export const tremoloEPianoPreset = effectChain({
+  name: 'Tremolo E-Piano',
+  trigger: 'sustained',
+  instrument: ['piano', 'PolySynth', {
+    frequency: 440,
+    volume: -10,
+    voice: {
+      oscillator: { type: 'triangle' },
+      envelope: { attack: 0.005, decay: 1.2, sustain: 0.3, release: 0.8 }
+    },
+    maxPolyphony: 8,
+    voiceStealing: 'oldest'
+  }],
+  effects: [
+    ['tremolo', 'Tremolo', { frequency: 5, depth: 0.5, spread: 90, type: 'sine', wet: 1 }],
+    ['reverb', 'Freeverb', { roomSize: 0.5, dampening: 3000, wet: 0.2 }]
+  ],
+  category: 'keys',
+  tags: ['piano', 'tremolo', 'poly', 'chords'],
+  description: 'Polyphonic electric piano with stereo tremolo'
+})
+
+export const rotaryOrganPreset = effectChain({
+  name: 'Rotary Organ',
+  trigger: 'sustained',
+  instrument: ['organ', 'PolySynth', {
+    frequency: 440,
+    volume: -12,
+    voice: {
+      oscillator: { type: 'square' },
+      envelope: { attack: 0.01, decay: 0.05, sustain: 1, release: 0.1 }
+    },
+    maxPolyphony: 8,
+    voiceStealing: 'oldest'
+  }],
+  effects: [
+    ['vibrato', 'Vibrato', { frequency: 6, depth: 0.15, type: 'sine', wet: 0.8 }],
+    ['panner', 'AutoPanner', { frequency: 1.2, depth: 0.6, type: 'sine', wet: 1 }]
+  ],
+  category: 'keys',
+  tags: ['organ', 'vibrato', 'panner', 'poly'],
+  description: 'Square-wave organ with vibrato and a slowly spinning pan'
+})
+
+// Plucks
+
+export const pluckedStringFreeverbPreset = effectChain({
+  name: 'Plucked String Hall',
+  trigger: 'momentary',
+  instrument: ['string', 'PluckSynth', {
+    frequency: 330,
+    volume: -6,
+    attackNoise: 1.5,
+    dampening: 3500,
+    resonance: 0.9,
+    release: 1
+  }],
+  effects: [
+    ['reverb', 'Freeverb', { roomSize: 0.85, dampening: 3000, wet: 0.35 }]
+  ],
+  category: 'plucks',
+  tags: ['pluck', 'string', 'reverb', 'physical'],
+  description: 'Karplus-Strong string ringing out in a large hall'
+})
+
+export const pluckEchoPreset = effectChain({
+  name: 'Pluck Echo',
+  trigger: 'momentary',
+  instrument: ['pluck', 'PluckSynth', {
+    frequency: 440,
+    volume: -6,
+    attackNoise: 2,
+    dampening: 5000,
+    resonance: 0.8,
+    release: 0.8
+  }],
+  effects: [
+    ['delay', 'FeedbackDelay', { delayTime: 0.3, feedback: 0.45, wet: 0.3 }],
+    ['filter', 'Filter', { frequency: 4000, type: 'lowpass', rolloff: -12, Q: 0.7 }]
+  ],
+  category: 'plucks',
+  tags: ['pluck', 'delay', 'echo'],
+  description: 'Bright pluck repeated by a feedback delay'
+})
+
+export const shimmerPluckPreset = effectChain({
+  name: 'Shimmer Pluck',
+  trigger: 'momentary',
+  instrument: ['pluck', 'PluckSynth', {
+    frequency: 660,
+    volume: -8,
+    attackNoise: 0.8,
+    dampening: 6000,
+    resonance: 0.95,
+    release: 1.5
+  }],
+  effects: [
+    ['chorus', 'Chorus', { frequency: 0.8, delayTime: 5, depth: 0.8, spread: 180, feedback: 0.2, wet: 0.5 }],
+    ['reverb', 'JCReverb', { roomSize: 0.7, wet: 0.35 }]
+  ],
+  category: 'plucks',
+  tags: ['pluck', 'chorus', 'reverb', 'ambient'],
+  description: 'High pluck with deep chorus and a metallic reverb'
+})
+
+// Leads
+
+export const duoLeadPreset = effectChain({
+  name: 'Duo Lead',
+  trigger: 'sustained',
+  instrument: ['lead', 'DuoSynth', {
+    frequency: 440,
+    volume: -12,
+    harmonicity: 1.5,
+    vibratoAmount: 0.3,
+    vibratoRate: 5,
+    voice0: {
+      oscillator: { type: 'sawtooth' },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.4 }
+    },
+    voice1: {
+      oscillator: { type: 'square' },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.4 }
+    }
+  }],
+  effects: [
+    ['chorus', 'Chorus', { frequency: 2, delayTime: 2.5, depth: 0.5, spread: 180, feedback: 0, wet: 0.3 }],
+    ['pingPong', 'PingPongDelay', { delayTime: 0.25, feedback: 0.3, wet: 0.2 }]
+  ],
+  category: 'leads',
+  tags: ['lead', 'dual', 'chorus', 'delay'],
+  description: 'Two detuned voices with vibrato, chorus and a stereo delay'
+})
+
+export const phaserLeadPreset = effectChain({
+  name: 'Phaser Lead',
+  trigger: 'sustained',
+  instrument: ['lead', 'Synth', {
+    frequency: 440,
+    volume: -12,
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.02, decay: 0.2, sustain: 0.6, release: 0.5 }
+  }],
+  effects: [
+    ['phaser', 'Phaser', { frequency: 0.5, octaves: 3, baseFrequency: 350, Q: 10, wet: 0.6 }],
+    ['delay', 'FeedbackDelay', { delayTime: 0.33, feedback: 0.3, wet: 0.2 }]
+  ],
+  category: 'leads',
+  tags: ['lead', 'square', 'phaser'],
+  description: 'Square lead swept by a slow phaser'
+})
+
+export const screamingLeadPreset = effectChain({
+  name: 'Screaming Lead',
+  trigger: 'sustained',
+  instrument: ['lead', 'MonoSynth', {
+    frequency: 440,
+    volume: -16,
+    Q: 4,
+    filterType: 'lowpass',
+    rolloff: -24,
+    baseFrequency: 600,
+    octaves: 3,
+    exponent: 2,
+    oscillator: { type: 'sawtooth' },
+    filter: { Q: 4, type: 'lowpass', rolloff: -24 },
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.3 },
+    filterEnvelope: { attack: 0.05, decay: 0.3, sustain: 0.5, release: 0.3, baseFrequency: 600, octaves: 3, exponent: 2 }
+  }],
+  effects: [
+    ['distortion', 'Distortion', { distortion: 0.9, oversample: '4x', wet: 0.8 }],
+    ['autoFilter', 'AutoFilter', { frequency: 2, baseFrequency: 400, octaves: 4, depth: 0.7, type: 'sine', wet: 0.6 }],
+    ['reverb', 'Reverb', { decay: 2, preDelay: 0.03, wet: 0.2 }]
+  ],
+  category: 'leads',
+  tags: ['lead', 'distortion', 'filter', 'aggressive'],
+  description: 'Heavily overdriven mono lead with a moving filter'
+})
+
+// Pads
+
+export const warmPadPreset = effectChain({
+  name: 'Warm Pad',
+  trigger: 'sustained',
+  instrument: ['pad', 'PolySynth', {
+    frequency: 440,
+    volume: -14,
+    voice: {
+      oscillator: { type: 'sawtooth' },
+      envelope: { attack: 0.8, decay: 0.5, sustain: 0.8, release: 2.5 }
+    },
+    maxPolyphony: 8,
+    voiceStealing: 'oldest'
+  }],
+  effects: [
+    ['filter', 'Filter', { frequency: 1200, type: 'lowpass', rolloff: -24, Q: 0.7 }],
+    ['chorus', 'Chorus', { frequency: 0.5, delayTime: 4, depth: 0.7, spread: 180, feedback: 0.1, wet: 0.5 }],
+    ['reverb', 'Reverb', { decay: 6, preDelay: 0.05, wet: 0.5 }]
+  ],
+  category: 'pads',
+  tags: ['pad', 'poly', 'chorus', 'reverb', 'ambient'],
+  description: 'Slow sawtooth chords softened by a filter, chorus and long reverb'
+})
+
+export const sweepingPadPreset = effectChain({
+  name: 'Sweeping Pad',
+  trigger: 'sustained',
+  instrument: ['pad', 'AMSynth', {
+    frequency: 220,
+    volume: -12,
+    harmonicity: 1.5,
+    oscillator: { type: 'sawtooth' },
+    envelope: { attack: 1.2, decay: 0.5, sustain: 0.9, release: 3 },
+    modulation: { type: 'triangle' },
+    modulationEnvelope: { attack: 1.5, decay: 0.5, sustain: 1, release: 3 }
+  }],
+  effects: [
+    ['autoFilter', 'AutoFilter', { frequency: 0.1, baseFrequency: 200, octaves: 5, depth: 0.9, type: 'sine', wet: 1 }],
+    ['reverb', 'JCReverb', { roomSize: 0.85, wet: 0.4 }]
+  ],
+  category: 'pads',
+  tags: ['pad', 'am', 'filter', 'sweep', 'ambient'],
+  description: 'AM drone with a very slow filter sweep'
+})
+
+// Effects
+
+export const windPreset = effectChain({
+  name: 'Wind',
+  trigger: 'momentary',
+  instrument: ['noise', 'NoiseSynth', {
+    volume: -10,
+    noise: { type: 'pink' },
+    envelope: { attack: 1.5, decay: 1, sustain: 0.6, release: 2 }
+  }],
+  effects: [
+    ['autoFilter', 'AutoFilter', { frequency: 0.3, baseFrequency: 300, octaves: 4, depth: 0.8, type: 'sine', wet: 1 }],
+    ['reverb', 'Reverb', { decay: 4, preDelay: 0.05, wet: 0.4 }]
+  ],
+  category: 'fx',
+  tags: ['noise', 'wind', 'ambient', 'filter'],
+  description: 'Filtered pink noise gusting in a large space'
+})
+
+export const brokenRadioPreset = effectChain({
+  name: 'Broken Radio',
+  trigger: 'sustained',
+  instrument: ['voice', 'Synth', {
+    frequency: 440,
+    volume: -10,
+    oscillator: { type: 'sawtooth' },
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.3 }
+  }],
+  effects: [
+    ['bitCrusher', 'BitCrusher', { bits: 3, wet: 0.7 }],
+    ['bandpass', 'Filter', { frequency: 1500, type: 'bandpass', rolloff: -24, Q: 3 }],
+    ['panner', 'AutoPanner', { frequency: 3, depth: 0.4, type: 'square', wet: 1 }]
+  ],
+  category: 'fx',
+  tags: ['lofi', 'bitcrusher', 'telephone'],
+  description: 'Crushed, band-limited tone flickering between speakers'
+})
+
+export const phasedGongPreset = effectChain({
+  name: 'Phased Gong',
+  trigger: 'momentary',
+  instrument: ['gong', 'MetalSynth', {
+    frequency: 80,
+    volume: -12,
+    harmonicity: 3.2,
+    modulationIndex: 20,
+    resonance: 1500,
+    octaves: 2,
+    envelope: { attack: 0.005, decay: 3, sustain: 0, release: 2 }
+  }],
+  effects: [
+    ['phaser', 'Phaser', { frequency: 0.2, octaves: 4, baseFrequency: 200, Q: 6, wet: 0.6 }],
+    ['reverb', 'Reverb', { decay: 7, preDelay: 0.04, wet: 0.45 }]
+  ],
+  category: 'fx',
+  tags: ['gong', 'metal', 'phaser', 'reverb', 'cinematic'],
+  description: 'Low metallic hit smeared by a slow phaser and a long tail'
+})
+
+// Factory effect-chain library, keyed for preset selection
+export const effectChainPresets = {
+  distorted808Kick: distorted808KickPreset,
+  lofiKick: lofiKickPreset,
+  roomSnare: roomSnarePreset,
+  crushedClap: crushedClapPreset,
+  trashyHat: trashyHatPreset,
+  dubTom: dubTomPreset,
+  acidBass: acidBassPreset,
+  wobbleBass: wobbleBassPreset,
+  warmSubBass: warmSubBassPreset,
+  growlBass: growlBassPreset,
+  fmBellPingPong: fmBellPingPongPreset,
+  glassKeys: glassKeysPreset,
+  tremoloEPiano: tremoloEPianoPreset,
+  rotaryOrgan: rotaryOrganPreset,
+  pluckedStringFreeverb: pluckedStringFreeverbPreset,
+  pluckEcho: pluckEchoPreset,
+  shimmerPluck: shimmerPluckPreset,
+  duoLead: duoLeadPreset,
+  phaserLead: phaserLeadPreset,
+  screamingLead: screamingLeadPreset,
+  warmPad: warmPadPreset,
+  sweepingPad: sweepingPadPreset,
+  wind: windPreset,
+  brokenRadio: brokenRadioPreset,
+  phasedGong: phasedGongPreset
+} as const
+
+export type EffectChainKey = keyof typeof effectChainPresets
+
+export function getEffectChainPreset(key: EffectChainKey): AudioGraphConfig {
+  return effectChainPresets[key]
+}
+
+// Chains in library order, with the metadata the preset picker shows
+export function getAvailableEffectChains(): Array<{ key: EffectChainKey; name: string; category: string; description: string }> {
+  return (Object.keys(effectChainPresets) as EffectChainKey[]).map(key => {
+    const preset = effectChainPresets[key]
+    return {
+      key,
+      name: preset.name,
+      category: preset.metadata?.category || 'other',
+      description: preset.metadata?.description || ''
+    }
+  })
+}
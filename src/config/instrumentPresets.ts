@@ -368,7 +368,8 @@ export const polySynthPreset: AudioGraphConfig = {
               release: 1.0
             }
           },
-          maxPolyphony: 8
+          maxPolyphony: 8,
+          voiceStealing: 'oldest'
         }
       },
       output: { type: 'Output', settings: {} }
@@ -394,21 +395,21 @@ export const samplerPreset: AudioGraphConfig = {
         trigger: true,
         settings: {
           volume: -6,
-          // Sampler requires urls parameter with audio files
-          urls: {
-            'C4': 'https://tonejs.github.io/audio/berklee/ahh_c4.mp3'
-          }
+          attack: 0,
+          release: 0.3,
+          // Local samples added in the zone editor; the audio stays in the browser's sample store
+          zones: []
         }
       },
       output: { type: 'Output', settings: {} }
     },
     connections: [{ from: 'sampler', to: 'output' }],
-    trigger: 'momentary'
+    trigger: 'sustained'
   },
   metadata: {
     category: 'sampling',
-    tags: ['sampler', 'audio', 'playback'],
-    description: 'Sample-based instrument player'
+    tags: ['sampler', 'audio', 'playback', 'samples'],
+    description: 'Plays your own audio files mapped across the keyboard'
   }
 }
 
@@ -445,6 +446,6 @@ export function getAvailableInstruments(): Array<{ key: keyof typeof instrumentP
     { key: 'noiseSynth', name: 'Noise Synth', description: 'Noise-based synthesizer for percussion' },
     { key: 'pluckSynth', name: 'Pluck Synth', description: 'Physical modeling plucked string' },
     { key: 'polySynth', name: 'Poly Synth', description: 'Polyphonic synthesizer for chords' },
-    { key: 'sampler', name: 'Sampler', description: 'Sample-based instrument player', disabled: true }
+    { key: 'sampler', name: 'Sampler', description: 'Sample-based instrument player' }
   ]
 }
\ No newline at end of file
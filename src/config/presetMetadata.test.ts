@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { findSettingsWithoutMetadata } from '../types/parameterMetadata'
+import { instrumentPresets } from './instrumentPresets'
+import { effectChainPresets } from './effectChainPresets'
+
+// Every default setting a preset ships should get a control, so each needs parameter metadata
+describe('preset parameter metadata', () => {
+  it.each(Object.entries(instrumentPresets))('instrument preset %s describes every setting', (_, preset) => {
+    expect(findSettingsWithoutMetadata(preset)).toEqual([])
+  })
+
+  it.each(Object.entries(effectChainPresets))('effect chain %s describes every setting', (_, preset) => {
+    expect(findSettingsWithoutMetadata(preset)).toEqual([])
+  })
+
+  it('flags a setting no metadata describes', () => {
+    const preset = structuredClone(instrumentPresets.synth)
+    preset.graph.nodes.synth.settings = { ...preset.graph.nodes.synth.settings, madeUpKnob: 3 }
+    expect(findSettingsWithoutMetadata(preset)).toEqual(['synth.madeUpKnob'])
+  })
+})
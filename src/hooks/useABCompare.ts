@@ -0,0 +1,90 @@
+import { useState, useCallback, useMemo } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { diffSettingsSnapshots, snapshotGraphSettings, type GraphSettingsSnapshot } from '../utils/settingsDiff'
+
+export type CompareSlot = 'A' | 'B'
+
+interface CompareState {
+  structureKey: string
+  activeSlot: CompareSlot
+  slots: Record<CompareSlot, GraphSettingsSnapshot | null>
+}
+
+const EMPTY_SLOTS: Record<CompareSlot, GraphSettingsSnapshot | null> = { A: null, B: null }
+
+// Slots only make sense for the graph layout they were taken from
+const getStructureKey = (config: AudioGraphConfig | null) => config
+  ? Object.entries(config.graph.nodes).map(([nodeId, node]) => `${nodeId}:${node.type}`).join('|')
+  : ''
+
+/**
+ * Two settings snapshots of the current patch that can be flipped between.
+ * The active slot is always the live config, so edits land in whichever slot is selected;
+ * the inactive slot holds the snapshot taken when it was last left.
+ */
+export function useABCompare(
+  config: AudioGraphConfig | null,
+  applySnapshot: (snapshot: GraphSettingsSnapshot) => Promise<void>
+) {
+  const structureKey = getStructureKey(config)
+  const [storedState, setStoredState] = useState<CompareState>({ structureKey, activeSlot: 'A', slots: EMPTY_SLOTS })
+
+  // Loading a patch with a different layout starts over with empty slots
+  const state = useMemo<CompareState>(() => {
+    return storedState.structureKey === structureKey
+      ? storedState
+      : { structureKey, activeSlot: 'A', slots: EMPTY_SLOTS }
+  }, [storedState, structureKey])
+
+  const liveSettings = useMemo(
+    () => config ? snapshotGraphSettings(config.graph.nodes) : null,
+    [config]
+  )
+
+  const getSlotSettings = useCallback((slot: CompareSlot): GraphSettingsSnapshot | null => {
+    return slot === state.activeSlot ? liveSettings : state.slots[slot]
+  }, [state, liveSettings])
+
+  const switchTo = useCallback(async (slot: CompareSlot) => {
+    if (!liveSettings || slot === state.activeSlot) return
+
+    // An empty slot starts as a copy of the one being left
+    const target = state.slots[slot] ?? liveSettings
+    setStoredState({
+      structureKey,
+      activeSlot: slot,
+      slots: { ...state.slots, [state.activeSlot]: liveSettings, [slot]: target }
+    })
+    console.log('🔀 Switched to compare slot', slot)
+    await applySnapshot(target)
+  }, [state, liveSettings, structureKey, applySnapshot])
+
+  const toggle = useCallback(() => switchTo(state.activeSlot === 'A' ? 'B' : 'A'), [state.activeSlot, switchTo])
+
+  const copyAToB = useCallback(async () => {
+    const settingsA = getSlotSettings('A')
+    if (!settingsA) return
+
+    setStoredState({ ...state, slots: { ...state.slots, B: settingsA } })
+    console.log('📋 Copied compare slot A to B')
+    if (state.activeSlot === 'B') {
+      await applySnapshot(settingsA)
+    }
+  }, [state, getSlotSettings, applySnapshot])
+
+  const settingsA = getSlotSettings('A')
+  const settingsB = getSlotSettings('B')
+  const differences = useMemo(
+    () => settingsA && settingsB ? diffSettingsSnapshots(settingsA, settingsB) : [],
+    [settingsA, settingsB]
+  )
+
+  return {
+    activeSlot: state.activeSlot,
+    isSlotEmpty: (slot: CompareSlot) => getSlotSettings(slot) === null,
+    differences,
+    switchTo,
+    toggle,
+    copyAToB
+  }
+}
@@ -1,10 +1,36 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { useImmer } from 'use-immer'
+import { applyPatches, produceWithPatches, type Draft, type Patch } from 'immer'
 import { getToneModule } from '../utils/toneLoader'
-import { useAudioNodes } from './useAudioNodes'
+import { getToneDefaults, useAudioNodes } from './useAudioNodes'
 import { useGraphConnections } from './useGraphConnections'
 import { useModulationMatrix } from './useModulationMatrix'
-import type { AudioGraphConfig, AudioGraphState, NodeInstance } from '../types/audioGraph'
+import { useGraphHistory } from './useGraphHistory'
+import { analyzeGraph, getTopologicalOrder } from '../utils/graphAnalysis'
+import { validateGraphConfig, formatGraphConfigIssue } from '../utils/graphConfigValidator'
+import { parseConnectionString, parseParameterPath } from '../utils/graphUtils'
+import { getMomentaryTiming } from '../utils/momentaryTiming'
+import { getSettingsChanges } from '../utils/settingsDiff'
+import { DEFAULT_MAX_POLYPHONY, DEFAULT_VOICE_STEALING, getVoicesToRelease, isPolyphonicNodeType, type ActiveVoice, type VoiceStealingPolicy } from '../utils/voiceAllocation'
+import { getPreviewZone } from '../utils/samplerZones'
+import { loadZoneBuffer } from '../utils/zonedSampler'
+import type { AudioGraphConfig, AudioGraphState, AudioNodeDefinition, MidiCCBinding, ModulationRoute, NodeInstance, NodePosition, SignalType, StepSequence } from '../types/audioGraph'
+
+const connectionKey = (connection: { from: string; to: string }) => `${connection.from}->${connection.to}`
+const routeKey = (route: ModulationRoute) => `${route.source}->${route.destination}`
+
+// Thin a rendered channel down to the resolution the waveform view draws
+const downsampleWaveform = (channelData: Float32Array): Float32Array => {
+  const targetPoints = 2000 // Match original resolution
+  const downsampleRate = Math.max(1, Math.floor(channelData.length / targetPoints))
+  const downsampled = new Float32Array(Math.ceil(channelData.length / downsampleRate))
+
+  for (let i = 0; i < downsampled.length; i++) {
+    downsampled[i] = channelData[i * downsampleRate] || 0
+  }
+
+  return downsampled
+}
 
 export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
   const [config, updateConfig] = useImmer<AudioGraphConfig | null>(initialConfig)
@@ -24,6 +50,16 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
   const currentConfigRef = useRef<AudioGraphConfig | null>(config)
   const currentNodesRef = useRef<Map<string, NodeInstance>>(new Map())
 
+  // Notes holding a voice in sustained mode, in attack order; releasing one key leaves the rest playing
+  const activeVoicesRef = useRef<ActiveVoice[]>([])
+  const voiceCounterRef = useRef(0)
+  const [activeVoiceCount, setActiveVoiceCount] = useState(0)
+
+  const setActiveVoices = useCallback((voices: ActiveVoice[]) => {
+    activeVoicesRef.current = voices
+    setActiveVoiceCount(voices.length)
+  }, [])
+
   // Use the specialized hooks for managing different aspects (always call hooks)
   const { 
     nodes, 
@@ -31,18 +67,37 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     updateNodeSettings, 
     disposeNode,
     getNodeById,
+    getAllNodes,
     initializeNodeInstance
   } = useAudioNodes()
 
   const { 
-    connections 
-  } = useGraphConnections(nodes)
+    connections,
+    connect,
+    disconnect,
+    disconnectNode,
+    connectMultiple,
+    clearAllConnections
+  } = useGraphConnections(getNodeById)
 
   const { 
     modulationRoutes, 
     addModulationRoute, 
-    applyModulation 
-  } = useModulationMatrix(nodes)
+    removeModulationRoute,
+    updateModulationAmount,
+    applyModulation,
+    clearAllModulationRoutes,
+    removeNodeModulationRoutes
+  } = useModulationMatrix(getNodeById)
+
+  const {
+    canUndo,
+    canRedo,
+    record: recordHistory,
+    undo: popUndoStep,
+    redo: popRedoStep,
+    clear: clearHistory
+  } = useGraphHistory()
 
   // Update refs when state changes
   useEffect(() => {
@@ -77,6 +132,13 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
       const settings = { ...configSettings, ...instanceSettings }
       
       console.log('🎨 Generating waveform for:', nodeDefinition.type, 'with settings:', settings)
+
+      // A sampler's sound is its recorded audio, so draw the sample rather than rendering a note
+      if (nodeDefinition.type === 'Sampler') {
+        const zone = getPreviewZone(settings.zones || [])
+        const sampleBuffer = zone ? await loadZoneBuffer(zone) : null
+        return sampleBuffer ? downsampleWaveform(sampleBuffer.getChannelData(0)) : null
+      }
       
       // Calculate buffer duration based on instrument type and envelope
       let bufferDuration = 1.0 // Default fallback
@@ -345,20 +407,6 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
             break
           }
           
-          case 'Sampler': {
-            // Sampler needs URLs, use a simple fallback
-            const samplerSettings = {
-              ...settings,
-              urls: settings.urls || { 'C4': 'https://tonejs.github.io/audio/berklee/ahh_c4.mp3' }
-            }
-            synth = new Tone.Sampler(samplerSettings)
-            synth.connect((context as any).destination) // eslint-disable-line @typescript-eslint/no-explicit-any
-            synth.triggerAttack('C4', 0)
-            releaseTime = 2.0
-            synth.triggerRelease('C4', releaseTime)
-            break
-          }
-          
           default:
             console.warn('⚠️ Unsupported instrument type for waveform generation:', nodeDefinition.type)
             return
@@ -366,16 +414,7 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
       }, bufferDuration)
       
       // Convert to Float32Array for visualization
-      const channelData = buffer.getChannelData(0) // Get mono channel
-      const targetPoints = 2000 // Match original resolution
-      const downsampleRate = Math.max(1, Math.floor(channelData.length / targetPoints))
-      const downsampled = new Float32Array(Math.ceil(channelData.length / downsampleRate))
-      
-      for (let i = 0; i < downsampled.length; i++) {
-        downsampled[i] = channelData[i * downsampleRate] || 0
-      }
-      
-      return downsampled
+      return downsampleWaveform(buffer.getChannelData(0)) // Get mono channel
       
     } catch (error) {
       console.error('❌ Error generating waveform:', error)
@@ -396,22 +435,44 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     
     console.log('🔧 Initializing audio graph (placeholders):', activeConfig.name)
     
+    const validation = validateGraphConfig(activeConfig)
+    for (const warning of validation.warnings) {
+      console.warn('⚠️ Graph config warning:', formatGraphConfigIssue(warning))
+    }
+    if (!validation.valid) {
+      console.error('❌ Invalid audio graph config, not initializing:', validation.errors.map(formatGraphConfigIssue))
+      return
+    }
+    
+    const analysis = analyzeGraph(activeConfig.graph)
+    
     try {
-      // Create all nodes first
-      for (const [nodeId, nodeDefinition] of Object.entries(activeConfig.graph.nodes)) {
-        const node = await createNode(nodeId, nodeDefinition)
+      // Create all nodes first, sources before the nodes they feed
+      for (const nodeId of analysis.topologicalOrder) {
+        const node = await createNode(nodeId, activeConfig.graph.nodes[nodeId])
         if (!node) {
           console.warn('⚠️ Failed to create node:', nodeId)
         }
       }
 
-      console.log('🔧 All nodes created, now establishing connections...')
+      // Connections need real Tone.js endpoints, so instantiate every node up front
+      for (const nodeId of analysis.topologicalOrder) {
+        const node = getNodeById(nodeId)
+        if (!node || !(await initializeNodeInstance(node))) {
+          console.warn('⚠️ Failed to initialize node instance:', nodeId)
+        }
+      }
 
-      // Wait for all nodes to be properly registered
-      await new Promise(resolve => setTimeout(resolve, 100))
+      console.log('🔧 All nodes created, now establishing connections...')
 
-      // Skip connections during initialization - nodes will be connected during lazy initialization
-      console.log('⏭️ Skipping connections during initialization - lazy nodes will connect on first use')
+      // Connect in declaration order so the resulting routing is deterministic
+      const results = connectMultiple(activeConfig.graph.connections)
+      results.forEach((connected, index) => {
+        if (!connected) {
+          const { from, to } = activeConfig.graph.connections[index]
+          console.warn('⚠️ Failed to connect:', from, '->', to)
+        }
+      })
 
       // Apply modulation routes if any
       if (activeConfig.graph.modulation) {
@@ -427,7 +488,22 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     } catch (error) {
       console.error('❌ Failed to initialize audio graph:', error)
     }
-  }, [config, createNode, addModulationRoute])
+  }, [config, createNode, getNodeById, initializeNodeInstance, connectMultiple, addModulationRoute])
+
+  // Dispose nodes in reverse topological order so consumers go before their sources
+  const disposeGraphNodes = useCallback((graphConfig: AudioGraphConfig | null) => {
+    const disposalOrder = graphConfig ? getTopologicalOrder(graphConfig.graph).reverse() : []
+    const untrackedNodeIds = getAllNodes()
+      .map(node => node.id)
+      .filter(nodeId => !disposalOrder.includes(nodeId))
+    
+    for (const nodeId of [...disposalOrder, ...untrackedNodeIds]) {
+      if (getNodeById(nodeId)) {
+        disposeNode(nodeId)
+      }
+    }
+    setActiveVoices([])
+  }, [getAllNodes, getNodeById, disposeNode, setActiveVoices])
 
   // Handle config changes with proper cleanup
   useEffect(() => {
@@ -455,13 +531,17 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
         setIsPlaying(false)
       }
       
+      // Tear down connections before the nodes they reference are disposed
+      clearAllConnections()
+      clearAllModulationRoutes()
+      
       // Cleanup existing nodes
-      for (const [nodeId] of nodes) {
-        disposeNode(nodeId)
-      }
+      disposeGraphNodes(config)
       
-      // Update config and reset state
+      // Update config and reset state; edits to the previous graph can no longer be undone
+      currentConfigRef.current = initialConfig
       updateConfig(() => initialConfig)
+      clearHistory()
       graphStateRef.current.isInitialized = false
       setIsGraphInitialized(false)
       setWaveformData(null)
@@ -556,6 +636,48 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     })
   }, [updateConfig])
 
+  // Apply an edit to the config and record it for undo.
+  // Edits with the same coalesceKey in quick succession (e.g. a slider drag) form one undo step.
+  const editGraphConfig = useCallback((recipe: (draft: Draft<AudioGraphConfig>) => void, coalesceKey?: string) => {
+    const currentConfig = currentConfigRef.current
+    if (!currentConfig) return
+
+    const [nextConfig, patches, inversePatches] = produceWithPatches(currentConfig, recipe)
+    if (patches.length === 0) return
+
+    // Keep the ref current so rapid edits build on each other before React re-renders
+    currentConfigRef.current = nextConfig
+    updateConfig(() => nextConfig)
+    recordHistory(patches, inversePatches, coalesceKey)
+  }, [updateConfig, recordHistory])
+
+  const regenerateWaveform = useCallback(async () => {
+    try {
+      const newWaveformData = await generateWaveformData()
+      setWaveformData(newWaveformData)
+    } catch (error) {
+      console.error('❌ Error regenerating waveform after settings update:', error)
+    }
+  }, [generateWaveformData])
+
+  // Regenerating renders offline, so bulk edits schedule it instead of waiting; rapid calls share one render
+  const waveformTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const scheduleWaveformRegeneration = useCallback(() => {
+    if (waveformTimerRef.current) {
+      clearTimeout(waveformTimerRef.current)
+    }
+    waveformTimerRef.current = setTimeout(() => {
+      waveformTimerRef.current = null
+      regenerateWaveform()
+    }, 500)
+  }, [regenerateWaveform])
+
+  useEffect(() => () => {
+    if (waveformTimerRef.current) {
+      clearTimeout(waveformTimerRef.current)
+    }
+  }, [])
+
   // Update node settings within the graph
   const updateNodeInGraph = useCallback(async (nodeId: string, settings: Record<string, unknown>) => {
     await updateNodeSettings(nodeId, settings)
@@ -564,8 +686,8 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     applyModulation(nodeId)
     
     // Update config to keep it in sync with live state
-    updateConfig(draft => {
-      if (draft?.graph.nodes[nodeId]) {
+    editGraphConfig(draft => {
+      if (draft.graph.nodes[nodeId]) {
         // Ensure settings object exists
         if (!draft.graph.nodes[nodeId].settings) {
           draft.graph.nodes[nodeId].settings = {}
@@ -573,21 +695,317 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
         
         Object.assign(draft.graph.nodes[nodeId].settings, settings)
       }
-    })
+    }, `settings:${nodeId}:${Object.keys(settings).sort().join(',')}`)
     
     // Regenerate waveform when node settings change
     // This is needed because parameter changes don't change the config structure
-    // Regenerate waveform with current live data (no setTimeout needed)
-    try {
-      const newWaveformData = await generateWaveformData()
-      setWaveformData(newWaveformData)
-    } catch (error) {
-      console.error('❌ Error regenerating waveform after settings update:', error)
+    await regenerateWaveform()
+  }, [updateNodeSettings, applyModulation, editGraphConfig, regenerateWaveform])
+
+  // Re-apply settings that differ between two versions of the graph to the live nodes.
+  // Patches keep untouched objects identical, so only changed top-level keys are re-applied; new nodes are skipped.
+  // Keys the next version drops go back to the node's defaults, otherwise the live node keeps the old value.
+  const syncLiveSettings = useCallback(async (
+    previousNodes: AudioGraphConfig['graph']['nodes'],
+    nextNodes: AudioGraphConfig['graph']['nodes']
+  ) => {
+    for (const [nodeId, nodeDefinition] of Object.entries(nextNodes)) {
+      if (!previousNodes[nodeId]) continue
+      const previousSettings = previousNodes[nodeId].settings || {}
+      const nextSettings = nodeDefinition.settings || {}
+      if (previousSettings === nextSettings) continue
+
+      const changedSettings = getSettingsChanges(previousSettings, nextSettings, getToneDefaults(getNodeById(nodeId)?.instance))
+      if (Object.keys(changedSettings).length > 0) {
+        await updateNodeSettings(nodeId, changedSettings)
+        applyModulation(nodeId)
+      }
+    }
+  }, [getNodeById, updateNodeSettings, applyModulation])
+
+  // Replace the settings of several nodes at once (A/B compare) as a single undo step.
+  // The waveform is redrawn afterwards so it doesn't hold up playing the new settings.
+  const applySettingsSnapshotInGraph = useCallback(async (snapshot: Record<string, Record<string, unknown>>) => {
+    const previousConfig = currentConfigRef.current
+    if (!previousConfig) return
+
+    editGraphConfig(draft => {
+      for (const [nodeId, settings] of Object.entries(snapshot)) {
+        const previousNode = previousConfig.graph.nodes[nodeId]
+        if (previousNode && previousNode.settings !== settings) {
+          draft.graph.nodes[nodeId].settings = settings
+        }
+      }
+    })
+
+    const nextConfig = currentConfigRef.current
+    if (!nextConfig || nextConfig === previousConfig) return
+
+    await syncLiveSettings(previousConfig.graph.nodes, nextConfig.graph.nodes)
+    scheduleWaveformRegeneration()
+  }, [editGraphConfig, syncLiveSettings, scheduleWaveformRegeneration])
+
+  // Connect two nodes in the live graph and record the connection in the config
+  const connectInGraph = useCallback((from: string, to: string, signalType: SignalType = 'audio'): boolean => {
+    if (!connect(from, to, signalType)) {
+      return false
+    }
+    editGraphConfig(draft => {
+      draft.graph.connections.push({ from, to, signalType })
+    })
+    return true
+  }, [connect, editGraphConfig])
+
+  const disconnectInGraph = useCallback((from: string, to: string): boolean => {
+    if (!disconnect(from, to)) {
+      return false
+    }
+    editGraphConfig(draft => {
+      draft.graph.connections = draft.graph.connections.filter(connection => connection.from !== from || connection.to !== to)
+    })
+    return true
+  }, [disconnect, editGraphConfig])
+
+  const addModulationInGraph = useCallback((route: ModulationRoute): boolean => {
+    if (!addModulationRoute(route)) {
+      return false
+    }
+    editGraphConfig(draft => {
+      draft.graph.modulation = [...(draft.graph.modulation || []), route]
+    })
+    return true
+  }, [addModulationRoute, editGraphConfig])
+
+  const removeModulationInGraph = useCallback((source: string, destination: string): boolean => {
+    if (!removeModulationRoute(source, destination)) {
+      return false
+    }
+    editGraphConfig(draft => {
+      draft.graph.modulation = draft.graph.modulation?.filter(route => route.source !== source || route.destination !== destination)
+    })
+    return true
+  }, [removeModulationRoute, editGraphConfig])
+
+  const updateModulationInGraph = useCallback((source: string, destination: string, amount: number): boolean => {
+    if (!updateModulationAmount(source, destination, amount)) {
+      return false
     }
-  }, [updateNodeSettings, applyModulation, updateConfig, generateWaveformData])
+    editGraphConfig(draft => {
+      const route = draft.graph.modulation?.find(candidate => candidate.source === source && candidate.destination === destination)
+      if (route) {
+        route.amount = amount
+      }
+    }, `modulation:${source}->${destination}`)
+    return true
+  }, [updateModulationAmount, editGraphConfig])
+
+  // Set a route's amount, adding the route if the patch doesn't have it yet (dragging a matrix knob up from zero).
+  // Checks the config ref, which rapid edits keep current, rather than rendered state that lags behind a drag.
+  const setModulationAmountInGraph = useCallback((route: ModulationRoute): boolean => {
+    const exists = currentConfigRef.current?.graph.modulation?.some(
+      candidate => candidate.source === route.source && candidate.destination === route.destination
+    )
+    return exists
+      ? updateModulationInGraph(route.source, route.destination, route.amount)
+      : addModulationInGraph(route)
+  }, [addModulationInGraph, updateModulationInGraph])
+
+  // Switch a route on or off without losing its amount; disabled routes stay in the patch
+  const setModulationEnabledInGraph = useCallback((source: string, destination: string, enabled: boolean): boolean => {
+    const route = currentConfigRef.current?.graph.modulation?.find(candidate => candidate.source === source && candidate.destination === destination)
+    if (!route || !removeModulationRoute(source, destination)) {
+      return false
+    }
+    if (!addModulationRoute({ ...route, enabled })) {
+      // Put the route back the way it was so the live graph keeps matching the config
+      addModulationRoute(route)
+      return false
+    }
+    editGraphConfig(draft => {
+      const draftRoute = draft.graph.modulation?.find(candidate => candidate.source === source && candidate.destination === destination)
+      if (draftRoute) {
+        draftRoute.enabled = enabled
+      }
+    })
+    return true
+  }, [removeModulationRoute, addModulationRoute, editGraphConfig])
+
+  // Bind a MIDI controller to a parameter; a parameter has at most one controller
+  const bindMidiControllerInGraph = useCallback((binding: MidiCCBinding) => {
+    editGraphConfig(draft => {
+      draft.graph.midiBindings = [
+        ...(draft.graph.midiBindings || []).filter(existing => existing.target !== binding.target),
+        binding
+      ]
+    })
+  }, [editGraphConfig])
+
+  const unbindMidiControllerInGraph = useCallback((target: string) => {
+    editGraphConfig(draft => {
+      draft.graph.midiBindings = draft.graph.midiBindings?.filter(binding => binding.target !== target)
+    })
+  }, [editGraphConfig])
+
+  // Replace the step sequencer pattern; tempo and per-step edits coalesce so a slider drag is one undo step
+  const updateSequenceInGraph = useCallback((sequence: StepSequence, coalesceKey?: string) => {
+    editGraphConfig(draft => {
+      draft.graph.sequence = sequence
+    }, coalesceKey ? `sequence:${coalesceKey}` : undefined)
+  }, [editGraphConfig])
+
+  // Create a node (with its Tone.js instance) and add it to the config
+  const addNodeToGraph = useCallback(async (nodeId: string, definition: AudioNodeDefinition): Promise<boolean> => {
+    if (currentConfigRef.current?.graph.nodes[nodeId] || getNodeById(nodeId)) {
+      console.warn('⚠️ Node already exists:', nodeId)
+      return false
+    }
+
+    const node = await createNode(nodeId, definition)
+    if (!node || !(await initializeNodeInstance(node))) {
+      console.error('❌ Failed to add node:', nodeId)
+      if (node) disposeNode(nodeId)
+      return false
+    }
+
+    editGraphConfig(draft => {
+      draft.graph.nodes[nodeId] = definition
+    })
+    return true
+  }, [getNodeById, createNode, initializeNodeInstance, disposeNode, editGraphConfig])
+
+  // Remove a node together with every connection and modulation route touching it (one undo step)
+  const removeNodeFromGraph = useCallback((nodeId: string): boolean => {
+    if (!currentConfigRef.current?.graph.nodes[nodeId]) {
+      console.warn('⚠️ Cannot remove unknown node:', nodeId)
+      return false
+    }
+
+    disconnectNode(nodeId)
+    removeNodeModulationRoutes(nodeId)
+    if (getNodeById(nodeId)) {
+      disposeNode(nodeId)
+    }
+
+    const touchesNode = (endpoint: string) => parseConnectionString(endpoint).nodeId === nodeId
+    editGraphConfig(draft => {
+      delete draft.graph.nodes[nodeId]
+      draft.graph.connections = draft.graph.connections.filter(connection => !touchesNode(connection.from) && !touchesNode(connection.to))
+      if (draft.graph.modulation) {
+        draft.graph.modulation = draft.graph.modulation.filter(route => !touchesNode(route.source) && parseParameterPath(route.destination).nodeId !== nodeId)
+      }
+      if (draft.graph.midiBindings) {
+        draft.graph.midiBindings = draft.graph.midiBindings.filter(binding => parseParameterPath(binding.target).nodeId !== nodeId)
+      }
+    })
+    return true
+  }, [disconnectNode, removeNodeModulationRoutes, getNodeById, disposeNode, editGraphConfig])
+
+  // Store where a node sits in the patch editor; repeated moves of one node coalesce
+  const moveNodeInGraph = useCallback((nodeId: string, position: NodePosition) => {
+    editGraphConfig(draft => {
+      if (draft.graph.nodes[nodeId]) {
+        draft.graph.nodes[nodeId].position = position
+      }
+    }, `position:${nodeId}`)
+  }, [editGraphConfig])
+
+  // Bring the live Tone.js graph in line with a config reached through undo/redo
+  const syncLiveGraph = useCallback(async (previousConfig: AudioGraphConfig, nextConfig: AudioGraphConfig) => {
+    const removedNodeIds = Object.keys(previousConfig.graph.nodes).filter(nodeId => !nextConfig.graph.nodes[nodeId])
+    const addedNodeIds = Object.keys(nextConfig.graph.nodes).filter(nodeId => !previousConfig.graph.nodes[nodeId])
+
+    // Removed nodes go first, taking their connections and routes with them
+    for (const nodeId of removedNodeIds) {
+      disconnectNode(nodeId)
+      removeNodeModulationRoutes(nodeId)
+      if (getNodeById(nodeId)) {
+        disposeNode(nodeId)
+      }
+    }
+
+    // Added nodes need live instances before anything can connect to them
+    for (const nodeId of addedNodeIds) {
+      const node = await createNode(nodeId, nextConfig.graph.nodes[nodeId])
+      if (!node || !(await initializeNodeInstance(node))) {
+        console.warn('⚠️ Failed to restore node:', nodeId)
+      }
+    }
+
+    await syncLiveSettings(previousConfig.graph.nodes, nextConfig.graph.nodes)
+
+    // Connections
+    const nextConnectionKeys = new Set(nextConfig.graph.connections.map(connectionKey))
+    const previousConnectionKeys = new Set(previousConfig.graph.connections.map(connectionKey))
+    const removedNode = (endpoint: string) => removedNodeIds.includes(parseConnectionString(endpoint).nodeId)
+    for (const connection of previousConfig.graph.connections) {
+      if (!nextConnectionKeys.has(connectionKey(connection)) && !removedNode(connection.from) && !removedNode(connection.to)) {
+        disconnect(connection.from, connection.to)
+      }
+    }
+    for (const connection of nextConfig.graph.connections) {
+      if (!previousConnectionKeys.has(connectionKey(connection))) {
+        connect(connection.from, connection.to, connection.signalType)
+      }
+    }
+
+    // Modulation routes
+    const previousRoutes = new Map((previousConfig.graph.modulation || []).map(route => [routeKey(route), route]))
+    const nextRoutes = new Map((nextConfig.graph.modulation || []).map(route => [routeKey(route), route]))
+    for (const [key, route] of previousRoutes) {
+      if (!nextRoutes.has(key) && !removedNode(route.source) && !removedNode(route.destination)) {
+        removeModulationRoute(route.source, route.destination)
+      }
+    }
+    for (const [key, route] of nextRoutes) {
+      const previousRoute = previousRoutes.get(key)
+      if (!previousRoute) {
+        addModulationRoute(route)
+      } else if (previousRoute !== route) {
+        // Scale and enabled changes need the route rebuilt, amount alone can be updated in place
+        if (previousRoute.scale !== route.scale || previousRoute.enabled !== route.enabled) {
+          removeModulationRoute(route.source, route.destination)
+          addModulationRoute(route)
+        } else {
+          updateModulationAmount(route.source, route.destination, route.amount)
+        }
+      }
+    }
+
+    await regenerateWaveform()
+  }, [
+    disconnectNode, removeNodeModulationRoutes, getNodeById, disposeNode, createNode, initializeNodeInstance,
+    syncLiveSettings, connect, disconnect, addModulationRoute, removeModulationRoute, updateModulationAmount,
+    regenerateWaveform
+  ])
+
+  const applyHistoryPatches = useCallback(async (patches: Patch[]) => {
+    const previousConfig = currentConfigRef.current
+    if (!previousConfig) return
 
-  // Trigger the graph (start playback)
-  const triggerGraph = useCallback(async (note?: string | number) => {
+    const nextConfig = applyPatches(previousConfig, patches)
+    currentConfigRef.current = nextConfig
+    updateConfig(() => nextConfig)
+    await syncLiveGraph(previousConfig, nextConfig)
+  }, [updateConfig, syncLiveGraph])
+
+  const undo = useCallback(async () => {
+    const patches = popUndoStep()
+    if (patches) {
+      console.log('↩️ Undo')
+      await applyHistoryPatches(patches)
+    }
+  }, [popUndoStep, applyHistoryPatches])
+
+  const redo = useCallback(async () => {
+    const patches = popRedoStep()
+    if (patches) {
+      console.log('↪️ Redo')
+      await applyHistoryPatches(patches)
+    }
+  }, [popRedoStep, applyHistoryPatches])
+
+  // Trigger the graph (start playback); velocity is 0-1 and defaults to full
+  const triggerGraph = useCallback(async (note?: string | number, velocity?: number) => {
     if (!config) return
     
     console.log('🎵 triggerGraph called, initialized:', graphStateRef.current.isInitialized)
@@ -635,6 +1053,29 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
 
     console.log('🎵 Found trigger nodes:', triggerNodes)
 
+    // Voice allocation for sustained graphs: a PolySynth or Sampler keeps up to maxPolyphony notes, other instruments one.
+    // Without a note (play button) every voice is replaced by the preset frequency.
+    let voicesToRelease: ActiveVoice[] = []
+    if (config.graph.trigger === 'sustained') {
+      const triggerDefinitions = triggerNodes.map(nodeId => config.graph.nodes[nodeId])
+      const polyphonicDefinition = triggerDefinitions.find(definition => isPolyphonicNodeType(definition.type))
+      const polyphonicSettings = polyphonicDefinition?.settings || {}
+      const maxPolyphony = polyphonicDefinition ? polyphonicSettings.maxPolyphony ?? DEFAULT_MAX_POLYPHONY : 1
+      const stealingPolicy: VoiceStealingPolicy = polyphonicSettings.voiceStealing ?? DEFAULT_VOICE_STEALING
+      const voiceNote = note ?? triggerDefinitions[0]?.settings?.frequency ?? 440
+
+      voicesToRelease = note === undefined
+        ? activeVoicesRef.current
+        : getVoicesToRelease(activeVoicesRef.current, voiceNote, maxPolyphony, stealingPolicy)
+      setActiveVoices([
+        ...activeVoicesRef.current.filter(voice => !voicesToRelease.includes(voice)),
+        { note: voiceNote, velocity: velocity ?? 1, startedAt: ++voiceCounterRef.current }
+      ])
+      if (voicesToRelease.length > 0) {
+        console.log('🎹 Freeing voices before new attack:', voicesToRelease.map(voice => voice.note))
+      }
+    }
+
     // Trigger all trigger nodes
     for (const nodeId of triggerNodes) {
       const node = getNodeById(nodeId)
@@ -664,55 +1105,23 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
           // This lets the instrument's envelope handle the amplitude curve naturally
           
           // Calculate timing based on instrument type
-          let releaseStartTime: number
-          let totalDuration: number
-          
-          if (node.type === 'MetalSynth') {
-            // MetalSynth has envelope: attack: 0.001, decay: 1.4, release: 0.2, sustain: 0
-            const envelope = node.settings.envelope || {}
-            const attackTime = envelope.attack || 0.001
-            const decayTime = envelope.decay || 1.4
-            const releaseTime = envelope.release || 0.2
-            
-            // MetalSynth has sustain=0, so it's attack+decay, then release
-            releaseStartTime = attackTime + decayTime
-            totalDuration = releaseStartTime + releaseTime
-          } else if (node.type === 'NoiseSynth') {
-            // Use NoiseSynth envelope settings
-            const envelope = node.settings.envelope || {}
-            const attackTime = envelope.attack || 0.005
-            const decayTime = envelope.decay || 0.3
-            const releaseTime = envelope.release || 0.3
-            
-            releaseStartTime = attackTime + decayTime + 0.1 // Short sustain for noise
-            totalDuration = releaseStartTime + releaseTime
-          } else {
-            // Standard envelope-based instruments (MembraneSynth, etc.)
-            const envelope = node.settings.envelope || {}
-            const attackTime = envelope.attack || 0.001
-            const decayTime = envelope.decay || 0.4
-            const sustainDuration = envelope.sustainDuration || 0.1
-            const releaseTime = envelope.release || 1.4
-            
-            releaseStartTime = attackTime + decayTime + sustainDuration
-            totalDuration = releaseStartTime + releaseTime
-          }
+          const { releaseStart: releaseStartTime, totalDuration } = getMomentaryTiming(node.type, node.settings)
           
           // Handle different instrument types for triggering
           if (node.type === 'NoiseSynth') {
             // NoiseSynth doesn't need a note parameter
             console.log(`🔊 Triggering ${node.type} attack (no note)`)
-            toneNode.triggerAttack()
+            toneNode.triggerAttack(undefined, velocity)
           } else if (node.type === 'MetalSynth') {
             // MetalSynth needs a frequency/note parameter
             const noteToPlay = note || node.settings.frequency || 440
             console.log(`🔊 Triggering MetalSynth attack with note:`, noteToPlay)
-            toneNode.triggerAttack(noteToPlay)
+            toneNode.triggerAttack(noteToPlay, undefined, velocity)
           } else {
             // Other instruments need a note
             const noteToPlay = note || 'C2'
             console.log('🥁 Triggering attack:', noteToPlay)
-            toneNode.triggerAttack(noteToPlay)
+            toneNode.triggerAttack(noteToPlay, undefined, velocity)
           }
           
           console.log('🥁 Release timing - start at:', releaseStartTime + 's', 'total duration:', totalDuration + 's')
@@ -729,15 +1138,15 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
           setTimeout(() => setIsPlaying(false), Math.max(150, totalDuration * 1000))
         } else {
           // For synth style - sustained note
-          // Release any currently playing note first to prevent overlapping
-          if ('triggerRelease' in toneNode && isPlaying) {
-            console.log('🎹 Releasing current note before new attack')
-            
-            // Special handling for PolySynth
-            if (node.type === 'PolySynth') {
-              if ('releaseAll' in toneNode) {
-                console.log('🔇 PolySynth: Releasing all voices before new attack')
+          // Release the voices the allocator gave up (a repeated or stolen note) to prevent overlapping
+          if ('triggerRelease' in toneNode && voicesToRelease.length > 0) {
+            // Polyphonic instruments release only the freed notes so the rest of the chord keeps sounding
+            if (isPolyphonicNodeType(node.type)) {
+              if (note === undefined && 'releaseAll' in toneNode) {
+                console.log(`🔇 ${node.type}: Releasing all voices before new attack`)
                 toneNode.releaseAll()
+              } else {
+                voicesToRelease.forEach(voice => toneNode.triggerRelease(voice.note))
               }
             } else {
               toneNode.triggerRelease()
@@ -748,13 +1157,13 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
           if (node.type === 'NoiseSynth') {
             // NoiseSynth doesn't need a note parameter
             console.log(`🔊 Triggering sustained ${node.type} attack (no note)`)
-            toneNode.triggerAttack()
+            toneNode.triggerAttack(undefined, velocity)
           } else {
             // MetalSynth and other instruments need a note parameter
             const currentFrequency = node.settings.frequency || 440
             const noteToPlay = note || currentFrequency
             console.log(`🎹 Triggering sustained ${node.type} note (triggerAttack):`, noteToPlay)
-            toneNode.triggerAttack(noteToPlay)
+            toneNode.triggerAttack(noteToPlay, undefined, velocity)
           }
           setIsPlaying(true)
         }
@@ -762,20 +1171,52 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
         console.warn('⚠️ Node not triggerable:', nodeId)
       }
     }
-  }, [config, getNodeById, waveformData, generateWaveformData, initializeNodeInstance, isPlaying])
+  }, [config, getNodeById, waveformData, generateWaveformData, initializeNodeInstance, setActiveVoices])
+
+  // Play a complete note on every trigger node at an AudioContext time, for sample-accurate scheduling (step sequencer).
+  // Bypasses voice allocation: each note releases itself after `duration` seconds.
+  const playNoteAt = useCallback((note: string | number, duration: number, time: number, velocity?: number) => {
+    const graphConfig = currentConfigRef.current
+    if (!graphConfig || !graphStateRef.current.isInitialized) return
 
-  // Release the graph (stop playback for sustained notes)
-  const releaseGraph = useCallback(() => {
+    for (const [nodeId, nodeDef] of Object.entries(graphConfig.graph.nodes)) {
+      if (!nodeDef.trigger) continue
+      const node = getNodeById(nodeId)
+      if (!node?.instance || !('triggerAttackRelease' in node.instance)) {
+        console.warn('⚠️ Cannot schedule note on node:', nodeId)
+        continue
+      }
+
+      if (node.type === 'NoiseSynth') {
+        node.instance.triggerAttackRelease(duration, time, velocity)
+      } else {
+        node.instance.triggerAttackRelease(note, duration, time, velocity)
+      }
+    }
+  }, [getNodeById])
+
+  // Release the graph (stop playback for sustained notes); a note releases only the voice it holds
+  const releaseGraph = useCallback((note?: string | number) => {
     console.log('🛑 releaseGraph called')
     
     // Always attempt to stop any playing audio, regardless of initialization state
     // This fixes the race condition where config changes clear isInitialized but we still need to stop audio
-    if (!isPlaying) {
+    if (!isPlaying && activeVoicesRef.current.length === 0) {
       console.log('⏭️ Skipping release - not playing')
       return
     }
     
     if (!config) return
+
+    // A note that no longer holds a voice (stolen, or replaced on a monophonic synth) has nothing to release
+    const voicesToRelease = note === undefined
+      ? activeVoicesRef.current
+      : activeVoicesRef.current.filter(voice => voice.note === note)
+    if (note !== undefined && voicesToRelease.length === 0) {
+      console.log('⏭️ Skipping release - note holds no voice:', note)
+      return
+    }
+    setActiveVoices(activeVoicesRef.current.filter(voice => !voicesToRelease.includes(voice)))
     
     // Try to release using current nodes first (most reliable)
     let releasedAnyNode = false
@@ -789,16 +1230,19 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
         console.log('🔇 Releasing node:', nodeId)
         const toneNode = node.instance // as Tone.Synth | Tone.MembraneSynth
         
-        // Special handling for PolySynth which requires note parameter
-        if (node.type === 'PolySynth') {
-          // PolySynth needs to release all active voices - use releaseAll()
-          if ('releaseAll' in toneNode) {
-            console.log('🔇 PolySynth: Releasing all voices')
+        // Special handling for polyphonic instruments, which release by note
+        if (isPolyphonicNodeType(node.type)) {
+          if (note !== undefined) {
+            console.log(`🔇 ${node.type}: Releasing note:`, note)
+            toneNode.triggerRelease(note)
+          } else if ('releaseAll' in toneNode) {
+            // Release all active voices - use releaseAll()
+            console.log(`🔇 ${node.type}: Releasing all voices`)
             toneNode.releaseAll()
           } else {
             // Fallback: try to release the frequency that was triggered
             const frequency = node.settings.frequency || 440
-            console.log('🔇 PolySynth: Releasing specific note:', frequency)
+            console.log(`🔇 ${node.type}: Releasing specific note:`, frequency)
             toneNode.triggerRelease(frequency)
           }
         } else {
@@ -831,8 +1275,8 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
       }
     }
     
-    setIsPlaying(false)
-  }, [config, getNodeById, isPlaying])
+    setIsPlaying(activeVoicesRef.current.length > 0)
+  }, [config, getNodeById, isPlaying, setActiveVoices])
 
   // Get waveform data for visualization
   const getWaveformData = useCallback((): Float32Array | null => {
@@ -843,10 +1287,12 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
   const cleanup = useCallback(() => {
     console.log('🧹 Cleaning up audio graph')
     
+    // Disconnect before disposing so no Tone.js connection outlives its nodes
+    clearAllConnections()
+    clearAllModulationRoutes()
+    
     // Dispose all nodes
-    for (const [nodeId] of nodes) {
-      disposeNode(nodeId)
-    }
+    disposeGraphNodes(config)
     
     // Clear state
     graphStateRef.current = {
@@ -856,19 +1302,40 @@ export function useAudioGraph(initialConfig: AudioGraphConfig | null) {
     }
     
     setIsPlaying(false)
-  }, [nodes, disposeNode])
+  }, [config, disposeGraphNodes, clearAllConnections, clearAllModulationRoutes])
 
   return {
     config: initialConfig ? config : null,
     isPlaying: initialConfig ? isPlaying : false,
+    isGraphInitialized: initialConfig ? isGraphInitialized : false,
     nodes: initialConfig ? nodes : new Map(),
     connections: initialConfig ? connections : [],
     modulationRoutes: initialConfig ? modulationRoutes : [],
     updateConfig: initialConfig ? updateGraphConfig : () => {},
     updateNodeInGraph: initialConfig ? updateNodeInGraph : async () => {},
+    applySettingsSnapshotInGraph: initialConfig ? applySettingsSnapshotInGraph : async () => {},
+    addNodeToGraph: initialConfig ? addNodeToGraph : async () => false,
+    removeNodeFromGraph: initialConfig ? removeNodeFromGraph : () => false,
+    moveNodeInGraph: initialConfig ? moveNodeInGraph : () => {},
+    connectInGraph: initialConfig ? connectInGraph : () => false,
+    disconnectInGraph: initialConfig ? disconnectInGraph : () => false,
+    addModulationInGraph: initialConfig ? addModulationInGraph : () => false,
+    removeModulationInGraph: initialConfig ? removeModulationInGraph : () => false,
+    updateModulationInGraph: initialConfig ? updateModulationInGraph : () => false,
+    setModulationAmountInGraph: initialConfig ? setModulationAmountInGraph : () => false,
+    setModulationEnabledInGraph: initialConfig ? setModulationEnabledInGraph : () => false,
+    bindMidiControllerInGraph: initialConfig ? bindMidiControllerInGraph : () => {},
+    unbindMidiControllerInGraph: initialConfig ? unbindMidiControllerInGraph : () => {},
+    undo: initialConfig ? undo : async () => {},
+    redo: initialConfig ? redo : async () => {},
+    canUndo: initialConfig ? canUndo : false,
+    canRedo: initialConfig ? canRedo : false,
     initializeGraph: initialConfig ? initializeGraph : async () => {},
     triggerGraph: initialConfig ? triggerGraph : async () => {},
     releaseGraph: initialConfig ? releaseGraph : () => {},
+    playNoteAt: initialConfig ? playNoteAt : () => {},
+    updateSequenceInGraph: initialConfig ? updateSequenceInGraph : () => {},
+    activeVoiceCount: initialConfig ? activeVoiceCount : 0,
     getWaveformData: initialConfig ? getWaveformData : () => null,
     cleanup: initialConfig ? cleanup : () => {}
   }
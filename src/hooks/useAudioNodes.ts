@@ -1,9 +1,17 @@
 import { useState, useCallback, useRef } from 'react'
 import { getToneModule } from '../utils/toneLoader'
 import type { AudioNodeType, AudioNodeDefinition, NodeInstance } from '../types/audioGraph'
+import { DEFAULT_MAX_POLYPHONY, getToneMaxPolyphony } from '../utils/voiceAllocation'
+import { ZonedSampler } from '../utils/zonedSampler'
+
+// Constructor option defaults of a Tone.js instance, without class-valued options like PolySynth's voice
+export const getToneDefaults = (instance: any): Record<string, unknown> => { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const defaults = instance?.constructor?.getDefaults?.() ?? {}
+  return Object.fromEntries(Object.entries(defaults).filter(([, value]) => typeof value !== 'function'))
+}
 
 // Factory function to create Tone.js instances based on node type
-const createToneInstance = (type: AudioNodeType, settings: Record<string, any> = {}): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
+export const createToneInstance = (type: AudioNodeType, settings: Record<string, any> = {}): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
   const Tone = getToneModule()
   if (!Tone) {
     throw new Error('Tone.js not loaded yet')
@@ -66,9 +74,9 @@ const createToneInstance = (type: AudioNodeType, settings: Record<string, any> =
         console.log('🎹 Creating PolySynth with voice options:', voiceOptions)
         const polySynth = new Tone.PolySynth(Tone.Synth, voiceOptions)
         
-        // Apply maxPolyphony separately if supported
+        // Apply maxPolyphony separately if supported; the graph's voice allocator enforces the playable limit
         if ('maxPolyphony' in polySynth) {
-          polySynth.maxPolyphony = settings.maxPolyphony || 8
+          polySynth.maxPolyphony = getToneMaxPolyphony(settings.maxPolyphony || DEFAULT_MAX_POLYPHONY)
         }
         
         return polySynth
@@ -78,7 +86,8 @@ const createToneInstance = (type: AudioNodeType, settings: Record<string, any> =
       case 'NoiseSynth':
         return new Tone.NoiseSynth(settings)
       case 'Sampler':
-        return new Tone.Sampler(settings)
+        // Plays the node's zones from the local sample store
+        return new ZonedSampler(settings)
       
       // Oscillators and LFOs
       case 'Oscillator':
@@ -86,7 +95,7 @@ const createToneInstance = (type: AudioNodeType, settings: Record<string, any> =
       case 'LFO':
         return new Tone.LFO(settings)
       
-      // Filters and Effects
+      // Filters and Effects (LFO-driven effects are started so they modulate without a separate call)
       case 'Filter':
         return new Tone.Filter(settings)
       case 'Gain':
@@ -98,13 +107,13 @@ const createToneInstance = (type: AudioNodeType, settings: Record<string, any> =
       case 'Distortion':
         return new Tone.Distortion(settings)
       case 'Chorus':
-        return new Tone.Chorus(settings)
+        return new Tone.Chorus(settings).start()
       case 'PingPongDelay':
         return new Tone.PingPongDelay(settings)
       case 'AutoFilter':
-        return new Tone.AutoFilter(settings)
+        return new Tone.AutoFilter(settings).start()
       case 'AutoPanner':
-        return new Tone.AutoPanner(settings)
+        return new Tone.AutoPanner(settings).start()
       case 'AutoWah':
         return new Tone.AutoWah(settings)
       case 'BitCrusher':
@@ -120,7 +129,7 @@ const createToneInstance = (type: AudioNodeType, settings: Record<string, any> =
       case 'Phaser':
         return new Tone.Phaser(settings)
       case 'Tremolo':
-        return new Tone.Tremolo(settings)
+        return new Tone.Tremolo(settings).start()
       case 'Vibrato':
         return new Tone.Vibrato(settings)
       
@@ -265,6 +274,11 @@ const transformSettingsForNodeType = (nodeType: AudioNodeType, settings: Record<
     if ('voice' in settings) {
       console.log('🔧 PolySynth voice update detected:', settings.voice)
     }
+    // Voice limit and stealing are enforced by the graph's voice allocator, not by Tone.js
+    if ('maxPolyphony' in settings) {
+      transformed.maxPolyphony = getToneMaxPolyphony(settings.maxPolyphony)
+    }
+    delete transformed.voiceStealing
   }
 
   return transformed
@@ -326,14 +340,9 @@ export function useAudioNodes() {
         throw new Error('Tone.js not loaded - initialization should have been completed')
       }
       
+      // Routing to the destination is left to the graph's connections (Output nodes connect themselves)
       nodeInstance.instance = createToneInstance(nodeInstance.type, nodeInstance.settings)
       
-      // If this is a trigger node, connect it to destination
-      if (nodeInstance.instance && typeof nodeInstance.instance.toDestination === 'function') {
-        nodeInstance.instance.toDestination()
-        console.log('✅ Connected lazy node to destination:', nodeInstance.id)
-      }
-      
       return true
     } catch (error) {
       console.error('❌ Failed to lazy initialize node:', nodeInstance.id, error)
@@ -384,10 +393,18 @@ export function useAudioNodes() {
           console.error('❌ Failed to apply PolySynth voice settings:', error)
         }
         // Create new settings object without voice to avoid double-processing
-        const { voice, ...remainingSettings } = transformedSettings
+        const remainingSettings = { ...transformedSettings }
+        delete remainingSettings.voice
         settingsToProcess = remainingSettings
       }
       
+      // Sampler zones are an array; the instance reloads only the zones whose sample changed
+      if (node.type === 'Sampler' && 'zones' in settingsToProcess) {
+        instance.zones = settingsToProcess.zones || []
+        settingsToProcess = { ...settingsToProcess }
+        delete settingsToProcess.zones
+      }
+      
       for (const [key, value] of Object.entries(settingsToProcess)) {
         console.log(`🔍 Processing property: ${key} =`, value)
         if (instance[key] !== undefined) {
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+  DEFAULT_KEYBOARD_OCTAVE,
+  MAX_KEYBOARD_OCTAVE,
+  MIN_KEYBOARD_OCTAVE,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+  getNoteForKey,
+  isTextEntryTarget
+} from '../utils/computerKeyboard'
+
+interface UseComputerKeyboardOptions {
+  enabled: boolean
+  onNoteOn: (note: number) => void
+  onNoteOff: (note: number) => void
+}
+
+/**
+ * Plays notes from the computer keyboard (A/W/S/E… rows) with Z/X shifting the octave.
+ * Each key releases the note it started, even if the octave changed while it was held.
+ */
+export function useComputerKeyboard({ enabled, onNoteOn, onNoteOff }: UseComputerKeyboardOptions) {
+  const [octave, setOctave] = useState(DEFAULT_KEYBOARD_OCTAVE)
+  const octaveRef = useRef(octave)
+  const pressedKeysRef = useRef<Map<string, number>>(new Map()) // Key code -> note it started
+
+  const callbacksRef = useRef({ onNoteOn, onNoteOff })
+  useEffect(() => {
+    callbacksRef.current = { onNoteOn, onNoteOff }
+  }, [onNoteOn, onNoteOff])
+
+  useEffect(() => {
+    octaveRef.current = octave
+  }, [octave])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const pressedKeys = pressedKeysRef.current
+
+    const releaseAll = () => {
+      pressedKeys.forEach(note => callbacksRef.current.onNoteOff(note))
+      pressedKeys.clear()
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave shortcuts such as Ctrl+Z (undo) and typing in fields alone
+      if (event.ctrlKey || event.metaKey || event.altKey || isTextEntryTarget(event.target)) return
+      if (event.repeat) {
+        if (getNoteForKey(event.code, octaveRef.current) !== null) event.preventDefault()
+        return
+      }
+
+      if (event.code === OCTAVE_DOWN_KEY || event.code === OCTAVE_UP_KEY) {
+        const step = event.code === OCTAVE_UP_KEY ? 1 : -1
+        setOctave(current => Math.min(MAX_KEYBOARD_OCTAVE, Math.max(MIN_KEYBOARD_OCTAVE, current + step)))
+        return
+      }
+
+      const note = getNoteForKey(event.code, octaveRef.current)
+      if (note === null || pressedKeys.has(event.code)) return
+      event.preventDefault()
+      pressedKeys.set(event.code, note)
+      callbacksRef.current.onNoteOn(note)
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const note = pressedKeys.get(event.code)
+      if (note === undefined) return
+      pressedKeys.delete(event.code)
+      callbacksRef.current.onNoteOff(note)
+    }
+
+    // Key-up never arrives once the window loses focus, so let go of everything
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', releaseAll)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', releaseAll)
+      releaseAll()
+    }
+  }, [enabled])
+
+  return { octave, setOctave }
+}
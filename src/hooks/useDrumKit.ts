@@ -0,0 +1,278 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { AudioGraphConfig, SequencerStep, StepSequence } from '../types/audioGraph'
+import type { DrumKit, DrumPad } from '../types/drumKit'
+import { getToneModule } from '../utils/toneLoader'
+import { buildToneGraph, type ToneGraph } from '../utils/toneGraph'
+import { getMomentaryTiming } from '../utils/momentaryTiming'
+import { getStepVelocity } from '../utils/sequencer'
+import { isTextEntryTarget } from '../utils/computerKeyboard'
+import { MAX_KIT_PADS, findPadForKey, findPadsForNote, loadDrumKit, resizeKitPattern, saveDrumKit } from '../utils/drumKit'
+import { createDefaultDrumKit, createDrumPad } from '../config/drumKits'
+import { useSequencerTransport } from './useSequencerTransport'
+
+// A pad's graph built into Tone.js nodes, mixed through its own channel (gain and pan)
+interface PadVoice {
+  config: AudioGraphConfig // The config the nodes were built from; a new config rebuilds them
+  graph: ToneGraph
+  channel: any // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+const HIT_FLASH_MS = 120
+
+const disposePadVoice = (voice: PadVoice) => {
+  voice.graph.dispose()
+  voice.channel.dispose()
+}
+
+// Output nodes feed the pad channel instead of the speakers
+const buildPadVoice = (pad: DrumPad): PadVoice | null => {
+  const Tone = getToneModule()
+  if (!Tone) {
+    console.error('❌ Tone.js not loaded! Cannot build drum pad.')
+    return null
+  }
+
+  const channel = new Tone.Channel({ volume: Tone.gainToDb(pad.gain), pan: pad.pan }).toDestination()
+  try {
+    const graph = buildToneGraph(pad.config.graph, channel)
+    console.log('🥁 Built drum pad:', pad.name)
+    return { config: pad.config, graph, channel }
+  } catch (error) {
+    console.error('❌ Failed to build drum pad:', pad.name, error)
+    channel.dispose()
+    return null
+  }
+}
+
+/**
+ * Drum kit mode: several instrument graphs loaded at once, one per pad, each with its own gain and pan.
+ * Pads play from clicks, the home-row keys (A S D F…), MIDI notes and the kit's own step pattern.
+ * The kit is kept in localStorage; its nodes only exist while the kit is enabled.
+ */
+export function useDrumKit(enabled: boolean) {
+  const [kit, setKit] = useState<DrumKit>(() => loadDrumKit() ?? createDefaultDrumKit())
+  const [hitPadIds, setHitPadIds] = useState<string[]>([])
+  const voicesRef = useRef<Map<string, PadVoice>>(new Map())
+  const flashTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map())
+
+  const kitRef = useRef(kit)
+  useEffect(() => {
+    kitRef.current = kit
+  }, [kit])
+
+  // Persist every change so the kit survives reloads
+  const commit = useCallback((update: (current: DrumKit) => DrumKit) => {
+    setKit(previous => {
+      const next = update(previous)
+      saveDrumKit(next)
+      return next
+    })
+  }, [])
+
+  // Keep the live pads in step with the kit: rebuild pads whose graph changed, follow gain and pan
+  useEffect(() => {
+    const voices = voicesRef.current
+    if (!enabled) {
+      voices.forEach(disposePadVoice)
+      voices.clear()
+      return
+    }
+
+    const Tone = getToneModule()
+    if (!Tone) return
+
+    for (const [padId, voice] of voices) {
+      if (!kit.pads.some(pad => pad.id === padId)) {
+        disposePadVoice(voice)
+        voices.delete(padId)
+      }
+    }
+
+    for (const pad of kit.pads) {
+      const voice = voices.get(pad.id)
+      if (voice && voice.config === pad.config) {
+        voice.channel.volume.value = Tone.gainToDb(pad.gain)
+        voice.channel.pan.value = pad.pan
+        continue
+      }
+      if (voice) {
+        disposePadVoice(voice)
+        voices.delete(pad.id)
+      }
+      const built = buildPadVoice(pad)
+      if (built) {
+        voices.set(pad.id, built)
+      }
+    }
+  }, [enabled, kit.pads])
+
+  useEffect(() => {
+    const voices = voicesRef.current
+    const flashTimeouts = flashTimeoutsRef.current
+    return () => {
+      voices.forEach(disposePadVoice)
+      voices.clear()
+      flashTimeouts.forEach(clearTimeout)
+    }
+  }, [])
+
+  const flashPad = useCallback((padId: string) => {
+    setHitPadIds(current => current.includes(padId) ? current : [...current, padId])
+    clearTimeout(flashTimeoutsRef.current.get(padId))
+    flashTimeoutsRef.current.set(padId, setTimeout(() => {
+      setHitPadIds(current => current.filter(id => id !== padId))
+    }, HIT_FLASH_MS))
+  }, [])
+
+  // Play one hit on every trigger node of the pad; `time` defaults to now
+  const playPad = useCallback((padId: string, velocity: number = 1, time?: number) => {
+    const Tone = getToneModule()
+    const voice = voicesRef.current.get(padId)
+    if (!Tone || !voice) {
+      console.warn('⚠️ Drum pad not ready:', padId)
+      return
+    }
+
+    const startTime = time ?? Tone.now()
+    for (const [nodeId, definition] of Object.entries(voice.config.graph.nodes)) {
+      const node = voice.graph.nodes.get(nodeId)
+      if (!definition.trigger || !node?.instance || !('triggerAttackRelease' in node.instance)) continue
+
+      const { releaseStart } = getMomentaryTiming(definition.type, node.settings)
+      if (definition.type === 'NoiseSynth') {
+        node.instance.triggerAttackRelease(releaseStart, startTime, velocity)
+      } else {
+        const note = definition.type === 'MetalSynth' ? node.settings.frequency || 440 : 'C2'
+        node.instance.triggerAttackRelease(note, releaseStart, startTime, velocity)
+      }
+    }
+
+    Tone.getDraw().schedule(() => flashPad(padId), startTime)
+  }, [flashPad])
+
+  // MIDI note-on: every pad mapped to the note plays
+  const playNote = useCallback((note: number, velocity?: number) => {
+    findPadsForNote(kitRef.current, note).forEach(pad => playPad(pad.id, velocity))
+  }, [playPad])
+
+  // Home-row keys play the pads
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.ctrlKey || event.metaKey || event.altKey || isTextEntryTarget(event.target)) return
+      const pad = findPadForKey(kitRef.current, event.code)
+      if (pad) {
+        event.preventDefault()
+        playPad(pad.id)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled, playPad])
+
+  const playStep = useCallback((index: number, time: number) => {
+    for (const pad of kitRef.current.pads) {
+      const step = pad.steps[index]
+      if (step?.active) {
+        playPad(pad.id, getStepVelocity(step), time)
+      }
+    }
+  }, [playPad])
+
+  const { isRunning, currentStep, start, stop } = useSequencerTransport(kit, playStep)
+
+  const updatePad = useCallback((padId: string, changes: Partial<Pick<DrumPad, 'name' | 'note' | 'gain' | 'pan'>>) => {
+    commit(current => ({
+      ...current,
+      pads: current.pads.map(pad => pad.id === padId ? { ...pad, ...changes } : pad)
+    }))
+  }, [commit])
+
+  // Swap the pad's sound; the pad takes the graph's name
+  const setPadConfig = useCallback((padId: string, config: AudioGraphConfig) => {
+    commit(current => ({
+      ...current,
+      pads: current.pads.map(pad => pad.id === padId ? { ...pad, name: config.name, config: structuredClone(config) } : pad)
+    }))
+  }, [commit])
+
+  const addPad = useCallback((config: AudioGraphConfig): boolean => {
+    if (kitRef.current.pads.length >= MAX_KIT_PADS) {
+      console.warn('⚠️ Drum kit is full:', MAX_KIT_PADS, 'pads')
+      return false
+    }
+    commit(current => {
+      // Next free General MIDI drum note above the highest pad
+      const note = Math.min(127, Math.max(35, ...current.pads.map(pad => pad.note)) + 1)
+      return { ...current, pads: [...current.pads, createDrumPad(config, note, current.length)] }
+    })
+    return true
+  }, [commit])
+
+  const removePad = useCallback((padId: string) => {
+    commit(current => ({ ...current, pads: current.pads.filter(pad => pad.id !== padId) }))
+  }, [commit])
+
+  const updateStep = useCallback((padId: string, index: number, changes: Partial<SequencerStep>) => {
+    commit(current => ({
+      ...current,
+      pads: current.pads.map(pad => pad.id === padId
+        ? { ...pad, steps: pad.steps.map((step, stepIndex) => stepIndex === index ? { ...step, ...changes } : step) }
+        : pad)
+    }))
+  }, [commit])
+
+  const toggleStep = useCallback((padId: string, index: number) => {
+    const step = kitRef.current.pads.find(pad => pad.id === padId)?.steps[index]
+    if (step) {
+      updateStep(padId, index, { active: !step.active })
+    }
+  }, [updateStep])
+
+  const setLength = useCallback((length: StepSequence['length']) => {
+    commit(current => resizeKitPattern(current, length))
+  }, [commit])
+
+  const setBpm = useCallback((bpm: number) => {
+    commit(current => ({ ...current, bpm }))
+  }, [commit])
+
+  const setSwing = useCallback((swing: number) => {
+    commit(current => ({ ...current, swing }))
+  }, [commit])
+
+  const clearSteps = useCallback(() => {
+    commit(current => ({
+      ...current,
+      pads: current.pads.map(pad => ({ ...pad, steps: pad.steps.map(step => ({ ...step, active: false, accent: false })) }))
+    }))
+  }, [commit])
+
+  const resetKit = useCallback(() => {
+    commit(() => createDefaultDrumKit())
+  }, [commit])
+
+  return {
+    kit,
+    hitPadIds,
+    playPad,
+    playNote,
+    updatePad,
+    setPadConfig,
+    addPad,
+    removePad,
+    resetKit,
+    isRunning,
+    currentStep,
+    start,
+    stop,
+    toggleStep,
+    updateStep,
+    setLength,
+    setBpm,
+    setSwing,
+    clearSteps
+  }
+}
@@ -1,9 +1,10 @@
 import { useState, useCallback, useRef } from 'react'
 import type { AudioConnection, NodeInstance, SignalType } from '../types/audioGraph'
-import { parseConnectionString, GraphValidation } from '../utils/graphUtils'
+import { parseConnectionString } from '../utils/graphUtils'
+import { wouldCreateCycle, type AnalyzableGraph } from '../utils/graphAnalysis'
 
 // Helper to get the actual Tone.js connection point from a node
-const getConnectionPoint = (node: NodeInstance, port: string, isInput: boolean): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
+export const getConnectionPoint = (node: NodeInstance, port: string, isInput: boolean): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
   const instance = node.instance
   
   if (!instance) {
@@ -31,7 +32,9 @@ const getConnectionPoint = (node: NodeInstance, port: string, isInput: boolean):
   return instance
 }
 
-export function useGraphConnections(nodes: Map<string, NodeInstance>) {
+// Nodes are looked up through a getter (backed by the node ref) rather than a state snapshot,
+// so connections made right after createNode/initializeNodeInstance see the new nodes
+export function useGraphConnections(getNodeById: (nodeId: string) => NodeInstance | undefined) {
   const [, setConnections] = useState<AudioConnection[]>([])
   const connectionsRef = useRef<AudioConnection[]>([])
   const toneConnectionsRef = useRef<Map<string, { source: any; dest: any }>>(new Map()) // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -47,12 +50,11 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
     const from = parseConnectionString(fromStr)
     const to = parseConnectionString(toStr)
     
-    const fromNode = nodes.get(from.nodeId)
-    const toNode = nodes.get(to.nodeId)
+    const fromNode = getNodeById(from.nodeId)
+    const toNode = getNodeById(to.nodeId)
     
     if (!fromNode || !toNode) {
       console.warn('⚠️ Cannot validate connection - nodes not found:', from.nodeId, to.nodeId)
-      console.log('📋 Available nodes:', Array.from(nodes.keys()))
       console.log('🔍 Looking for:', from.nodeId, '(found:', !!fromNode, '), ', to.nodeId, '(found:', !!toNode, ')')
       return false
     }
@@ -62,9 +64,19 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
       return false
     }
     
-    // Prevent self-connections using utility
-    if (GraphValidation.wouldCreateCycle(fromStr, toStr)) {
-      console.warn('⚠️ Cannot connect node to itself:', fromNode.id)
+    // Prevent loops (other than feedback through delay lines) across the existing connections
+    const graphNodes: AnalyzableGraph['nodes'] = {}
+    for (const conn of [...connectionsRef.current, { from: fromStr, to: toStr }]) {
+      for (const endpoint of [conn.from, conn.to]) {
+        const node = getNodeById(parseConnectionString(endpoint).nodeId)
+        if (node) {
+          graphNodes[node.id] = { type: node.type }
+        }
+      }
+    }
+    
+    if (wouldCreateCycle({ nodes: graphNodes, connections: connectionsRef.current }, fromStr, toStr)) {
+      console.warn('⚠️ Cannot connect - connection would create a cycle:', fromStr, '->', toStr)
       return false
     }
     
@@ -79,7 +91,7 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
     }
     
     return true
-  }, [nodes])
+  }, [getNodeById])
 
   // Create a connection between two nodes
   const connect = useCallback((fromStr: string, toStr: string, signalType: SignalType = 'audio'): boolean => {
@@ -90,8 +102,8 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
     const from = parseConnectionString(fromStr)
     const to = parseConnectionString(toStr)
     
-    const fromNode = nodes.get(from.nodeId)
-    const toNode = nodes.get(to.nodeId)
+    const fromNode = getNodeById(from.nodeId)
+    const toNode = getNodeById(to.nodeId)
     
     if (!fromNode || !toNode) {
       console.error('❌ Cannot connect - nodes not found:', from.nodeId, to.nodeId)
@@ -141,7 +153,7 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
       console.error('❌ Failed to create connection:', fromStr, '->', toStr, error)
       return false
     }
-  }, [nodes, validateConnection, updateConnectionsRef])
+  }, [getNodeById, validateConnection, updateConnectionsRef])
 
   // Remove a connection between two nodes
   const disconnect = useCallback((fromStr: string, toStr: string): boolean => {
@@ -174,8 +186,8 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
       const from = parseConnectionString(fromStr)
       const to = parseConnectionString(toStr)
       
-      const fromNode = nodes.get(from.nodeId)
-      const toNode = nodes.get(to.nodeId)
+      const fromNode = getNodeById(from.nodeId)
+      const toNode = getNodeById(to.nodeId)
       
       if (fromNode) {
         fromNode.outputs.delete(from.property)
@@ -190,7 +202,7 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
       console.error('❌ Failed to disconnect:', fromStr, '->', toStr, error)
       return false
     }
-  }, [nodes, updateConnectionsRef])
+  }, [getNodeById, updateConnectionsRef])
 
   // Disconnect all connections for a specific node
   const disconnectNode = useCallback((nodeId: string) => {
@@ -237,15 +249,20 @@ export function useGraphConnections(nodes: Map<string, NodeInstance>) {
       }
     }
     
+    // Clear node connection tracking for every node that took part in a connection
+    for (const conn of connectionsRef.current) {
+      for (const endpoint of [conn.from, conn.to]) {
+        const node = getNodeById(parseConnectionString(endpoint).nodeId)
+        if (node) {
+          node.inputs.clear()
+          node.outputs.clear()
+        }
+      }
+    }
+    
     toneConnectionsRef.current.clear()
     updateConnectionsRef([])
-    
-    // Clear node connection tracking
-    for (const node of nodes.values()) {
-      node.inputs.clear()
-      node.outputs.clear()
-    }
-  }, [nodes, updateConnectionsRef])
+  }, [getNodeById, updateConnectionsRef])
 
   // Connect multiple connections at once
   const connectMultiple = useCallback((connections: AudioConnection[]): boolean[] => {
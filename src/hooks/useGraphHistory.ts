@@ -0,0 +1,91 @@
+import { useState, useCallback, useRef } from 'react'
+import { enablePatches, type Patch } from 'immer'
+
+enablePatches()
+
+// Edits sharing a coalesce key that arrive within this window merge into one undo step,
+// so a slider or envelope drag undoes in one go
+const COALESCE_WINDOW_MS = 600
+
+// Oldest steps are dropped beyond this depth
+const MAX_HISTORY_DEPTH = 200
+
+interface HistoryStep {
+  patches: Patch[]
+  inversePatches: Patch[]
+  coalesceKey?: string
+  timestamp: number
+}
+
+export function useGraphHistory() {
+  const pastRef = useRef<HistoryStep[]>([])
+  const futureRef = useRef<HistoryStep[]>([])
+  // Bumped on every change so consumers re-render with fresh canUndo/canRedo
+  const [, setRevision] = useState(0)
+
+  const notify = useCallback(() => setRevision(revision => revision + 1), [])
+
+  // Record the patches of an edit that has just been applied
+  const record = useCallback((patches: Patch[], inversePatches: Patch[], coalesceKey?: string) => {
+    if (patches.length === 0) return
+
+    const now = Date.now()
+    const past = pastRef.current
+    const lastStep = past[past.length - 1]
+
+    if (coalesceKey && lastStep?.coalesceKey === coalesceKey && now - lastStep.timestamp < COALESCE_WINDOW_MS) {
+      // Inverse patches run newest-first so the merged step restores the state before the first edit
+      past[past.length - 1] = {
+        patches: [...lastStep.patches, ...patches],
+        inversePatches: [...inversePatches, ...lastStep.inversePatches],
+        coalesceKey,
+        timestamp: now
+      }
+    } else {
+      past.push({ patches, inversePatches, coalesceKey, timestamp: now })
+      if (past.length > MAX_HISTORY_DEPTH) {
+        past.shift()
+      }
+    }
+
+    futureRef.current = []
+    notify()
+  }, [notify])
+
+  // Pop the latest step and return the patches that revert it
+  const undo = useCallback((): Patch[] | null => {
+    const step = pastRef.current.pop()
+    if (!step) return null
+
+    futureRef.current.push(step)
+    notify()
+    return step.inversePatches
+  }, [notify])
+
+  // Re-apply the most recently undone step
+  const redo = useCallback((): Patch[] | null => {
+    const step = futureRef.current.pop()
+    if (!step) return null
+
+    // Never coalesce a later edit into a step that came back through redo
+    pastRef.current.push({ ...step, coalesceKey: undefined })
+    notify()
+    return step.patches
+  }, [notify])
+
+  const clear = useCallback(() => {
+    if (pastRef.current.length === 0 && futureRef.current.length === 0) return
+    pastRef.current = []
+    futureRef.current = []
+    notify()
+  }, [notify])
+
+  return {
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    record,
+    undo,
+    redo,
+    clear
+  }
+}
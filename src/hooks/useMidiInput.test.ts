@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMockMidiAccess } from '../utils/midi'
+import type { MockMidiAccess } from '../utils/midi'
+import { useMidiInput } from './useMidiInput'
+
+const renderMidiInput = async (access: MockMidiAccess) => {
+  const onNoteOn = vi.fn()
+  const onNoteOff = vi.fn()
+  const onControlChange = vi.fn()
+  const hook = renderHook(() => useMidiInput({ onNoteOn, onNoteOff, onControlChange, requestAccess: async () => access }))
+  await act(() => hook.result.current.connect())
+  const send = (inputId: string, data: number[]) => act(() => access.send(inputId, data))
+  return { ...hook, onNoteOn, onNoteOff, onControlChange, send }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('useMidiInput', () => {
+  it('routes note-on and note-off from the mock input to the instrument', async () => {
+    const { result, onNoteOn, onNoteOff, send } = await renderMidiInput(createMockMidiAccess([{ id: 'keys', name: 'Keys' }]))
+    expect(result.current.status).toBe('ready')
+
+    send('keys', [0x90, 60, 127])
+    expect(onNoteOn).toHaveBeenCalledWith(60, 1)
+    expect(result.current.heldNotes).toEqual([60])
+
+    send('keys', [0x90, 60, 0])
+    expect(onNoteOff).toHaveBeenCalledWith(60)
+    expect(result.current.heldNotes).toEqual([])
+  })
+
+  it('defers releases until the sustain pedal is lifted', async () => {
+    const { result, onNoteOff, onControlChange, send } = await renderMidiInput(createMockMidiAccess([{ id: 'keys', name: 'Keys' }]))
+
+    send('keys', [0xb0, 64, 127])
+    send('keys', [0x90, 60, 100])
+    send('keys', [0x80, 60, 0])
+    expect(onNoteOff).not.toHaveBeenCalled()
+    expect(result.current.sustainActive).toBe(true)
+    expect(result.current.heldNotes).toEqual([60])
+
+    send('keys', [0xb0, 64, 0])
+    expect(onNoteOff).toHaveBeenCalledWith(60)
+    expect(onControlChange).not.toHaveBeenCalled() // The hook keeps the pedal to itself
+  })
+
+  it('passes other controllers through with their channel', async () => {
+    const { onControlChange, send } = await renderMidiInput(createMockMidiAccess([{ id: 'keys', name: 'Keys' }]))
+    send('keys', [0xb2, 1, 90])
+    expect(onControlChange).toHaveBeenCalledWith(1, 90, 3)
+  })
+
+  it('listens only to the selected input', async () => {
+    const { result, onNoteOn, send } = await renderMidiInput(createMockMidiAccess([{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }]))
+    act(() => result.current.selectInput('b'))
+
+    send('a', [0x90, 60, 100])
+    send('b', [0x90, 62, 100])
+    expect(onNoteOn.mock.calls).toEqual([[62, 100 / 127]])
+  })
+
+  it('keeps held and sustained notes sounding when another device is plugged in', async () => {
+    const access = createMockMidiAccess([{ id: 'keys', name: 'Keys' }])
+    const { result, onNoteOff, send } = await renderMidiInput(access)
+
+    send('keys', [0xb0, 64, 127])
+    send('keys', [0x90, 60, 100])
+    send('keys', [0x80, 60, 0])
+    send('keys', [0x90, 64, 100])
+    act(() => access.connectInput('pads', 'Pads'))
+
+    expect(result.current.devices).toHaveLength(2)
+    expect(onNoteOff).not.toHaveBeenCalled()
+    expect(result.current.heldNotes).toEqual([60, 64])
+    expect(result.current.sustainActive).toBe(true)
+  })
+
+  it('releases only the notes of an input that is unplugged', async () => {
+    const access = createMockMidiAccess([{ id: 'keys', name: 'Keys' }, { id: 'pads', name: 'Pads' }])
+    const { result, onNoteOff, send } = await renderMidiInput(access)
+
+    send('keys', [0x90, 60, 100])
+    send('pads', [0x90, 36, 100])
+    send('pads', [0xb0, 64, 127])
+    act(() => access.disconnectInput('pads'))
+
+    expect(onNoteOff.mock.calls).toEqual([[36]])
+    expect(result.current.heldNotes).toEqual([60])
+    expect(result.current.sustainActive).toBe(false) // Its pedal can no longer be lifted
+  })
+
+  it('silences everything on unmount', async () => {
+    const { unmount, onNoteOff, send } = await renderMidiInput(createMockMidiAccess([{ id: 'keys', name: 'Keys' }]))
+    send('keys', [0x90, 60, 100])
+    unmount()
+    expect(onNoteOff).toHaveBeenCalledWith(60)
+  })
+})
@@ -0,0 +1,203 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import type { MidiAccessLike, MidiInputDevice, MidiMessage, MidiMessageEventLike, RequestMidiAccess } from '../types/midi'
+import { SUSTAIN_PEDAL_CC, parseMidiMessage, requestBrowserMidiAccess } from '../utils/midi'
+
+export type MidiStatus = 'idle' | 'connecting' | 'ready' | 'error'
+
+interface UseMidiInputOptions {
+  onNoteOn: (note: number, velocity: number) => void
+  onNoteOff: (note: number) => void
+  // Every controller except the sustain pedal, which the hook handles itself
+  onControlChange?: (controller: number, value: number, channel: number) => void
+  // Injected in tests or development to use a mock MIDIAccess
+  requestAccess?: RequestMidiAccess
+}
+
+const listDevices = (access: MidiAccessLike): MidiInputDevice[] =>
+  Array.from(access.inputs.values()).map(input => ({
+    id: input.id,
+    name: input.name || 'Unknown device',
+    manufacturer: input.manufacturer || '',
+    connected: input.state === 'connected'
+  }))
+
+// Notes still sounding: sustained ones first, then held keys in press order
+const getSoundingNotes = (pressedNotes: number[], sustainedNotes: number[]): number[] => [
+  ...sustainedNotes.filter(note => !pressedNotes.includes(note)),
+  ...pressedNotes
+]
+
+/**
+ * Plays the instrument from Web MIDI inputs
+ * Tracks held keys and the sustain pedal (CC64): releases while the pedal is down are
+ * deferred until it is lifted, and a re-struck sustained note is not released twice.
+ */
+export function useMidiInput({ onNoteOn, onNoteOff, onControlChange, requestAccess = requestBrowserMidiAccess }: UseMidiInputOptions) {
+  const [access, setAccess] = useState<MidiAccessLike | null>(null)
+  const [status, setStatus] = useState<MidiStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [devices, setDevices] = useState<MidiInputDevice[]>([])
+  const [selectedInputId, setSelectedInputId] = useState<string | null>(null) // null listens to every input
+  const [heldNotes, setHeldNotes] = useState<number[]>([])
+  const [sustainActive, setSustainActive] = useState(false)
+  const [lastMessage, setLastMessage] = useState<MidiMessage | null>(null)
+
+  // Latest callbacks, so the message handler stays stable while the graph callbacks change
+  const callbacksRef = useRef({ onNoteOn, onNoteOff, onControlChange })
+  useEffect(() => {
+    callbacksRef.current = { onNoteOn, onNoteOff, onControlChange }
+  }, [onNoteOn, onNoteOff, onControlChange])
+
+  const pressedNotesRef = useRef<number[]>([]) // Keys physically down, in press order
+  const sustainedNotesRef = useRef<number[]>([]) // Keys released while the pedal was down
+  const sustainRef = useRef(false)
+  const noteInputsRef = useRef(new Map<number, string>()) // Input each sounding note was struck on
+  const sustainInputRef = useRef<string | null>(null) // Input whose pedal is holding the sustain
+
+  const soundingNotes = useCallback(() => getSoundingNotes(pressedNotesRef.current, sustainedNotesRef.current), [])
+
+  const stopNote = useCallback((note: number) => {
+    noteInputsRef.current.delete(note)
+    callbacksRef.current.onNoteOff(note)
+  }, [])
+
+  const handleMessage = useCallback((message: MidiMessage, inputId: string) => {
+    setLastMessage(message)
+
+    if (message.type === 'noteon') {
+      noteInputsRef.current.set(message.note, inputId)
+      pressedNotesRef.current = [...pressedNotesRef.current.filter(note => note !== message.note), message.note]
+      sustainedNotesRef.current = sustainedNotesRef.current.filter(note => note !== message.note)
+      callbacksRef.current.onNoteOn(message.note, message.velocity)
+    } else if (message.type === 'noteoff') {
+      if (!pressedNotesRef.current.includes(message.note)) return
+      pressedNotesRef.current = pressedNotesRef.current.filter(note => note !== message.note)
+      if (sustainRef.current) {
+        sustainedNotesRef.current = [...sustainedNotesRef.current, message.note]
+      } else {
+        stopNote(message.note)
+      }
+    } else if (message.controller === SUSTAIN_PEDAL_CC) {
+      const pedalDown = message.value >= 64
+      if (pedalDown === sustainRef.current) return
+      sustainRef.current = pedalDown
+      sustainInputRef.current = pedalDown ? inputId : null
+      setSustainActive(pedalDown)
+
+      if (!pedalDown) {
+        const released = sustainedNotesRef.current
+        sustainedNotesRef.current = []
+        released.forEach(stopNote)
+      }
+    } else {
+      callbacksRef.current.onControlChange?.(message.controller, message.value, message.channel)
+    }
+
+    setHeldNotes(soundingNotes())
+  }, [stopNote, soundingNotes])
+
+  // Silence everything when the hook goes away
+  const releaseAllNotes = useCallback(() => {
+    const notes = soundingNotes()
+    pressedNotesRef.current = []
+    sustainedNotesRef.current = []
+    sustainRef.current = false
+    sustainInputRef.current = null
+    notes.forEach(stopNote)
+    setHeldNotes([])
+    setSustainActive(false)
+  }, [stopNote, soundingNotes])
+
+  useEffect(() => releaseAllNotes, [releaseAllNotes])
+
+  /**
+   * Release what inputs we no longer hear from (unplugged or deselected) were holding:
+   * their pressed keys, whose note-offs will never arrive, and the sustain if their pedal was down.
+   * Notes from inputs still listened to keep sounding.
+   */
+  const releaseNotesFromOtherInputs = useCallback((listenedInputIds: string[]) => {
+    const isOrphaned = (note: number) => !listenedInputIds.includes(noteInputsRef.current.get(note) ?? '')
+    const released = pressedNotesRef.current.filter(isOrphaned)
+    pressedNotesRef.current = pressedNotesRef.current.filter(note => !isOrphaned(note))
+
+    if (sustainRef.current && !listenedInputIds.includes(sustainInputRef.current ?? '')) {
+      released.push(...sustainedNotesRef.current)
+      sustainedNotesRef.current = []
+      sustainRef.current = false
+      sustainInputRef.current = null
+      setSustainActive(false)
+    }
+
+    if (released.length === 0) return
+    released.forEach(stopNote)
+    setHeldNotes(soundingNotes())
+  }, [stopNote, soundingNotes])
+
+  // Ask for MIDI access; must follow a user gesture in some browsers
+  const connect = useCallback(async () => {
+    setStatus('connecting')
+    setError(null)
+    try {
+      const midiAccess = await requestAccess()
+      setAccess(midiAccess)
+      setDevices(listDevices(midiAccess))
+      setStatus('ready')
+      console.log('🎹 MIDI access granted,', midiAccess.inputs.size, 'input(s)')
+    } catch (accessError) {
+      console.error('❌ MIDI access failed:', accessError)
+      setError(accessError instanceof Error ? accessError.message : String(accessError))
+      setStatus('error')
+    }
+  }, [requestAccess])
+
+  // Keep the device list current as devices are plugged in and out
+  useEffect(() => {
+    if (!access) return
+    const handleStateChange = () => setDevices(listDevices(access))
+    access.addEventListener('statechange', handleStateChange)
+    return () => access.removeEventListener('statechange', handleStateChange)
+  }, [access])
+
+  // Connected inputs to listen to, as a string so unrelated device list updates don't re-attach listeners
+  const listenedInputKey = useMemo(() => devices
+    .filter(device => device.connected && (selectedInputId === null || device.id === selectedInputId))
+    .map(device => device.id)
+    .join('\n'), [devices, selectedInputId])
+
+  // Listen to the selected input (or all of them); re-attached only when that set of inputs changes
+  useEffect(() => {
+    if (!access) return
+
+    const inputIds = listenedInputKey ? listenedInputKey.split('\n') : []
+    releaseNotesFromOtherInputs(inputIds)
+
+    const detachers = inputIds.flatMap(inputId => {
+      const input = access.inputs.get(inputId)
+      if (!input) return []
+
+      const listener = (event: MidiMessageEventLike) => {
+        const message = parseMidiMessage(event.data)
+        if (message) {
+          handleMessage(message, inputId)
+        }
+      }
+      input.addEventListener('midimessage', listener)
+      return [() => input.removeEventListener('midimessage', listener)]
+    })
+
+    return () => detachers.forEach(detach => detach())
+  }, [access, listenedInputKey, handleMessage, releaseNotesFromOtherInputs])
+
+  return {
+    isConnected: access !== null,
+    status,
+    error,
+    devices,
+    selectedInputId,
+    selectInput: setSelectedInputId,
+    heldNotes,
+    sustainActive,
+    lastMessage,
+    connect
+  }
+}
@@ -0,0 +1,72 @@
+import { useState, useCallback } from 'react'
+import type { AudioGraphConfig, MidiCCBinding } from '../types/audioGraph'
+import { parseParameterPath } from '../utils/graphUtils'
+import { buildSettingsUpdate, findBindings, getTargetMetadata, scaleControllerValue } from '../utils/midiLearn'
+
+interface UseMidiLearnOptions {
+  onBind: (binding: MidiCCBinding) => void
+  onUnbind: (target: string) => void
+  onNodeSettingsChange: (nodeId: string, settings: Record<string, unknown>) => void
+}
+
+export type MidiLearn = ReturnType<typeof useMidiLearn>
+
+/**
+ * MIDI learn for parameter controls: arm a parameter path, move a controller, and that CC drives it.
+ * Bindings live in the graph config, so they are saved, shared and undone with the preset.
+ */
+export function useMidiLearn(config: AudioGraphConfig | null, { onBind, onUnbind, onNodeSettingsChange }: UseMidiLearnOptions) {
+  const [learningTarget, setLearningTarget] = useState<string | null>(null)
+
+  const getBinding = useCallback((target: string): MidiCCBinding | undefined => {
+    return config?.graph.midiBindings?.find(binding => binding.target === target)
+  }, [config])
+
+  // Arming the parameter that is already armed disarms it
+  const startLearning = useCallback((target: string) => {
+    setLearningTarget(current => current === target ? null : target)
+  }, [])
+
+  const cancelLearning = useCallback(() => {
+    setLearningTarget(null)
+  }, [])
+
+  const unbind = useCallback((target: string) => {
+    onUnbind(target)
+    console.log('🎛️ Removed MIDI binding:', target)
+  }, [onUnbind])
+
+  const handleControlChange = useCallback((controller: number, value: number, channel: number) => {
+    if (!config) return
+
+    // While armed, the first controller that moves becomes the binding
+    if (learningTarget) {
+      onBind({ controller, channel, target: learningTarget })
+      console.log(`🎛️ Learned CC ${controller} (channel ${channel}) for`, learningTarget)
+      setLearningTarget(null)
+      return
+    }
+
+    for (const binding of findBindings(config.graph.midiBindings, controller, channel)) {
+      const metadata = getTargetMetadata(config.graph, binding.target)
+      const scaledValue = metadata ? scaleControllerValue(value, metadata) : null
+      if (scaledValue === null) {
+        console.warn('⚠️ No parameter range for MIDI binding:', binding.target)
+        continue
+      }
+
+      const { nodeId, property } = parseParameterPath(binding.target)
+      const settings = config.graph.nodes[nodeId]?.settings || {}
+      onNodeSettingsChange(nodeId, buildSettingsUpdate(settings, property, scaledValue))
+    }
+  }, [config, learningTarget, onBind, onNodeSettingsChange])
+
+  return {
+    learningTarget,
+    getBinding,
+    startLearning,
+    cancelLearning,
+    unbind,
+    handleControlChange
+  }
+}
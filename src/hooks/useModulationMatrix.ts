@@ -1,55 +1,23 @@
 import { useState, useCallback, useRef } from 'react'
 import type { ModulationRoute, NodeInstance } from '../types/audioGraph'
-import { parseParameterPath } from '../utils/graphUtils'
+import { parseConnectionString, parseParameterPath } from '../utils/graphUtils'
+import {
+  getParameter,
+  getModulationSource,
+  createModulationChain,
+  setModulationChainAmount,
+  rebaseModulationChain,
+  disposeModulationChain,
+  type ModulationChain
+} from '../utils/modulationChain'
 
-// Helper to get the actual Tone.js parameter from a node
-const getParameter = (node: NodeInstance, paramName: string): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
-  const instance = node.instance
-  
-  if (!instance) {
-    console.warn('⚠️ Node instance is null:', node.id)
-    return null
-  }
-  
-  // Handle nested parameters (e.g., oscillator.frequency)
-  const paramParts = paramName.split('.')
-  let param = instance
-  
-  for (const part of paramParts) {
-    if (param && param[part] !== undefined) {
-      param = param[part]
-    } else {
-      console.warn('⚠️ Parameter not found:', paramName, 'on node', node.id)
-      return null
-    }
-  }
-  
-  return param
-}
-
-// Helper to set a parameter value on a Tone.js object (currently unused but kept for future modulation features)
-// const setParameterValue = (param: any, value: number): boolean => {
-//   try {
-//     if (param && typeof param === 'object' && 'value' in param) {
-//       // Tone.js Param object
-//       param.value = value
-//       return true
-//     } else if (typeof param === 'number') {
-//       // Direct numeric property - can't set this way, need to go through parent
-//       console.warn('⚠️ Cannot set numeric parameter directly')
-//       return false
-//     }
-//     return false
-//   } catch (error) {
-//     console.error('❌ Failed to set parameter value:', error)
-//     return false
-//   }
-// }
+const routeKey = (source: string, destination: string) => `${source}->${destination}`
 
-export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
+// Nodes are looked up through a getter so routes added right after graph initialization see the new nodes
+export function useModulationMatrix(getNodeById: (nodeId: string) => NodeInstance | undefined) {
   const [, setModulationRoutes] = useState<ModulationRoute[]>([])
   const routesRef = useRef<ModulationRoute[]>([])
-  const activeModulationsRef = useRef<Map<string, any>>(new Map()) // eslint-disable-line @typescript-eslint/no-explicit-any
+  const activeModulationsRef = useRef<Map<string, ModulationChain>>(new Map())
 
   // Keep ref in sync with state  
   const updateRoutesRef = useCallback((newRoutes: ModulationRoute[]) => {
@@ -57,6 +25,16 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
     setModulationRoutes([...newRoutes])
   }, [])
 
+  // Disconnect and dispose the signal chain behind a route
+  const teardownChain = useCallback((source: string, destination: string) => {
+    const key = routeKey(source, destination)
+    const chain = activeModulationsRef.current.get(key)
+    if (chain) {
+      disposeModulationChain(chain)
+      activeModulationsRef.current.delete(key)
+    }
+  }, [])
+
   // Add a new modulation route
   const addModulationRoute = useCallback((route: ModulationRoute): boolean => {
     // Check if route already exists
@@ -70,29 +48,40 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
     }
     
     // Validate source and destination nodes exist
-    const sourceParts = parseParameterPath(route.source)
+    const sourceParts = parseConnectionString(route.source)
     const destParts = parseParameterPath(route.destination)
     
-    const sourceNode = nodes.get(sourceParts.nodeId)
-    const destNode = nodes.get(destParts.nodeId)
+    const sourceNode = getNodeById(sourceParts.nodeId)
+    const destNode = getNodeById(destParts.nodeId)
     
     if (!sourceNode || !destNode) {
       console.error('❌ Cannot create modulation route - nodes not found:', sourceParts.nodeId, destParts.nodeId)
       return false
     }
     
+    // Disabled routes are tracked so they stay in step with the config, but get no signal chain
+    if (route.enabled === false) {
+      updateRoutesRef([...routesRef.current, route])
+      console.log('⏸️ Modulation route added disabled:', route.source, '->', route.destination)
+      return true
+    }
+    
     try {
-      // Get the source parameter (CV output)
-      const sourceParam = getParameter(sourceNode, sourceParts.property)
+      // The source's signal output and the destination Param it drives
+      const sourceSignal = getModulationSource(sourceNode, sourceParts.property)
       const destParam = getParameter(destNode, destParts.property)
       
-      if (!sourceParam || !destParam) {
+      if (!sourceSignal || !destParam) {
         console.error('❌ Cannot create modulation route - parameters not found')
         return false
       }
       
-      // For now, we'll store the route but not create the actual Tone.js modulation connection
-      // Real modulation would require more complex signal routing with Tone.js Signal objects
+      const chain = createModulationChain(sourceSignal, destParam, route)
+      if (!chain) {
+        return false
+      }
+      activeModulationsRef.current.set(routeKey(route.source, route.destination), chain)
+      
       const newRoutes = [...routesRef.current, route]
       updateRoutesRef(newRoutes)
       
@@ -103,7 +92,7 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
       console.error('❌ Failed to add modulation route:', error)
       return false
     }
-  }, [nodes, updateRoutesRef])
+  }, [getNodeById, updateRoutesRef])
 
   // Remove a modulation route
   const removeModulationRoute = useCallback((source: string, destination: string): boolean => {
@@ -122,9 +111,7 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
       newRoutes.splice(routeIndex, 1)
       updateRoutesRef(newRoutes)
       
-      // Clean up active modulation if any
-      const routeKey = `${source}->${destination}`
-      activeModulationsRef.current.delete(routeKey)
+      teardownChain(source, destination)
       
       console.log('✅ Modulation route removed:', source, '->', destination)
       return true
@@ -133,56 +120,18 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
       console.error('❌ Failed to remove modulation route:', error)
       return false
     }
-  }, [updateRoutesRef])
+  }, [updateRoutesRef, teardownChain])
 
-  // Apply modulation to a specific node (called when node parameters change)
+  // Re-sync routes targeting a node after its settings change, since scaled routes are offset by the Param's own value
   const applyModulation = useCallback((nodeId: string) => {
-    // Find all modulation routes that target this node
-    const targetRoutes = routesRef.current.filter(route => {
-      const destParts = parseParameterPath(route.destination)
-      return destParts.nodeId === nodeId
-    })
-    
-    for (const route of targetRoutes) {
-      try {
-        const sourceParts = parseParameterPath(route.source)
-        const destParts = parseParameterPath(route.destination)
-        
-        const sourceNode = nodes.get(sourceParts.nodeId)
-        const destNode = nodes.get(destParts.nodeId)
-        
-        if (!sourceNode || !destNode) continue
-        
-        // Get current values
-        const sourceParam = getParameter(sourceNode, sourceParts.property)
-        const destParam = getParameter(destNode, destParts.property)
-        
-        if (!sourceParam || !destParam) continue
-        
-        // For simple modulation, we could read the source value and apply it to destination
-        // This is a simplified implementation - real modulation would use Tone.js Signal routing
-        let sourceValue = 0
-        if (sourceParam && typeof sourceParam === 'object' && 'value' in sourceParam) {
-          sourceValue = sourceParam.value
-        }
-        
-        // Apply modulation scaling
-        const modulatedValue = sourceValue * route.amount
-        
-        // Apply scale range if provided
-        if (route.scale) {
-          const [min, max] = route.scale
-          const scaledValue = min + (modulatedValue * (max - min))
-          // Here we would apply scaledValue to the destination parameter
-          // For now, just log it
-          console.log('🎛️ Modulation applied:', route.source, '->', route.destination, 'value:', scaledValue)
-        }
-        
-      } catch (error) {
-        console.error('❌ Failed to apply modulation:', route, error)
+    for (const route of routesRef.current) {
+      if (!route.scale || parseParameterPath(route.destination).nodeId !== nodeId) continue
+      const chain = activeModulationsRef.current.get(routeKey(route.source, route.destination))
+      if (chain) {
+        rebaseModulationChain(chain)
       }
     }
-  }, [nodes])
+  }, [])
 
   // Update modulation amount for an existing route
   const updateModulationAmount = useCallback((source: string, destination: string, newAmount: number): boolean => {
@@ -195,6 +144,11 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
       return false
     }
     
+    const chain = activeModulationsRef.current.get(routeKey(source, destination))
+    if (chain) {
+      setModulationChainAmount(chain, newAmount)
+    }
+    
     const newRoutes = [...routesRef.current]
     newRoutes[routeIndex] = { ...newRoutes[routeIndex], amount: newAmount }
     updateRoutesRef(newRoutes)
@@ -222,7 +176,8 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
   const clearAllModulationRoutes = useCallback(() => {
     console.log('🧹 Clearing all modulation routes')
     
-    // Clear active modulations
+    // Tear down every signal chain
+    activeModulationsRef.current.forEach(disposeModulationChain)
     activeModulationsRef.current.clear()
     updateRoutesRef([])
   }, [updateRoutesRef])
@@ -231,14 +186,12 @@ export function useModulationMatrix(nodes: Map<string, NodeInstance>) {
   const removeNodeModulationRoutes = useCallback((nodeId: string) => {
     console.log('🔌 Removing all modulation routes for node:', nodeId)
     
-    const newRoutes = routesRef.current.filter(route => {
-      const sourceParts = parseParameterPath(route.source)
-      const destParts = parseParameterPath(route.destination)
-      return sourceParts.nodeId !== nodeId && destParts.nodeId !== nodeId
-    })
+    const touchesNode = (route: ModulationRoute) =>
+      parseParameterPath(route.source).nodeId === nodeId || parseParameterPath(route.destination).nodeId === nodeId
     
-    updateRoutesRef(newRoutes)
-  }, [updateRoutesRef])
+    routesRef.current.filter(touchesNode).forEach(route => teardownChain(route.source, route.destination))
+    updateRoutesRef(routesRef.current.filter(route => !touchesNode(route)))
+  }, [updateRoutesRef, teardownChain])
 
   return {
     modulationRoutes: routesRef.current,
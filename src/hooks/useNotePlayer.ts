@@ -0,0 +1,74 @@
+import { useState, useCallback, useRef } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { midiNoteToName } from '../utils/midi'
+import { isPolyphonicNodeType } from '../utils/voiceAllocation'
+
+interface UseNotePlayerOptions {
+  triggerGraph: (note?: string | number, velocity?: number) => Promise<void>
+  releaseGraph: (note?: string | number) => void
+}
+
+/**
+ * Turns key presses from any source (MIDI, on-screen piano, computer keyboard) into graph triggers.
+ * PolySynth and Sampler graphs play every held key up to their polyphony; other sustained graphs are monophonic with last-note priority,
+ * and momentary graphs play one complete hit per key press.
+ */
+export function useNotePlayer(config: AudioGraphConfig | null, { triggerGraph, releaseGraph }: UseNotePlayerOptions) {
+  const [heldNotes, setHeldNotes] = useState<number[]>([])
+  const heldNotesRef = useRef<number[]>([]) // Press order; the last entry is the most recent key
+
+  const triggerNodeType = config
+    ? Object.values(config.graph.nodes).find(node => node.trigger)?.type
+    : undefined
+  const isSustained = config?.graph.trigger === 'sustained'
+  const isPolyphonic = isSustained && isPolyphonicNodeType(triggerNodeType)
+
+  const setHeld = useCallback((notes: number[]) => {
+    heldNotesRef.current = notes
+    setHeldNotes(notes)
+  }, [])
+
+  const noteOn = useCallback((note: number, velocity?: number) => {
+    setHeld([...heldNotesRef.current.filter(held => held !== note), note])
+    triggerGraph(midiNoteToName(note), velocity)
+  }, [setHeld, triggerGraph])
+
+  const noteOff = useCallback((note: number) => {
+    const previous = heldNotesRef.current
+    if (!previous.includes(note)) return
+
+    const remaining = previous.filter(held => held !== note)
+    setHeld(remaining)
+
+    // Momentary graphs play a complete sound per hit and ignore note-off
+    if (!isSustained) return
+
+    if (!isPolyphonic && remaining.length > 0) {
+      // The sounding key was lifted: fall back to the most recent key still held
+      if (previous[previous.length - 1] === note) {
+        triggerGraph(midiNoteToName(remaining[remaining.length - 1]))
+      }
+      return
+    }
+
+    // The graph's voice allocator ignores notes that were stolen or replaced
+    releaseGraph(midiNoteToName(note))
+  }, [setHeld, isSustained, isPolyphonic, triggerGraph, releaseGraph])
+
+  // Let go of every held key at once, e.g. when its input stops reaching the graph
+  const releaseAll = useCallback(() => {
+    if (heldNotesRef.current.length === 0) return
+    setHeld([])
+    if (isSustained) {
+      releaseGraph()
+    }
+  }, [setHeld, isSustained, releaseGraph])
+
+  return {
+    heldNotes,
+    isPolyphonic,
+    noteOn,
+    noteOff,
+    releaseAll
+  }
+}
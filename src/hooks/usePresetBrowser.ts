@@ -0,0 +1,73 @@
+import { useState, useCallback, useEffect } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { getToneModule } from '../utils/toneLoader'
+import {
+  addRecentPreset,
+  loadPresetBrowserState,
+  savePresetBrowserState,
+  toggleFavourite as toggleFavouriteIn,
+  type PresetBrowserState
+} from '../utils/presetBrowser'
+
+// Sustained presets are auditioned with a short note; momentary ones play their own hit
+const AUDITION_NOTE = 'C4'
+const AUDITION_SECONDS = 0.6
+
+interface PresetBrowserOptions {
+  config: AudioGraphConfig | null // Graph currently live in useAudioGraph
+  requestedConfig: AudioGraphConfig // Graph the app asked for; auditions wait until it is live
+  isGraphInitialized: boolean
+  triggerGraph: () => Promise<void>
+  playNoteAt: (note: string | number, duration: number, time: number, velocity?: number) => void
+}
+
+/**
+ * Favourites, recently used presets and auditioning for the preset browser
+ */
+export function usePresetBrowser({ config, requestedConfig, isGraphInitialized, triggerGraph, playNoteAt }: PresetBrowserOptions) {
+  const [state, setState] = useState<PresetBrowserState>(() => loadPresetBrowserState())
+  const [auditionPending, setAuditionPending] = useState(false)
+
+  const commit = useCallback((update: (previous: PresetBrowserState) => PresetBrowserState) => {
+    setState(previous => {
+      const next = update(previous)
+      savePresetBrowserState(next)
+      return next
+    })
+  }, [])
+
+  const toggleFavourite = useCallback((value: string) => {
+    commit(previous => toggleFavouriteIn(previous, value))
+  }, [commit])
+
+  const markUsed = useCallback((value: string) => {
+    commit(previous => addRecentPreset(previous, value))
+  }, [commit])
+
+  // Loading a preset rebuilds the graph, so the audition fires once the requested graph is live
+  const requestAudition = useCallback(() => {
+    setAuditionPending(true)
+  }, [])
+
+  useEffect(() => {
+    if (!auditionPending || !isGraphInitialized || !config || config !== requestedConfig) return
+    setAuditionPending(false)
+
+    if (config.graph.trigger === 'momentary') {
+      triggerGraph()
+      return
+    }
+    const Tone = getToneModule()
+    if (Tone) {
+      playNoteAt(AUDITION_NOTE, AUDITION_SECONDS, Tone.now())
+    }
+  }, [auditionPending, isGraphInitialized, config, requestedConfig, triggerGraph, playNoteAt])
+
+  return {
+    favourites: state.favourites,
+    recents: state.recents,
+    toggleFavourite,
+    markUsed,
+    requestAudition
+  }
+}
@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react'
+import type { AudioGraphConfig, GraphPreset } from '../types/audioGraph'
+import { createPresetId, createUserPreset, loadUserPresets, saveUserPresets, snapshotPresetGraph } from '../utils/presetStorage'
+import { CURRENT_PRESET_VERSION } from '../utils/presetMigrations'
+
+export function usePresetLibrary() {
+  const [userPresets, setUserPresets] = useState<GraphPreset[]>(() => loadUserPresets())
+
+  // Persist every change so the library survives reloads
+  const commit = useCallback((update: (presets: GraphPreset[]) => GraphPreset[]) => {
+    setUserPresets(previous => {
+      const next = update(previous)
+      saveUserPresets(next)
+      return next
+    })
+  }, [])
+
+  const getUserPreset = useCallback((presetId: string): GraphPreset | undefined => {
+    return userPresets.find(preset => preset.presetId === presetId)
+  }, [userPresets])
+
+  // Save the given config as a new user preset, remembering the factory preset it came from
+  const saveAs = useCallback((config: AudioGraphConfig, name: string, sourcePresetId?: string): GraphPreset => {
+    const preset = createUserPreset(config, name, sourcePresetId)
+    commit(presets => [...presets, preset])
+    console.log('💾 Saved user preset:', name, preset.presetId)
+    return preset
+  }, [commit])
+
+  // Overwrite an existing user preset's graph with the given config
+  const overwrite = useCallback((presetId: string, config: AudioGraphConfig) => {
+    commit(presets => presets.map(preset =>
+      preset.presetId === presetId
+        ? {
+            ...preset,
+            graph: snapshotPresetGraph(config.graph),
+            metadata: config.metadata && structuredClone(config.metadata),
+            version: CURRENT_PRESET_VERSION
+          }
+        : preset
+    ))
+    console.log('💾 Updated user preset:', presetId)
+  }, [commit])
+
+  const rename = useCallback((presetId: string, name: string) => {
+    commit(presets => presets.map(preset =>
+      preset.presetId === presetId ? { ...preset, name } : preset
+    ))
+  }, [commit])
+
+  const duplicate = useCallback((presetId: string): GraphPreset | null => {
+    const original = userPresets.find(preset => preset.presetId === presetId)
+    if (!original) {
+      console.warn('⚠️ Cannot duplicate unknown preset:', presetId)
+      return null
+    }
+
+    const copy: GraphPreset = {
+      ...structuredClone(original),
+      name: `${original.name} (copy)`,
+      presetId: createPresetId()
+    }
+    commit(presets => [...presets, copy])
+    return copy
+  }, [userPresets, commit])
+
+  const remove = useCallback((presetId: string) => {
+    commit(presets => presets.filter(preset => preset.presetId !== presetId))
+    console.log('🗑️ Deleted user preset:', presetId)
+  }, [commit])
+
+  return {
+    userPresets,
+    getUserPreset,
+    saveAs,
+    overwrite,
+    rename,
+    duplicate,
+    remove
+  }
+}
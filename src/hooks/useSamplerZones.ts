@@ -0,0 +1,141 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import type { SamplerZone } from '../types/sampler'
+import { getToneModule } from '../utils/toneLoader'
+import { midiNoteToName } from '../utils/midi'
+import { getSampleUrl, saveSample } from '../utils/sampleStore'
+import { autoMapKeyRanges, createZone, DEFAULT_ROOT_NOTE, isSupportedSampleFile, MAX_VELOCITY, parseRootNote } from '../utils/samplerZones'
+
+const PREVIEW_SECONDS = 1
+
+interface UseSamplerZonesOptions {
+  onNodeSettingsChange: (nodeId: string, settings: Record<string, unknown>) => void
+  playNoteAt: (note: string | number, duration: number, time: number, velocity?: number) => void
+}
+
+export type SamplerZones = ReturnType<typeof useSamplerZones>
+
+const EMPTY_ZONES: SamplerZone[] = []
+
+/**
+ * Zone editing for the graph's Sampler: importing local audio files into the sample store,
+ * mapping them across the keyboard and auditioning them. Zones live in the Sampler node's settings,
+ * so they are saved, shared and undone with the preset.
+ */
+export function useSamplerZones(config: AudioGraphConfig | null, { onNodeSettingsChange, playNoteAt }: UseSamplerZonesOptions) {
+  const samplerEntry = config
+    ? Object.entries(config.graph.nodes).find(([, node]) => node.trigger && node.type === 'Sampler')
+    : undefined
+  const nodeId = samplerEntry?.[0] ?? null
+  const zones: SamplerZone[] = samplerEntry?.[1].settings?.zones || EMPTY_ZONES
+
+  const [isImporting, setIsImporting] = useState(false)
+  const [rejectedFiles, setRejectedFiles] = useState<string[]>([])
+  const [missingSampleIds, setMissingSampleIds] = useState<string[]>([])
+
+  // Imports finish after the zones may have changed, so they append to the latest list
+  const zonesRef = useRef(zones)
+  useEffect(() => {
+    zonesRef.current = zones
+  }, [zones])
+
+  // Zones can reference audio this browser never stored, e.g. in a patch shared from another machine
+  const sampleIdsKey = Array.from(new Set(zones.map(zone => zone.sampleId))).join(',')
+  useEffect(() => {
+    let cancelled = false
+    const sampleIds = sampleIdsKey ? sampleIdsKey.split(',') : []
+    Promise.all(sampleIds.map(async id => (await getSampleUrl(id)) ? null : id)).then(missing => {
+      if (!cancelled) {
+        setMissingSampleIds(missing.filter((id): id is string => id !== null))
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sampleIdsKey])
+
+  const setZones = useCallback((nextZones: SamplerZone[]) => {
+    if (nodeId) {
+      onNodeSettingsChange(nodeId, { zones: nextZones })
+    }
+  }, [nodeId, onNodeSettingsChange])
+
+  // Each accepted file becomes a zone at the root note its name gives (C4 otherwise);
+  // new zones share the keyboard with the existing ones, which keep their ranges
+  const importFiles = useCallback(async (files: File[]) => {
+    const Tone = getToneModule()
+    if (!nodeId || !Tone || files.length === 0) return
+
+    setIsImporting(true)
+    const rejected: string[] = []
+    const added: SamplerZone[] = []
+
+    for (const file of files) {
+      if (!isSupportedSampleFile(file)) {
+        rejected.push(`${file.name} is not a WAV, MP3, OGG or FLAC file`)
+        continue
+      }
+      try {
+        // Decoding up front rejects files this browser cannot play before they are stored
+        const audio = await Tone.getContext().decodeAudioData(await file.arrayBuffer())
+        const sample = await saveSample(file, audio.duration)
+        if (!sample) {
+          rejected.push(`${file.name} could not be stored in this browser`)
+          continue
+        }
+        added.push(createZone(sample.id, file.name, parseRootNote(file.name) ?? DEFAULT_ROOT_NOTE))
+      } catch (error) {
+        console.error('❌ Failed to decode sample:', file.name, error)
+        rejected.push(`${file.name} could not be decoded by this browser`)
+      }
+    }
+
+    setRejectedFiles(rejected)
+    setIsImporting(false)
+
+    if (added.length > 0) {
+      const current = zonesRef.current
+      setZones([...current, ...autoMapKeyRanges([...current, ...added]).slice(current.length)])
+      console.log('🎚️ Added sampler zones:', added.map(zone => `${zone.name} @ ${midiNoteToName(zone.rootNote)}`))
+    }
+  }, [nodeId, setZones])
+
+  const updateZone = useCallback((zoneId: string, changes: Partial<Omit<SamplerZone, 'id' | 'sampleId'>>) => {
+    setZones(zonesRef.current.map(zone => zone.id === zoneId ? { ...zone, ...changes } : zone))
+  }, [setZones])
+
+  // The sample stays in the store so undo, and other presets using it, still play
+  const removeZone = useCallback((zoneId: string) => {
+    setZones(zonesRef.current.filter(zone => zone.id !== zoneId))
+  }, [setZones])
+
+  const autoMap = useCallback(() => {
+    setZones(autoMapKeyRanges(zonesRef.current))
+  }, [setZones])
+
+  const clearRejectedFiles = useCallback(() => {
+    setRejectedFiles([])
+  }, [])
+
+  // Play a zone at its root note, loud enough to land inside its velocity range
+  const previewZone = useCallback((zone: SamplerZone) => {
+    const Tone = getToneModule()
+    if (Tone) {
+      playNoteAt(midiNoteToName(zone.rootNote), PREVIEW_SECONDS, Tone.now(), zone.velocityRange[1] / MAX_VELOCITY)
+    }
+  }, [playNoteAt])
+
+  return {
+    nodeId,
+    zones,
+    missingSampleIds,
+    isImporting,
+    rejectedFiles,
+    importFiles,
+    updateZone,
+    removeZone,
+    autoMap,
+    clearRejectedFiles,
+    previewZone
+  }
+}
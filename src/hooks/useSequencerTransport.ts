@@ -0,0 +1,89 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { StepSequence } from '../types/audioGraph'
+import { getToneModule } from '../utils/toneLoader'
+import { STEP_SUBDIVISION } from '../utils/sequencer'
+
+type SequencerTiming = Pick<StepSequence, 'length' | 'bpm' | 'swing'>
+
+// Called ahead of time for every step; `time` is the AudioContext time the step sounds at
+export type StepCallback = (index: number, time: number, stepSeconds: number) => void
+
+/**
+ * Runs a step pattern on the Tone.js Transport, one 16th note per step, with tempo and swing.
+ * The Transport is shared by the whole app, so only a running sequencer touches its tempo.
+ */
+export function useSequencerTransport(timing: SequencerTiming, onStep: StepCallback) {
+  const [isRunning, setIsRunning] = useState(false)
+  const [currentStep, setCurrentStep] = useState<number | null>(null)
+  const repeatIdRef = useRef<number | null>(null)
+  const nextStepRef = useRef(0)
+
+  // The Transport callback outlives renders, so it reads the latest timing and callback from refs
+  const timingRef = useRef(timing)
+  const onStepRef = useRef(onStep)
+  useEffect(() => {
+    timingRef.current = timing
+    onStepRef.current = onStep
+  }, [timing, onStep])
+
+  const applyTiming = useCallback(() => {
+    const Tone = getToneModule()
+    if (!Tone) return
+    const transport = Tone.getTransport()
+    transport.bpm.value = timingRef.current.bpm
+    transport.swing = timingRef.current.swing
+    transport.swingSubdivision = STEP_SUBDIVISION
+  }, [])
+
+  // Tempo and swing follow edits while running
+  useEffect(() => {
+    if (repeatIdRef.current !== null) {
+      applyTiming()
+    }
+  }, [timing.bpm, timing.swing, applyTiming])
+
+  const stop = useCallback(() => {
+    const Tone = getToneModule()
+    if (Tone && repeatIdRef.current !== null) {
+      const transport = Tone.getTransport()
+      transport.clear(repeatIdRef.current)
+      transport.stop()
+    }
+    repeatIdRef.current = null
+    setIsRunning(false)
+    setCurrentStep(null)
+  }, [])
+
+  const start = useCallback(() => {
+    const Tone = getToneModule()
+    if (!Tone) {
+      console.error('❌ Tone.js not loaded! Cannot start sequencer.')
+      return
+    }
+    if (repeatIdRef.current !== null) return
+
+    const transport = Tone.getTransport()
+    applyTiming()
+    nextStepRef.current = 0
+
+    repeatIdRef.current = transport.scheduleRepeat(time => {
+      const index = nextStepRef.current % timingRef.current.length
+      nextStepRef.current = index + 1
+
+      onStepRef.current(index, time, Tone.Time(STEP_SUBDIVISION).toSeconds())
+
+      // Move the playhead when the step is heard, not when it is scheduled ahead
+      Tone.getDraw().schedule(() => setCurrentStep(index), time)
+    }, STEP_SUBDIVISION, 0)
+
+    transport.position = 0
+    transport.start()
+    setIsRunning(true)
+    console.log('▶️ Sequencer started at', timingRef.current.bpm, 'BPM')
+  }, [applyTiming])
+
+  // Stop the Transport when the sequencer goes away
+  useEffect(() => stop, [stop])
+
+  return { isRunning, currentStep, start, stop }
+}
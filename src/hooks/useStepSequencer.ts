@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { AudioGraphConfig, SequencerStep, StepSequence } from '../types/audioGraph'
+import { midiNoteToName } from '../utils/midi'
+import { useSequencerTransport } from './useSequencerTransport'
+import { createDefaultSequence, getStepDuration, getStepVelocity, resizeSequence } from '../utils/sequencer'
+
+interface UseStepSequencerOptions {
+  playNoteAt: (note: string | number, duration: number, time: number, velocity?: number) => void
+  onSequenceChange: (sequence: StepSequence, coalesceKey?: string) => void
+}
+
+/**
+ * Single-track step sequencer for the current graph, running on the Tone.js Transport.
+ * The pattern lives in the graph config, so it is saved, shared and undone with the preset; edits apply on the next step, even while running.
+ */
+export function useStepSequencer(config: AudioGraphConfig | null, { playNoteAt, onSequenceChange }: UseStepSequencerOptions) {
+  const savedSequence = config?.graph.sequence
+  const [defaultSequence] = useState(createDefaultSequence)
+  const sequence = savedSequence ?? defaultSequence
+
+  // Edits made between renders (and the Transport callback) work on the latest pattern
+  const sequenceRef = useRef(sequence)
+  useEffect(() => {
+    sequenceRef.current = sequence
+  }, [sequence])
+
+  const playStep = useCallback((index: number, time: number, stepSeconds: number) => {
+    const step = sequenceRef.current.steps[index]
+    if (step?.active) {
+      playNoteAt(midiNoteToName(step.note), getStepDuration(step, stepSeconds), time, getStepVelocity(step))
+    }
+  }, [playNoteAt])
+
+  const { isRunning, currentStep, start, stop } = useSequencerTransport(sequence, playStep)
+
+  const updateStep = useCallback((index: number, changes: Partial<SequencerStep>) => {
+    const current = sequenceRef.current
+    const steps = current.steps.map((step, stepIndex) => stepIndex === index ? { ...step, ...changes } : step)
+    onSequenceChange({ ...current, steps }, `step:${index}:${Object.keys(changes).join(',')}`)
+  }, [onSequenceChange])
+
+  const toggleStep = useCallback((index: number) => {
+    const step = sequenceRef.current.steps[index]
+    if (step) {
+      onSequenceChange({
+        ...sequenceRef.current,
+        steps: sequenceRef.current.steps.map((candidate, stepIndex) => stepIndex === index ? { ...step, active: !step.active } : candidate)
+      })
+    }
+  }, [onSequenceChange])
+
+  const setLength = useCallback((length: StepSequence['length']) => {
+    onSequenceChange(resizeSequence(sequenceRef.current, length))
+  }, [onSequenceChange])
+
+  const setBpm = useCallback((bpm: number) => {
+    onSequenceChange({ ...sequenceRef.current, bpm }, 'bpm')
+  }, [onSequenceChange])
+
+  const setSwing = useCallback((swing: number) => {
+    onSequenceChange({ ...sequenceRef.current, swing }, 'swing')
+  }, [onSequenceChange])
+
+  const clearSteps = useCallback(() => {
+    onSequenceChange({
+      ...sequenceRef.current,
+      steps: sequenceRef.current.steps.map(step => ({ ...step, active: false, accent: false }))
+    })
+  }, [onSequenceChange])
+
+  return {
+    sequence,
+    isRunning,
+    currentStep,
+    start,
+    stop,
+    toggleStep,
+    updateStep,
+    setLength,
+    setBpm,
+    setSwing,
+    clearSteps
+  }
+}
@@ -0,0 +1,50 @@
+import { useState, useCallback } from 'react'
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { renderGraphOffline, type OfflineRenderOptions } from '../utils/offlineRender'
+import { encodeWav, type WavBitDepth } from '../utils/wavEncoder'
+
+export interface WavExportOptions extends OfflineRenderOptions {
+  bitDepth: WavBitDepth
+}
+
+// "Deep Bass Kick!" -> "deep-bass-kick"
+const toFileName = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'sound'
+
+/**
+ * Renders the current graph offline and downloads it as a WAV file
+ */
+export function useWavExport(config: AudioGraphConfig | null) {
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const exportWav = useCallback(async (options: WavExportOptions): Promise<boolean> => {
+    if (!config) return false
+
+    setIsExporting(true)
+    setError(null)
+    try {
+      const rendered = await renderGraphOffline(config, options)
+      const wav = encodeWav(rendered.channels, rendered.sampleRate, options.bitDepth)
+
+      const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${toFileName(config.name)}.wav`
+      link.click()
+      // Give the browser a moment to start the download before the URL goes away
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      console.log('💾 Exported WAV:', link.download, `${(wav.byteLength / 1024).toFixed(0)} KB`)
+      return true
+    } catch (exportError) {
+      console.error('❌ Failed to export WAV:', exportError)
+      setError(exportError instanceof Error ? exportError.message : String(exportError))
+      return false
+    } finally {
+      setIsExporting(false)
+    }
+  }, [config])
+
+  return { isExporting, error, exportWav }
+}
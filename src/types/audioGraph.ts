@@ -1,43 +1,46 @@
 // Audio graph type definitions for the modular synthesis system
 
-// Basic node types supported by the graph system
-export type AudioNodeType = 
-  | 'Synth'
-  | 'MembraneSynth'
-  | 'AMSynth'
-  | 'FMSynth'
-  | 'DuoSynth'
-  | 'MonoSynth'
-  | 'PluckSynth'
-  | 'PolySynth'
-  | 'MetalSynth'
-  | 'NoiseSynth'
-  | 'Sampler'
-  | 'Oscillator'
-  | 'LFO'
-  | 'Filter'
-  | 'ADSR'
-  | 'Multiply'
-  | 'Add'
-  | 'Gain'
-  | 'Delay'
-  | 'Reverb'
-  | 'Distortion'
-  | 'Chorus'
-  | 'PingPongDelay'
-  | 'AutoFilter'
-  | 'AutoPanner'
-  | 'AutoWah'
-  | 'BitCrusher'
-  | 'Chebyshev'
-  | 'FeedbackDelay'
-  | 'Freeverb'
-  | 'JCReverb'
-  | 'Phaser'
-  | 'Tremolo'
-  | 'Vibrato'
-  | 'Output'
-  | 'Recorder'
+// Basic node types supported by the graph system (listed at runtime for validation)
+export const AUDIO_NODE_TYPES = [
+  'Synth',
+  'MembraneSynth',
+  'AMSynth',
+  'FMSynth',
+  'DuoSynth',
+  'MonoSynth',
+  'PluckSynth',
+  'PolySynth',
+  'MetalSynth',
+  'NoiseSynth',
+  'Sampler',
+  'Oscillator',
+  'LFO',
+  'Filter',
+  'ADSR',
+  'Multiply',
+  'Add',
+  'Gain',
+  'Delay',
+  'Reverb',
+  'Distortion',
+  'Chorus',
+  'PingPongDelay',
+  'AutoFilter',
+  'AutoPanner',
+  'AutoWah',
+  'BitCrusher',
+  'Chebyshev',
+  'FeedbackDelay',
+  'Freeverb',
+  'JCReverb',
+  'Phaser',
+  'Tremolo',
+  'Vibrato',
+  'Output',
+  'Recorder'
+] as const
+
+export type AudioNodeType = typeof AUDIO_NODE_TYPES[number]
 
 // Signal types for type safety
 export type SignalType = 'audio' | 'cv' // cv = control voltage
@@ -50,6 +53,13 @@ export interface AudioNodeDefinition {
   inputs?: string[] // Expected input connection points
   outputs?: string[] // Available output connection points
   signalType?: SignalType
+  position?: NodePosition // Where the node sits in the patch editor
+}
+
+// Canvas coordinates of a node in the patch editor
+export interface NodePosition {
+  x: number
+  y: number
 }
 
 // Connection between nodes
@@ -65,6 +75,31 @@ export interface ModulationRoute {
   destination: string // parameter path like "filter.cutoff"
   amount: number // modulation amount/depth
   scale?: [number, number] // scale range for modulation
+  enabled?: boolean // false keeps the route in the patch without modulating anything
+}
+
+// MIDI controller bound to a parameter through MIDI learn
+export interface MidiCCBinding {
+  controller: number // CC number, 0-127
+  channel?: number // 1-16; omitted responds on every channel
+  target: string // parameter path like "synth.envelope.attack"
+}
+
+// One step of the step sequencer
+export interface SequencerStep {
+  active: boolean
+  note: number // MIDI note number
+  velocity: number // 0-1
+  gate: number // Fraction of the step the note is held, 0-1
+  accent: boolean
+}
+
+// Step sequencer pattern, played on Tone.js Transport
+export interface StepSequence {
+  length: 16 | 32
+  bpm: number
+  swing: number // 0-1, delays every second 16th note
+  steps: SequencerStep[] // Exactly `length` steps
 }
 
 // Graph definition
@@ -72,6 +107,8 @@ export interface AudioGraphDefinition {
   nodes: Record<string, AudioNodeDefinition>
   connections: AudioConnection[]
   modulation?: ModulationRoute[]
+  midiBindings?: MidiCCBinding[] // Hardware controllers learned for this patch
+  sequence?: StepSequence // Pattern played by the step sequencer
   trigger: 'momentary' | 'sustained' // How the graph responds to triggers
 }
 
@@ -110,6 +147,7 @@ export interface AudioGraphState {
 export interface GraphPreset extends AudioGraphConfig {
   presetId: string
   version: string
+  sourcePresetId?: string // Factory preset a user preset was saved from, as its preset select value (e.g. "synth", "chain:acidBass")
 }
 
 // Legacy compatibility types (to be phased out)
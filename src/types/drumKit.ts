@@ -0,0 +1,21 @@
+import type { AudioGraphConfig, SequencerStep, StepSequence } from './audioGraph'
+
+// One pad of a drum kit: a complete instrument graph played as one-shot hits
+export interface DrumPad {
+  id: string
+  name: string
+  config: AudioGraphConfig
+  note: number // MIDI note that plays the pad (General MIDI drum map by default)
+  gain: number // 0-1
+  pan: number // -1 (left) to 1 (right)
+  steps: SequencerStep[] // The pad's row in the kit pattern; step notes are unused, pads keep their own pitch
+}
+
+// Several graphs loaded at once, each on its own pad, sharing one pattern timing
+export interface DrumKit {
+  name: string
+  pads: DrumPad[]
+  length: StepSequence['length']
+  bpm: number
+  swing: number
+}
@@ -0,0 +1,36 @@
+// Minimal Web MIDI surface used by the app
+// The browser's MIDIAccess satisfies these interfaces, and so does the mock in utils/midi.ts
+
+export interface MidiMessageEventLike {
+  data: Uint8Array | null
+}
+
+export interface MidiInputLike {
+  id: string
+  name: string | null
+  manufacturer: string | null
+  state: string // 'connected' | 'disconnected'
+  addEventListener(type: 'midimessage', listener: (event: MidiMessageEventLike) => void): void
+  removeEventListener(type: 'midimessage', listener: (event: MidiMessageEventLike) => void): void
+}
+
+export interface MidiAccessLike {
+  inputs: ReadonlyMap<string, MidiInputLike>
+  addEventListener(type: 'statechange', listener: () => void): void
+  removeEventListener(type: 'statechange', listener: () => void): void
+}
+
+export type RequestMidiAccess = () => Promise<MidiAccessLike>
+
+// Channel voice messages the instrument responds to; channels are 1-16
+export type MidiMessage =
+  | { type: 'noteon'; channel: number; note: number; velocity: number }
+  | { type: 'noteoff'; channel: number; note: number }
+  | { type: 'controlchange'; channel: number; controller: number; value: number }
+
+export interface MidiInputDevice {
+  id: string
+  name: string
+  manufacturer: string
+  connected: boolean
+}
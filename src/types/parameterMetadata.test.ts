@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { getParameterMetadata, parseSelectValue, type ParameterMetadata } from './parameterMetadata'
+
+describe('parseSelectValue', () => {
+  const rolloff = getParameterMetadata('rolloff', 'Filter') as ParameterMetadata
+  const oversample = getParameterMetadata('oversample', 'Distortion') as ParameterMetadata
+
+  it('writes numeric options back as numbers', () => {
+    expect(parseSelectValue('-24', -12, rolloff)).toBe(-24)
+  })
+
+  it('treats an unset setting with numeric options as numeric', () => {
+    expect(parseSelectValue('-48', undefined, rolloff)).toBe(-48)
+  })
+
+  it('keeps string options as strings', () => {
+    expect(parseSelectValue('2x', 'none', oversample)).toBe('2x')
+    expect(parseSelectValue('none', undefined, oversample)).toBe('none')
+  })
+
+  it('keeps a string setting a string even when the option looks numeric', () => {
+    expect(parseSelectValue('-24', '-12', rolloff)).toBe('-24')
+  })
+})
@@ -1,5 +1,7 @@
 // Parameter metadata for auto-generating UI controls from audio graph configs
 
+import type { AudioGraphConfig, AudioNodeType } from './audioGraph'
+
 export type ControlType = 'slider' | 'select' | 'toggle'
 
 export interface ParameterRange {
@@ -16,6 +18,8 @@ export interface ParameterMetadata {
   formatDisplay?: (value: number) => string
   // For logarithmic scaling (like frequency)
   scale?: 'linear' | 'logarithmic'
+  // Real value bounds when `range` is the slider range of a logarithmic control
+  valueRange?: ParameterRange
   // Transform functions for logarithmic sliders
   toSlider?: (value: number) => number
   fromSlider?: (sliderValue: number) => number
@@ -113,11 +117,95 @@ export const parameterMetadata: Record<string, ParameterMetadata> = {
     unit: '',
     range: { min: 1, max: 100, step: 1 },
     description: 'Depth of frequency modulation. 0 = no modulation, 1-5 = subtle harmonics, 10-20 = rich harmonic content, 50+ = complex bell-like/metallic timbres.'
+  },
+
+  detune: {
+    controlType: 'slider',
+    unit: 'ct',
+    range: { min: -1200, max: 1200, step: 1 },
+    description: 'Pitch offset in cents. 100 cents = one semitone.'
+  },
+
+  // Effect parameters
+  wet: {
+    controlType: 'slider',
+    unit: '',
+    range: { min: 0, max: 1, step: 0.01 },
+    formatDisplay: (value: number) => `${Math.round(value * 100)}%`,
+    description: 'Balance between the dry input and the processed signal. 0% = dry only, 100% = effect only.'
+  }
+}
+
+// Shared building blocks for the per-node-type metadata below
+
+// Logarithmic slider over a frequency range, so each octave gets equal slider travel
+const logarithmicFrequency = (minHz: number, maxHz: number): Pick<ParameterMetadata, 'range' | 'valueRange' | 'scale' | 'formatDisplay' | 'toSlider' | 'fromSlider'> => {
+  const octaves = Math.log2(maxHz / minHz)
+  return {
+    range: { min: 0, max: 1000, step: 1 },
+    valueRange: { min: minHz, max: maxHz },
+    scale: 'logarithmic',
+    formatDisplay: (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toString(),
+    toSlider: (frequency: number) => Math.log2(Math.max(frequency, minHz) / minHz) / octaves * 1000,
+    fromSlider: (sliderValue: number) => Math.round(minHz * Math.pow(2, sliderValue / 1000 * octaves))
   }
 }
 
-// Context-aware parameter metadata for instrument-specific parameters
-const instrumentSpecificMetadata: Record<string, Record<string, ParameterMetadata>> = {
+const waveformOptions = parameterMetadata.oscillatorType.options
+
+const oversampleOptions = [
+  { value: 'none', label: 'None' },
+  { value: '2x', label: '2x' },
+  { value: '4x', label: '4x' }
+]
+
+const rolloffOptions = [
+  { value: '-12', label: '-12 dB/oct' },
+  { value: '-24', label: '-24 dB/oct' },
+  { value: '-48', label: '-48 dB/oct' },
+  { value: '-96', label: '-96 dB/oct' }
+]
+
+const lfoRate = (description: string): ParameterMetadata => ({
+  controlType: 'slider',
+  unit: 'Hz',
+  range: { min: 0.1, max: 20, step: 0.1 },
+  description
+})
+
+const modulationDepth = (description: string): ParameterMetadata => ({
+  controlType: 'slider',
+  unit: '',
+  range: { min: 0, max: 1, step: 0.01 },
+  formatDisplay: (value: number) => `${Math.round(value * 100)}%`,
+  description
+})
+
+const delayFeedback: ParameterMetadata = {
+  controlType: 'slider',
+  unit: '',
+  range: { min: 0, max: 0.95, step: 0.01 },
+  formatDisplay: (value: number) => `${Math.round(value * 100)}%`,
+  description: 'Amount of the delayed signal fed back into the delay. Higher values give more repeats.'
+}
+
+const delayTime = (maxSeconds: number): ParameterMetadata => ({
+  controlType: 'slider',
+  unit: 's',
+  range: { min: 0, max: maxSeconds, step: 0.01 },
+  description: 'Time between the input and its delayed copy.'
+})
+
+const envelopeTime = (maxSeconds: number, description: string): ParameterMetadata => ({
+  controlType: 'slider',
+  unit: 's',
+  range: { min: 0.001, max: maxSeconds, step: 0.001 },
+  description
+})
+
+// Per-node-type metadata, consulted before the general map.
+// Covers parameters whose meaning or range depends on the node (e.g. `frequency` is an LFO rate on Tremolo).
+export const nodeParameterMetadata: Partial<Record<AudioNodeType, Record<string, ParameterMetadata>>> = {
   MetalSynth: {
     resonance: {
       controlType: 'slider',
@@ -125,6 +213,12 @@ const instrumentSpecificMetadata: Record<string, Record<string, ParameterMetadat
       range: { min: 0, max: 7000, step: 50 },
       formatDisplay: (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toString(),
       description: 'Highpass filter cutoff frequency. Controls the brightness and metallic character. Higher values create brighter, more bell-like sounds.'
+    },
+    octaves: {
+      controlType: 'slider',
+      unit: 'oct',
+      range: { min: 0, max: 8, step: 0.1 },
+      description: 'Number of octaves above the resonance frequency the highpass filter sweeps through on each hit.'
     }
   },
   
@@ -151,6 +245,17 @@ const instrumentSpecificMetadata: Record<string, Record<string, ParameterMetadat
       description: 'FM synthesis depth. Controls spectral complexity. Low values (1-10) add harmonics, high values (20+) create bell-like, metallic sounds.'
     }
   },
+
+  DuoSynth: {
+    harmonicity: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0.1, max: 10, step: 0.1 },
+      description: 'Frequency ratio of the second voice to the first. 1.0 = unison, 2.0 = an octave up, 1.5 = a fifth up.'
+    },
+    vibratoAmount: modulationDepth('Depth of the vibrato applied to both voices.'),
+    vibratoRate: lfoRate('Speed of the vibrato applied to both voices.')
+  },
   
   MonoSynth: {
     // Filter parameters
@@ -172,12 +277,7 @@ const instrumentSpecificMetadata: Record<string, Record<string, ParameterMetadat
     },
     rolloff: {
       controlType: 'select',
-      options: [
-        { value: '-12', label: '-12 dB/oct' },
-        { value: '-24', label: '-24 dB/oct' },
-        { value: '-48', label: '-48 dB/oct' },
-        { value: '-96', label: '-96 dB/oct' }
-      ],
+      options: rolloffOptions,
       description: 'Filter slope steepness. Controls how sharply the filter cuts frequencies. -12 dB/oct is gentle and musical, -96 dB/oct is very sharp and aggressive.'
     },
     
@@ -228,14 +328,365 @@ const instrumentSpecificMetadata: Record<string, Record<string, ParameterMetadat
       range: { min: 0.1, max: 5.0, step: 0.1 },
       description: 'Release time for resonance ramp down. Controls how quickly the pluck fades out after being triggered.'
     }
+  },
+
+  PolySynth: {
+    maxPolyphony: {
+      controlType: 'slider',
+      unit: 'voices',
+      range: { min: 1, max: 32, step: 1 },
+      description: 'Maximum number of notes that can sound at once. Playing more notes steals a voice.'
+    },
+    voiceStealing: {
+      controlType: 'select',
+      options: [
+        { value: 'oldest', label: 'Oldest note' },
+        { value: 'softest', label: 'Softest velocity' }
+      ],
+      description: 'Which sounding note is cut when a new note needs a voice and every voice is busy.'
+    }
+  },
+
+  Sampler: {
+    attack: envelopeTime(2, 'Fade-in time applied to each sample when it starts.'),
+    release: envelopeTime(5, 'Fade-out time applied to each sample after the note is released.')
+  },
+
+  // Sources
+  Oscillator: {
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Oscillator waveform.'
+    },
+    phase: {
+      controlType: 'slider',
+      unit: '°',
+      range: { min: 0, max: 360, step: 1 },
+      description: 'Starting phase of the waveform.'
+    }
+  },
+
+  LFO: {
+    frequency: lfoRate('Speed of the low frequency oscillator.'),
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Shape of the modulation cycle.'
+    },
+    min: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: -1000, max: 5000, step: 1 },
+      description: 'Lowest value the LFO outputs. Set it to the bottom of the range of the parameter it modulates.'
+    },
+    max: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: -1000, max: 5000, step: 1 },
+      description: 'Highest value the LFO outputs. Set it to the top of the range of the parameter it modulates.'
+    },
+    amplitude: modulationDepth('Scales the LFO output between its centre and full swing.')
+  },
+
+  // Filters and dynamics
+  Filter: {
+    frequency: {
+      controlType: 'slider',
+      unit: 'Hz',
+      ...logarithmicFrequency(20, 20000),
+      description: 'Cutoff or centre frequency of the filter.'
+    },
+    type: {
+      controlType: 'select',
+      options: parameterMetadata.filterType.options,
+      description: 'Filter response. Lowpass keeps lows, highpass keeps highs, bandpass keeps a band around the frequency, shelves and peaking boost or cut by the gain.'
+    },
+    rolloff: {
+      controlType: 'select',
+      options: rolloffOptions,
+      description: 'Steepness of the filter slope.'
+    },
+    gain: {
+      controlType: 'slider',
+      unit: 'dB',
+      range: { min: -40, max: 40, step: 0.5 },
+      description: 'Boost or cut applied by shelf and peaking filters. Other filter types ignore it.'
+    }
+  },
+
+  Gain: {
+    gain: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 2, step: 0.01 },
+      description: 'Linear gain factor. 1 leaves the level unchanged, 0 silences the signal.'
+    }
+  },
+
+  // Delays
+  Delay: {
+    delayTime: delayTime(1)
+  },
+
+  FeedbackDelay: {
+    delayTime: delayTime(1),
+    feedback: delayFeedback
+  },
+
+  PingPongDelay: {
+    delayTime: delayTime(1),
+    feedback: delayFeedback
+  },
+
+  // Reverbs
+  Reverb: {
+    decay: {
+      controlType: 'slider',
+      unit: 's',
+      range: { min: 0.1, max: 10, step: 0.1 },
+      description: 'Length of the reverb tail.'
+    },
+    preDelay: {
+      controlType: 'slider',
+      unit: 's',
+      range: { min: 0, max: 0.5, step: 0.005 },
+      description: 'Gap before the reverb tail starts. Longer pre-delays keep the dry attack clear.'
+    }
+  },
+
+  Freeverb: {
+    roomSize: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 0.99, step: 0.01 },
+      description: 'Size of the simulated room. Larger rooms give longer tails.'
+    },
+    dampening: {
+      controlType: 'slider',
+      unit: 'Hz',
+      ...logarithmicFrequency(100, 10000),
+      description: 'Cutoff of the lowpass filter inside the reverb. Lower values give darker reflections.'
+    }
+  },
+
+  JCReverb: {
+    roomSize: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 0.99, step: 0.01 },
+      description: 'Size of the simulated room. Larger rooms give longer tails.'
+    }
+  },
+
+  // Distortion
+  Distortion: {
+    distortion: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 1, step: 0.01 },
+      description: 'Amount of waveshaping distortion.'
+    },
+    oversample: {
+      controlType: 'select',
+      options: oversampleOptions,
+      description: 'Oversampling reduces aliasing at the cost of CPU.'
+    }
+  },
+
+  BitCrusher: {
+    bits: {
+      controlType: 'slider',
+      unit: 'bits',
+      range: { min: 1, max: 16, step: 1 },
+      description: 'Bit depth the signal is reduced to. Fewer bits sound harsher and noisier.'
+    }
+  },
+
+  Chebyshev: {
+    order: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 1, max: 100, step: 1 },
+      description: 'Order of the Chebyshev polynomial. Higher orders add higher harmonics. Odd orders add odd harmonics, even orders even ones.'
+    },
+    oversample: {
+      controlType: 'select',
+      options: oversampleOptions,
+      description: 'Oversampling reduces aliasing at the cost of CPU.'
+    }
+  },
+
+  // Modulation effects
+  Chorus: {
+    frequency: lfoRate('Speed of the chorus modulation.'),
+    delayTime: {
+      controlType: 'slider',
+      unit: 'ms',
+      range: { min: 2, max: 20, step: 0.5 },
+      description: 'Base delay of the chorus voices.'
+    },
+    depth: modulationDepth('How far the delay time is swept.'),
+    spread: {
+      controlType: 'slider',
+      unit: '°',
+      range: { min: 0, max: 180, step: 1 },
+      description: 'Phase offset between the left and right channels. 180° gives the widest stereo image.'
+    },
+    feedback: delayFeedback
+  },
+
+  Phaser: {
+    frequency: lfoRate('Speed of the phaser sweep.'),
+    octaves: {
+      controlType: 'slider',
+      unit: 'oct',
+      range: { min: 0, max: 8, step: 0.1 },
+      description: 'Range of the sweep above the base frequency.'
+    },
+    baseFrequency: {
+      controlType: 'slider',
+      unit: 'Hz',
+      ...logarithmicFrequency(20, 5000),
+      description: 'Lowest frequency of the phaser sweep.'
+    },
+    Q: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0.1, max: 20, step: 0.1 },
+      description: 'Sharpness of the phaser notches.'
+    }
+  },
+
+  AutoFilter: {
+    frequency: lfoRate('Speed of the filter sweep.'),
+    baseFrequency: {
+      controlType: 'slider',
+      unit: 'Hz',
+      ...logarithmicFrequency(20, 5000),
+      description: 'Lowest cutoff frequency of the sweep.'
+    },
+    octaves: {
+      controlType: 'slider',
+      unit: 'oct',
+      range: { min: 0, max: 8, step: 0.1 },
+      description: 'Range of the sweep above the base frequency.'
+    },
+    depth: modulationDepth('How much of the octave range the sweep covers.'),
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Shape of the sweep.'
+    }
+  },
+
+  AutoPanner: {
+    frequency: lfoRate('Speed of the panning.'),
+    depth: modulationDepth('How far the signal is panned from the centre.'),
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Shape of the panning motion.'
+    }
+  },
+
+  AutoWah: {
+    baseFrequency: {
+      controlType: 'slider',
+      unit: 'Hz',
+      ...logarithmicFrequency(20, 2000),
+      description: 'Cutoff of the wah filter when the input is quiet.'
+    },
+    octaves: {
+      controlType: 'slider',
+      unit: 'oct',
+      range: { min: 0, max: 8, step: 0.1 },
+      description: 'How far the filter opens above the base frequency on loud input.'
+    },
+    sensitivity: {
+      controlType: 'slider',
+      unit: 'dB',
+      range: { min: -40, max: 0, step: 1 },
+      description: 'Input level at which the filter starts to open. Lower values react to quieter playing.'
+    },
+    Q: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0.1, max: 20, step: 0.1 },
+      description: 'Resonance of the wah filter.'
+    },
+    gain: {
+      controlType: 'slider',
+      unit: 'dB',
+      range: { min: 0, max: 12, step: 0.5 },
+      description: 'Boost applied at the wah filter peak.'
+    }
+  },
+
+  Tremolo: {
+    frequency: lfoRate('Speed of the volume modulation.'),
+    depth: modulationDepth('Amount of volume modulation.'),
+    spread: {
+      controlType: 'slider',
+      unit: '°',
+      range: { min: 0, max: 180, step: 1 },
+      description: 'Phase offset between the left and right channels.'
+    },
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Shape of the volume modulation.'
+    }
+  },
+
+  Vibrato: {
+    frequency: lfoRate('Speed of the pitch modulation.'),
+    depth: modulationDepth('Amount of pitch modulation.'),
+    type: {
+      controlType: 'select',
+      options: waveformOptions,
+      description: 'Shape of the pitch modulation.'
+    }
+  },
+
+  // Utilities
+  Multiply: {
+    factor: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 10, step: 0.01 },
+      description: 'Value the incoming signal is multiplied by.'
+    }
+  },
+
+  Add: {
+    addend: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: -1000, max: 1000, step: 1 },
+      description: 'Value added to the incoming signal.'
+    }
+  },
+
+  ADSR: {
+    attack: envelopeTime(2, 'Time to rise to full level after the envelope is triggered.'),
+    decay: envelopeTime(2, 'Time to fall from full level to the sustain level.'),
+    sustain: {
+      controlType: 'slider',
+      unit: '',
+      range: { min: 0, max: 1, step: 0.01 },
+      description: 'Level held while the envelope stays triggered.'
+    },
+    release: envelopeTime(5, 'Time to fall to silence after the envelope is released.')
   }
 }
 
-// Helper function to get metadata for a parameter with instrument context
-export function getParameterMetadata(parameterName: string, instrumentType?: string): ParameterMetadata | null {
-  // Check for instrument-specific metadata first
-  if (instrumentType && instrumentSpecificMetadata[instrumentType]?.[parameterName]) {
-    return instrumentSpecificMetadata[instrumentType][parameterName]
+// Helper function to get metadata for a parameter with node type context
+export function getParameterMetadata(parameterName: string, nodeType?: string): ParameterMetadata | null {
+  // Check for node-specific metadata first
+  const nodeMetadata = nodeType ? nodeParameterMetadata[nodeType as AudioNodeType] : undefined
+  if (nodeMetadata?.[parameterName]) {
+    return nodeMetadata[parameterName]
   }
   
   // Fall back to general metadata
@@ -248,4 +699,40 @@ export function shouldShowParameter(parameterName: string): boolean {
   // Skip internal/advanced parameters
   const skipParams = ['envelope', 'oscillator', 'filter', 'filterEnvelope', 'context', 'channelCount', 'numberOfInputs', 'numberOfOutputs']
   return !skipParams.includes(parameterName)
-}
\ No newline at end of file
+}
+
+export interface ControllableParameter {
+  name: string
+  value: unknown
+  metadata: ParameterMetadata
+}
+
+// Settings that get a generic control: shown, described by metadata, and not a nested object
+export function getControllableParameters(settings: Record<string, unknown>, instrumentType?: string): ControllableParameter[] {
+  return Object.entries(settings).flatMap(([name, value]) => {
+    if (!shouldShowParameter(name) || (typeof value === 'object' && value !== null)) {
+      return []
+    }
+    const metadata = getParameterMetadata(name, instrumentType)
+    return metadata ? [{ name, value, metadata }] : []
+  })
+}
+
+// Select options are strings; numeric settings (e.g. rolloff) must be written back as numbers
+export function parseSelectValue(value: string, currentValue: unknown, metadata: ParameterMetadata): string | number {
+  const numericOptions = metadata.options?.every(option => option.value.trim() !== '' && Number.isFinite(Number(option.value)))
+  return typeof currentValue === 'number' || (currentValue === undefined && numericOptions) ? Number(value) : value
+}
+
+// Scalar settings in a graph that would get no control because no metadata describes them
+export function findSettingsWithoutMetadata(config: AudioGraphConfig): string[] {
+  return Object.entries(config.graph.nodes).flatMap(([nodeId, node]) =>
+    Object.entries(node.settings || {})
+      .filter(([name, value]) =>
+        shouldShowParameter(name) &&
+        (typeof value !== 'object' || value === null) &&
+        !getParameterMetadata(name, node.type)
+      )
+      .map(([name]) => `${nodeId}.${name}`)
+  )
+}
@@ -0,0 +1,21 @@
+// One sample of a Sampler node, stored in the node's `zones` setting.
+// The audio itself lives in the local sample store and is referenced by `sampleId`.
+export interface SamplerZone {
+  id: string
+  sampleId: string
+  name: string // Original file name, for display
+  rootNote: number // MIDI note the sample plays back at its recorded pitch
+  keyRange: [number, number] // Lowest and highest MIDI note the zone plays, inclusive
+  velocityRange: [number, number] // Lowest and highest MIDI velocity (1-127) the zone plays, inclusive
+}
+
+// A sample held in the local sample store
+export interface StoredSample {
+  id: string
+  name: string
+  type: string // MIME type of the original file
+  size: number // Bytes
+  duration: number // Seconds
+  createdAt: number
+  data: Blob
+}
@@ -0,0 +1,66 @@
+/**
+ * Computer keyboard as a piano: the home row plays white keys and the row above plays black keys.
+ * Physical key codes are used, so the layout works the same on QWERTY, AZERTY and QWERTZ keyboards.
+ */
+
+export const MIN_KEYBOARD_OCTAVE = 0
+export const MAX_KEYBOARD_OCTAVE = 8
+export const DEFAULT_KEYBOARD_OCTAVE = 4
+
+export const OCTAVE_DOWN_KEY = 'KeyZ'
+export const OCTAVE_UP_KEY = 'KeyX'
+
+// Semitones above C of the current octave
+const KEY_OFFSETS: Record<string, number> = {
+  KeyA: 0, // C
+  KeyW: 1, // C#
+  KeyS: 2, // D
+  KeyE: 3, // D#
+  KeyD: 4, // E
+  KeyF: 5, // F
+  KeyT: 6, // F#
+  KeyG: 7, // G
+  KeyY: 8, // G#
+  KeyH: 9, // A
+  KeyU: 10, // A#
+  KeyJ: 11, // B
+  KeyK: 12, // C
+  KeyO: 13, // C#
+  KeyL: 14, // D
+  KeyP: 15, // D#
+  Semicolon: 16 // E
+}
+
+/**
+ * MIDI note played by a key code in the given octave, or null for keys that play nothing
+ */
+export function getNoteForKey(code: string, octave: number): number | null {
+  const offset = KEY_OFFSETS[code]
+  if (offset === undefined) {
+    return null
+  }
+  const note = (octave + 1) * 12 + offset
+  return note >= 0 && note <= 127 ? note : null
+}
+
+/**
+ * Key label for each MIDI note reachable from the keyboard in the given octave, for drawing on piano keys
+ */
+export function getKeyLabels(octave: number): Map<number, string> {
+  const labels = new Map<number, string>()
+  for (const code of Object.keys(KEY_OFFSETS)) {
+    const note = getNoteForKey(code, octave)
+    if (note !== null) {
+      labels.set(note, code === 'Semicolon' ? ';' : code.replace('Key', ''))
+    }
+  }
+  return labels
+}
+
+// Typing into a field should never play notes
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
@@ -0,0 +1,90 @@
+/**
+ * Drum kit helpers: pad lookup by key and MIDI note, pattern resizing, and persistence in localStorage
+ */
+
+import type { DrumKit, DrumPad } from '../types/drumKit'
+import type { StepSequence } from '../types/audioGraph'
+import { validateGraphConfig, formatGraphConfigIssue } from './graphConfigValidator'
+import { resizeSequence } from './sequencer'
+
+const STORAGE_KEY = 'audio-bass.drumKit'
+
+// Pads are played from the home row, left to right
+export const KIT_PAD_KEYS = ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK']
+export const MAX_KIT_PADS = KIT_PAD_KEYS.length
+
+export function getPadKeyLabel(index: number): string | undefined {
+  return KIT_PAD_KEYS[index]?.replace('Key', '')
+}
+
+export function findPadForKey(kit: DrumKit, code: string): DrumPad | undefined {
+  const index = KIT_PAD_KEYS.indexOf(code)
+  return index === -1 ? undefined : kit.pads[index]
+}
+
+export function findPadsForNote(kit: DrumKit, note: number): DrumPad[] {
+  return kit.pads.filter(pad => pad.note === note)
+}
+
+/**
+ * Change the kit pattern length; every pad row grows or shrinks like a single-track sequence
+ */
+export function resizeKitPattern(kit: DrumKit, length: StepSequence['length']): DrumKit {
+  return {
+    ...kit,
+    length,
+    pads: kit.pads.map(pad => ({
+      ...pad,
+      steps: resizeSequence({ length: kit.length, bpm: kit.bpm, swing: kit.swing, steps: pad.steps }, length).steps
+    }))
+  }
+}
+
+const isValidPad = (pad: DrumPad, length: number): boolean =>
+  typeof pad?.id === 'string' &&
+  typeof pad.name === 'string' &&
+  Number.isInteger(pad.note) &&
+  typeof pad.gain === 'number' &&
+  typeof pad.pan === 'number' &&
+  Array.isArray(pad.steps) && pad.steps.length === length
+
+/**
+ * Load the stored kit, or null when there is none; pads whose graph no longer validates are dropped
+ */
+export function loadDrumKit(): DrumKit | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) {
+      return null
+    }
+
+    const kit = JSON.parse(stored) as DrumKit
+    if (!Array.isArray(kit?.pads) || (kit.length !== 16 && kit.length !== 32)) {
+      console.warn('⚠️ Ignoring malformed drum kit storage')
+      return null
+    }
+
+    const pads = kit.pads.filter(pad => {
+      const validation = validateGraphConfig(pad?.config)
+      if (!isValidPad(pad, kit.length) || !validation.valid) {
+        console.warn('⚠️ Skipping invalid stored drum pad:', pad?.name, validation.errors.map(formatGraphConfigIssue))
+        return false
+      }
+      return true
+    })
+    return { ...kit, pads }
+  } catch (error) {
+    console.error('❌ Failed to load drum kit:', error)
+    return null
+  }
+}
+
+export function saveDrumKit(kit: DrumKit): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kit))
+    return true
+  } catch (error) {
+    console.error('❌ Failed to save drum kit:', error)
+    return false
+  }
+}
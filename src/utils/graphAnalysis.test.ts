@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { AudioNodeType } from '../types/audioGraph'
+import { analyzeGraph, findCycles, findUnreachableNodes, getTopologicalOrder, wouldCreateCycle, type AnalyzableGraph } from './graphAnalysis'
+
+// Nodes by id and type, wired by "from>to" pairs
+const createGraph = (nodes: Record<string, AudioNodeType>, connections: string[] = [], modulation: AnalyzableGraph['modulation'] = []): AnalyzableGraph => ({
+  nodes: Object.fromEntries(Object.entries(nodes).map(([nodeId, type]) => [nodeId, { type }])),
+  connections: connections.map(connection => {
+    const [from, to] = connection.split('>')
+    return { from, to }
+  }),
+  modulation
+})
+
+describe('findCycles', () => {
+  it('finds a loop across several hops', () => {
+    const graph = createGraph(
+      { osc: 'Oscillator', a: 'Filter', b: 'Gain', c: 'Distortion', output: 'Output' },
+      ['osc>a', 'a>b', 'b>c', 'c>a', 'c>output']
+    )
+    expect(findCycles(graph)).toEqual([{ nodeIds: ['a', 'b', 'c'], isFeedback: false }])
+  })
+
+  it('allows loops that pass through a delay line', () => {
+    const graph = createGraph(
+      { synth: 'Synth', delay: 'FeedbackDelay', gain: 'Gain', output: 'Output' },
+      ['synth>delay', 'delay>gain', 'gain>delay', 'delay>output']
+    )
+    const analysis = analyzeGraph(graph)
+    expect(analysis.cycles).toEqual([{ nodeIds: ['delay', 'gain'], isFeedback: true }])
+    expect(analysis.invalidCycles).toEqual([])
+  })
+
+  it('rejects a component where one loop skips the delay line', () => {
+    const graph = createGraph(
+      { delay: 'Delay', a: 'Gain', b: 'Filter' },
+      ['delay>a', 'a>delay', 'a>b', 'b>a']
+    )
+    expect(findCycles(graph)).toEqual([{ nodeIds: ['delay', 'a', 'b'], isFeedback: false }])
+  })
+
+  it('treats a delay feeding itself as feedback and other self-loops as cycles', () => {
+    expect(findCycles(createGraph({ delay: 'Delay' }, ['delay>delay']))[0].isFeedback).toBe(true)
+    expect(findCycles(createGraph({ gain: 'Gain' }, ['gain>gain']))[0].isFeedback).toBe(false)
+  })
+})
+
+describe('findUnreachableNodes', () => {
+  it('reports nodes whose signal never reaches an output', () => {
+    const graph = createGraph(
+      { synth: 'Synth', filter: 'Filter', orphan: 'Oscillator', output: 'Output' },
+      ['synth>filter', 'filter>output']
+    )
+    expect(findUnreachableNodes(graph)).toEqual(['orphan'])
+  })
+
+  it('counts modulation routes as paths', () => {
+    const graph = createGraph(
+      { synth: 'Synth', filter: 'Filter', lfo: 'LFO', output: 'Output' },
+      ['synth>filter', 'filter>output'],
+      [{ source: 'lfo', destination: 'filter.frequency', amount: 200 }]
+    )
+    expect(findUnreachableNodes(graph)).toEqual([])
+  })
+
+  it('reports a chain that only feeds a recorder, but not the recorder itself', () => {
+    const graph = createGraph(
+      { synth: 'Synth', recorder: 'Recorder', kick: 'MembraneSynth', output: 'Output' },
+      ['synth>recorder', 'kick>recorder', 'kick>output']
+    )
+    expect(findUnreachableNodes(graph)).toEqual(['synth'])
+  })
+})
+
+describe('getTopologicalOrder', () => {
+  it('puts sources before the nodes they feed, ties in declaration order', () => {
+    const graph = createGraph(
+      { output: 'Output', reverb: 'Reverb', filter: 'Filter', synth: 'Synth', lfo: 'LFO' },
+      ['synth>filter', 'filter>reverb', 'reverb>output'],
+      [{ source: 'lfo', destination: 'filter.frequency', amount: 100 }]
+    )
+    expect(getTopologicalOrder(graph)).toEqual(['synth', 'lfo', 'filter', 'reverb', 'output'])
+  })
+
+  it('keeps the members of a feedback loop together', () => {
+    const graph = createGraph(
+      { output: 'Output', gain: 'Gain', delay: 'Delay', synth: 'Synth' },
+      ['synth>delay', 'delay>gain', 'gain>delay', 'gain>output']
+    )
+    expect(getTopologicalOrder(graph)).toEqual(['synth', 'gain', 'delay', 'output'])
+  })
+})
+
+describe('wouldCreateCycle', () => {
+  const chain = createGraph({ a: 'Gain', b: 'Filter', c: 'Distortion', output: 'Output' }, ['a>b', 'b>c', 'c>output'])
+
+  it('rejects closing A → B → C back into A', () => {
+    expect(wouldCreateCycle(chain, 'c', 'a')).toBe(true)
+  })
+
+  it('accepts connections that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(chain, 'a', 'c')).toBe(false)
+    expect(wouldCreateCycle(chain, 'a', 'output')).toBe(false)
+  })
+
+  it('accepts a loop through a delay and a delay feeding itself', () => {
+    const withDelay = createGraph({ a: 'Gain', delay: 'Delay', output: 'Output' }, ['a>delay', 'delay>output'])
+    expect(wouldCreateCycle(withDelay, 'delay', 'a')).toBe(false)
+    expect(wouldCreateCycle(withDelay, 'delay', 'delay')).toBe(false)
+    expect(wouldCreateCycle(withDelay, 'a', 'a')).toBe(true)
+  })
+
+  it('reads node ids out of port-qualified endpoints', () => {
+    expect(wouldCreateCycle(chain, 'c.output', 'a.input')).toBe(true)
+  })
+})
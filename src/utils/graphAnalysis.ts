@@ -0,0 +1,259 @@
+// Structural analysis of audio graphs: cycles, reachability and topological ordering
+
+import type { AudioGraphDefinition, AudioNodeType } from '../types/audioGraph'
+import { parseConnectionString, parseParameterPath } from './graphUtils'
+
+// Node types whose internal delay line makes a feedback loop through them well-defined
+export const FEEDBACK_NODE_TYPES: readonly AudioNodeType[] = ['Delay', 'FeedbackDelay']
+
+// Node types that make a signal path audible
+export const SINK_NODE_TYPES: readonly AudioNodeType[] = ['Output']
+
+// Capture taps end a path by design, so they are never reported themselves,
+// but a chain that only feeds a Recorder is still never heard
+export const TAP_NODE_TYPES: readonly AudioNodeType[] = ['Recorder']
+
+// The parts of a graph definition the analysis looks at
+export type AnalyzableGraph = Pick<AudioGraphDefinition, 'nodes' | 'connections'> & Partial<Pick<AudioGraphDefinition, 'modulation'>>
+
+export interface GraphCycle {
+  nodeIds: string[]
+  // True when the loop passes through a Delay/FeedbackDelay node and is therefore allowed
+  isFeedback: boolean
+}
+
+export interface GraphAnalysis {
+  cycles: GraphCycle[]
+  // Cycles that are not legitimate feedback loops
+  invalidCycles: GraphCycle[]
+  // Nodes whose signal never reaches an Output (directly, via connections, or via modulation); taps excluded
+  unreachableNodes: string[]
+  // Initialization order: sources before the nodes they feed. Dispose in reverse.
+  topologicalOrder: string[]
+}
+
+type Adjacency = Map<string, string[]>
+
+/**
+ * Build an adjacency list of node IDs from audio connections.
+ * Connections referencing unknown nodes are ignored (the schema validator reports those).
+ */
+function buildAdjacency(graph: AnalyzableGraph, includeModulation: boolean): Adjacency {
+  const adjacency: Adjacency = new Map()
+  for (const nodeId of Object.keys(graph.nodes)) {
+    adjacency.set(nodeId, [])
+  }
+
+  const addEdge = (from: string, to: string) => {
+    const targets = adjacency.get(from)
+    if (targets && adjacency.has(to) && !targets.includes(to)) {
+      targets.push(to)
+    }
+  }
+
+  for (const connection of graph.connections) {
+    addEdge(parseConnectionString(connection.from).nodeId, parseConnectionString(connection.to).nodeId)
+  }
+
+  if (includeModulation) {
+    for (const route of graph.modulation || []) {
+      addEdge(parseConnectionString(route.source).nodeId, parseParameterPath(route.destination).nodeId)
+    }
+  }
+
+  return adjacency
+}
+
+/**
+ * Tarjan's algorithm - returns strongly connected components in reverse topological order
+ */
+function findStronglyConnectedComponents(adjacency: Adjacency): string[][] {
+  const indices = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const components: string[][] = []
+  let index = 0
+
+  const visit = (nodeId: string) => {
+    indices.set(nodeId, index)
+    lowLinks.set(nodeId, index)
+    index++
+    stack.push(nodeId)
+    onStack.add(nodeId)
+
+    for (const target of adjacency.get(nodeId) || []) {
+      if (!indices.has(target)) {
+        visit(target)
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(target)!))
+      } else if (onStack.has(target)) {
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indices.get(target)!))
+      }
+    }
+
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== nodeId)
+      components.push(component)
+    }
+  }
+
+  for (const nodeId of adjacency.keys()) {
+    if (!indices.has(nodeId)) {
+      visit(nodeId)
+    }
+  }
+
+  return components
+}
+
+const isCyclicComponent = (adjacency: Adjacency, component: string[]): boolean =>
+  component.length > 1 || adjacency.get(component[0])!.includes(component[0])
+
+/**
+ * Find every cycle (as strongly connected components) in the audio connections.
+ * A cycle counts as feedback only if every loop inside it passes through a delay line,
+ * i.e. removing the Delay/FeedbackDelay nodes leaves the component acyclic.
+ */
+export function findCycles(graph: AnalyzableGraph): GraphCycle[] {
+  const adjacency = buildAdjacency(graph, false)
+  const declarationOrder = Object.keys(graph.nodes)
+
+  return findStronglyConnectedComponents(adjacency)
+    .filter(component => isCyclicComponent(adjacency, component))
+    .map(component => {
+      const nodeIds = [...component].sort((a, b) => declarationOrder.indexOf(a) - declarationOrder.indexOf(b))
+      const withoutDelays = nodeIds.filter(nodeId => !FEEDBACK_NODE_TYPES.includes(graph.nodes[nodeId].type))
+      const restricted: Adjacency = new Map(withoutDelays.map(nodeId => [
+        nodeId,
+        adjacency.get(nodeId)!.filter(target => withoutDelays.includes(target))
+      ]))
+
+      return {
+        nodeIds,
+        isFeedback: withoutDelays.length < nodeIds.length &&
+          !findStronglyConnectedComponents(restricted).some(inner => isCyclicComponent(restricted, inner))
+      }
+    })
+}
+
+/**
+ * Find nodes that never reach an Output. Recorders are not outputs, but are not reported either.
+ * Modulation routes count as paths, so an LFO modulating a connected filter is reachable.
+ */
+export function findUnreachableNodes(graph: AnalyzableGraph): string[] {
+  const adjacency = buildAdjacency(graph, true)
+
+  // Walk the reversed graph backwards from every sink
+  const reversed: Adjacency = new Map(Array.from(adjacency.keys(), nodeId => [nodeId, []]))
+  for (const [from, targets] of adjacency) {
+    for (const to of targets) {
+      reversed.get(to)!.push(from)
+    }
+  }
+
+  const reachable = new Set<string>()
+  const queue = Object.entries(graph.nodes)
+    .filter(([, node]) => SINK_NODE_TYPES.includes(node.type))
+    .map(([nodeId]) => nodeId)
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!
+    if (reachable.has(nodeId)) continue
+    reachable.add(nodeId)
+    queue.push(...reversed.get(nodeId)!)
+  }
+
+  return Object.entries(graph.nodes)
+    .filter(([nodeId, node]) => !reachable.has(nodeId) && !TAP_NODE_TYPES.includes(node.type))
+    .map(([nodeId]) => nodeId)
+}
+
+/**
+ * Order nodes so every node comes after the nodes that feed it.
+ * Members of a feedback loop are kept together in declaration order; ties are
+ * broken by declaration order so the result is stable for a given config.
+ */
+export function getTopologicalOrder(graph: AnalyzableGraph): string[] {
+  const adjacency = buildAdjacency(graph, true)
+  const declarationOrder = Object.keys(graph.nodes)
+  const position = (nodeId: string) => declarationOrder.indexOf(nodeId)
+
+  // Collapse cycles so the remaining component graph is acyclic
+  const components = findStronglyConnectedComponents(adjacency)
+    .map(component => [...component].sort((a, b) => position(a) - position(b)))
+  const componentOf = new Map<string, number>()
+  components.forEach((component, componentIndex) => {
+    for (const nodeId of component) componentOf.set(nodeId, componentIndex)
+  })
+
+  const inDegree = components.map(() => 0)
+  const componentEdges = components.map(() => new Set<number>())
+  for (const [from, targets] of adjacency) {
+    for (const to of targets) {
+      const fromComponent = componentOf.get(from)!
+      const toComponent = componentOf.get(to)!
+      if (fromComponent !== toComponent && !componentEdges[fromComponent].has(toComponent)) {
+        componentEdges[fromComponent].add(toComponent)
+        inDegree[toComponent]++
+      }
+    }
+  }
+
+  // Kahn's algorithm, always taking the ready component declared first
+  const ready = components.map((_, componentIndex) => componentIndex).filter(c => inDegree[c] === 0)
+  const order: string[] = []
+  while (ready.length > 0) {
+    ready.sort((a, b) => position(components[a][0]) - position(components[b][0]))
+    const componentIndex = ready.shift()!
+    order.push(...components[componentIndex])
+    for (const next of componentEdges[componentIndex]) {
+      if (--inDegree[next] === 0) {
+        ready.push(next)
+      }
+    }
+  }
+
+  return order
+}
+
+/**
+ * Check whether adding a connection would close a loop that is not a legitimate feedback path
+ */
+export function wouldCreateCycle(graph: AnalyzableGraph, from: string, to: string): boolean {
+  const fromNodeId = parseConnectionString(from).nodeId
+  const toNodeId = parseConnectionString(to).nodeId
+
+  // A node feeding itself is only acceptable when it is a delay line
+  if (fromNodeId === toNodeId) {
+    const type = graph.nodes[fromNodeId]?.type
+    return !type || !FEEDBACK_NODE_TYPES.includes(type)
+  }
+
+  const candidate: AnalyzableGraph = {
+    nodes: graph.nodes,
+    connections: [...graph.connections, { from, to }]
+  }
+
+  return findCycles(candidate).some(cycle =>
+    !cycle.isFeedback && cycle.nodeIds.includes(fromNodeId) && cycle.nodeIds.includes(toNodeId)
+  )
+}
+
+/**
+ * Run the full structural analysis of a graph
+ */
+export function analyzeGraph(graph: AnalyzableGraph): GraphAnalysis {
+  const cycles = findCycles(graph)
+  return {
+    cycles,
+    invalidCycles: cycles.filter(cycle => !cycle.isFeedback),
+    unreachableNodes: findUnreachableNodes(graph),
+    topologicalOrder: getTopologicalOrder(graph)
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { LegacyInstrumentConfig, LegacyInstrumentType } from '../types/audioGraph'
+import { getLegacyDefaultSettings, graphToLegacy, isLegacyInstrumentConfig, legacyToGraph } from './graphConfigConverter'
+
+// Per legacy type: a config setting every field it can carry, and a sparse one
+const LEGACY_CONFIGS: Record<LegacyInstrumentType, LegacyInstrumentConfig[]> = {
+  synth: [
+    {
+      type: 'synth',
+      name: 'Full synth',
+      settings: {
+        volume: -12,
+        frequency: 220,
+        oscillatorType: 'square',
+        envelope: { attack: 0.2, decay: 0.5, sustain: 0.6, release: 2, attackCurve: 'linear', decayCurve: 'linear', releaseCurve: 'linear' }
+      }
+    },
+    { type: 'synth', name: 'Sparse synth', settings: { volume: -3, envelope: { attack: 0.05 } } }
+  ],
+  membraneSynth: [
+    {
+      type: 'membraneSynth',
+      name: 'Full kick',
+      settings: {
+        volume: -2,
+        pitchDecay: 0.1,
+        octaves: 6,
+        oscillatorType: 'triangle',
+        envelope: { attack: 0.002, decay: 0.8, sustain: 0.1, release: 0.5, attackCurve: 'linear', decayCurve: 'linear', releaseCurve: 'linear', sustainDuration: 0.3 }
+      }
+    },
+    { type: 'membraneSynth', name: 'Sparse kick', settings: { octaves: 4, envelope: {} } },
+    { type: 'membraneSynth', name: 'No envelope', settings: { pitchDecay: 0.2 } }
+  ]
+}
+
+// A legacy config with every field it leaves out filled from the factory preset
+const normalise = (legacy: LegacyInstrumentConfig): LegacyInstrumentConfig => {
+  const defaults = getLegacyDefaultSettings(legacy.type)
+  return {
+    ...legacy,
+    settings: { ...defaults, ...legacy.settings, envelope: { ...defaults.envelope, ...legacy.settings.envelope } }
+  }
+}
+
+describe('legacy config conversion', () => {
+  for (const [type, configs] of Object.entries(LEGACY_CONFIGS)) {
+    for (const legacy of configs) {
+      it(`round-trips ${type} "${legacy.name}" through a graph with defaults filled in`, () => {
+        expect(isLegacyInstrumentConfig(legacy)).toBe(true)
+        const exported = graphToLegacy(legacyToGraph(legacy))
+        expect(exported).toEqual(normalise(legacy))
+        expect(graphToLegacy(legacyToGraph(exported!))).toEqual(exported)
+      })
+
+      it(`keeps the graph for ${type} "${legacy.name}" stable across a second round trip`, () => {
+        const graph = legacyToGraph(legacy)
+        expect(legacyToGraph(graphToLegacy(graph)!)).toEqual(graph)
+      })
+    }
+  }
+
+  it('fills settings a legacy config leaves out from the factory preset', () => {
+    const graph = legacyToGraph({ type: 'synth', name: 'Sparse', settings: { envelope: { attack: 0.5 } } })
+    const synth = Object.values(graph.graph.nodes).find(node => node.trigger)
+    expect(synth?.settings?.envelope).toMatchObject({ attack: 0.5, decay: 0.3, releaseCurve: 'exponential' })
+    expect(synth?.settings?.oscillator).toEqual({ type: 'sine' })
+  })
+
+  it('exports complete legacy settings for a graph node missing some of them', () => {
+    const graph = legacyToGraph(LEGACY_CONFIGS.synth[0])
+    graph.graph.nodes.synth.settings = { volume: -9, oscillator: { type: 'sawtooth' } }
+    expect(graphToLegacy(graph)?.settings).toEqual({
+      ...getLegacyDefaultSettings('synth'),
+      volume: -9,
+      oscillatorType: 'sawtooth'
+    })
+  })
+
+  it('warns about settings a legacy config cannot carry', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const graph = legacyToGraph(LEGACY_CONFIGS.synth[0])
+    graph.graph.nodes.synth.settings = { ...graph.graph.nodes.synth.settings, detune: 12 }
+    expect(graphToLegacy(graph)?.settings).not.toHaveProperty('detune')
+    expect(warn).toHaveBeenCalledWith(expect.any(String), ['detune'])
+    warn.mockRestore()
+  })
+
+  it('refuses graphs a legacy config cannot express', () => {
+    const graph = legacyToGraph(LEGACY_CONFIGS.synth[0])
+    graph.graph.nodes.filter = { type: 'Filter', settings: {} }
+    graph.graph.connections = [{ from: 'synth', to: 'filter' }, { from: 'filter', to: 'output' }]
+    expect(graphToLegacy(graph)).toBeNull()
+  })
+})
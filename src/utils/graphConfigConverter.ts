@@ -0,0 +1,215 @@
+/**
+ * Conversion between the legacy single-instrument configs and audio graph configs
+ * Legacy configs only ever described a Synth or MembraneSynth feeding the output,
+ * so only graphs of that shape can be converted back.
+ *
+ * Importing fills settings the legacy config leaves out from the factory preset, and exporting
+ * always writes complete legacy settings, again taking missing values from the factory preset.
+ * A sparse legacy config therefore comes back with its defaults filled in; once complete,
+ * legacy → graph → legacy returns it unchanged.
+ */
+
+import type {
+  AudioGraphConfig,
+  AudioNodeType,
+  GraphConfigConverter,
+  LegacyInstrumentConfig,
+  LegacyInstrumentType
+} from '../types/audioGraph'
+import type { MembraneSynthSettings, SynthSettings } from '../types/instruments'
+import type { CurveType } from '../hooks/useADSR'
+import { getInstrumentPreset } from '../config/instrumentPresets'
+import { parseConnectionString } from './graphUtils'
+
+type LegacySettings = SynthSettings | MembraneSynthSettings
+type OscillatorType = SynthSettings['oscillatorType']
+type UnknownRecord = Record<string, unknown>
+
+// Graph node type backing each legacy instrument type
+const LEGACY_NODE_TYPES: Record<LegacyInstrumentType, AudioNodeType> = {
+  synth: 'Synth',
+  membraneSynth: 'MembraneSynth'
+}
+
+// Settings a legacy config can carry; anything else on the graph node is lost on export
+const LEGACY_SETTING_KEYS: Record<LegacyInstrumentType, string[]> = {
+  synth: ['volume', 'frequency', 'envelope', 'oscillatorType', 'oscillator'],
+  membraneSynth: ['volume', 'pitchDecay', 'octaves', 'envelope', 'oscillatorType', 'oscillator']
+}
+
+// Nodes a legacy instrument may be wired to without losing information
+const LEGACY_SINK_TYPES: AudioNodeType[] = ['Output', 'Recorder']
+
+const OSCILLATOR_TYPES: readonly OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle']
+const CURVE_TYPES: readonly CurveType[] = ['linear', 'exponential']
+
+// Tone.js defaults, only used where the factory preset leaves a field out
+const FALLBACK_SETTINGS: MembraneSynthSettings & SynthSettings = {
+  volume: 0,
+  frequency: 440,
+  pitchDecay: 0.05,
+  octaves: 10,
+  oscillatorType: 'sine',
+  envelope: {
+    attack: 0.01,
+    decay: 0.1,
+    sustain: 0.5,
+    release: 1,
+    attackCurve: 'linear',
+    decayCurve: 'exponential',
+    releaseCurve: 'exponential',
+    sustainDuration: 1
+  }
+}
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  options.some(option => option === value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isCurveType = (value: unknown): value is CurveType => isOneOf(value, CURVE_TYPES)
+
+const readOscillatorType = (settings: UnknownRecord): OscillatorType | undefined => {
+  const nestedType = isRecord(settings.oscillator) ? settings.oscillator.type : undefined
+  return isOneOf(settings.oscillatorType, OSCILLATOR_TYPES) ? settings.oscillatorType
+    : isOneOf(nestedType, OSCILLATOR_TYPES) ? nestedType
+    : undefined
+}
+
+/**
+ * Read complete legacy settings from graph node settings.
+ * Missing or malformed fields come from the defaults (factory preset settings), then from Tone.js defaults.
+ */
+function readLegacySettings(type: LegacyInstrumentType, settings: UnknownRecord, defaults: UnknownRecord): LegacySettings {
+  const envelope = isRecord(settings.envelope) ? settings.envelope : {}
+  const defaultEnvelope = isRecord(defaults.envelope) ? defaults.envelope : {}
+
+  const readNumber = (key: 'volume' | 'frequency' | 'pitchDecay' | 'octaves'): number =>
+    [settings[key], defaults[key]].find(isFiniteNumber) ?? FALLBACK_SETTINGS[key]
+  const readEnvelopeNumber = (key: 'attack' | 'decay' | 'sustain' | 'release' | 'sustainDuration'): number =>
+    [envelope[key], defaultEnvelope[key]].find(isFiniteNumber) ?? FALLBACK_SETTINGS.envelope[key]
+  const readCurve = (key: 'attackCurve' | 'decayCurve' | 'releaseCurve'): CurveType =>
+    [envelope[key], defaultEnvelope[key]].find(isCurveType) ?? FALLBACK_SETTINGS.envelope[key]
+
+  const baseEnvelope = {
+    attack: readEnvelopeNumber('attack'),
+    decay: readEnvelopeNumber('decay'),
+    sustain: readEnvelopeNumber('sustain'),
+    release: readEnvelopeNumber('release'),
+    attackCurve: readCurve('attackCurve'),
+    decayCurve: readCurve('decayCurve'),
+    releaseCurve: readCurve('releaseCurve')
+  }
+  const volume = readNumber('volume')
+  const oscillatorType = readOscillatorType(settings) ?? readOscillatorType(defaults) ?? FALLBACK_SETTINGS.oscillatorType
+
+  if (type === 'synth') {
+    return { volume, frequency: readNumber('frequency'), oscillatorType, envelope: baseEnvelope }
+  }
+  return {
+    volume,
+    pitchDecay: readNumber('pitchDecay'),
+    octaves: readNumber('octaves'),
+    oscillatorType,
+    envelope: { ...baseEnvelope, sustainDuration: readEnvelopeNumber('sustainDuration') }
+  }
+}
+
+const getPresetTriggerSettings = (legacyType: LegacyInstrumentType): UnknownRecord =>
+  Object.values(getInstrumentPreset(legacyType).graph.nodes).find(node => node.trigger)?.settings || {}
+
+/**
+ * Complete legacy settings of the factory preset for a legacy type, i.e. what a sparse legacy config is filled with
+ */
+export function getLegacyDefaultSettings(legacyType: LegacyInstrumentType): LegacySettings {
+  return readLegacySettings(legacyType, {}, getPresetTriggerSettings(legacyType))
+}
+
+/**
+ * Check whether a parsed value looks like a legacy instrument config
+ */
+export function isLegacyInstrumentConfig(value: unknown): value is LegacyInstrumentConfig {
+  if (typeof value !== 'object' || value === null) return false
+  const candidate = value as Record<string, unknown>
+  return (candidate.type === 'synth' || candidate.type === 'membraneSynth') &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.settings === 'object' && candidate.settings !== null &&
+    !('graph' in candidate)
+}
+
+/**
+ * Convert a legacy instrument into a graph built from the matching factory preset
+ */
+export function legacyToGraph(legacy: LegacyInstrumentConfig): AudioGraphConfig {
+  const graphConfig = structuredClone(getInstrumentPreset(legacy.type))
+  const triggerEntry = Object.entries(graphConfig.graph.nodes).find(([, node]) => node.trigger)
+  if (!triggerEntry) {
+    throw new Error(`Preset for legacy type ${legacy.type} has no trigger node`)
+  }
+
+  const [, triggerNode] = triggerEntry
+  const presetSettings = triggerNode.settings || {}
+  const { oscillatorType, envelope, ...scalarSettings } = legacy.settings
+
+  triggerNode.settings = {
+    ...presetSettings,
+    ...scalarSettings,
+    envelope: { ...(presetSettings.envelope || {}), ...(envelope || {}) },
+    ...(oscillatorType ? { oscillator: { ...(presetSettings.oscillator || {}), type: oscillatorType } } : {})
+  }
+
+  return { ...graphConfig, name: legacy.name }
+}
+
+/**
+ * Convert a graph back to a legacy instrument.
+ * Returns null when the graph uses anything legacy configs cannot express.
+ */
+export function graphToLegacy(graphConfig: AudioGraphConfig): LegacyInstrumentConfig | null {
+  const { nodes, connections, modulation } = graphConfig.graph
+  const triggerEntries = Object.entries(nodes).filter(([, node]) => node.trigger)
+  if (triggerEntries.length !== 1 || (modulation && modulation.length > 0)) {
+    return null
+  }
+
+  const [triggerId, triggerNode] = triggerEntries[0]
+  const legacyType = (Object.keys(LEGACY_NODE_TYPES) as LegacyInstrumentType[])
+    .find(type => LEGACY_NODE_TYPES[type] === triggerNode.type)
+  if (!legacyType) {
+    return null
+  }
+
+  // Every other node must be a plain sink fed directly by the instrument
+  const otherNodesAreSinks = Object.entries(nodes)
+    .every(([nodeId, node]) => nodeId === triggerId || LEGACY_SINK_TYPES.includes(node.type))
+  const onlyDirectConnections = connections.every(connection =>
+    parseConnectionString(connection.from).nodeId === triggerId &&
+    LEGACY_SINK_TYPES.includes(nodes[parseConnectionString(connection.to).nodeId]?.type)
+  )
+  if (!otherNodesAreSinks || !onlyDirectConnections) {
+    return null
+  }
+
+  const settings: UnknownRecord = triggerNode.settings || {}
+  const defaults = getPresetTriggerSettings(legacyType)
+  const droppedKeys = Object.keys(settings)
+    .filter(key => !LEGACY_SETTING_KEYS[legacyType].includes(key) && settings[key] !== defaults[key])
+  if (droppedKeys.length > 0) {
+    console.warn('⚠️ Legacy export drops settings it cannot express:', droppedKeys)
+  }
+
+  return {
+    type: legacyType,
+    name: graphConfig.name,
+    settings: readLegacySettings(legacyType, settings, defaults)
+  }
+}
+
+export const graphConfigConverter: GraphConfigConverter = {
+  legacyToGraph,
+  graphToLegacy
+}
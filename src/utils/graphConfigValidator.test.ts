@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { formatGraphConfigIssue, parseGraphConfigJson, validateGraphConfig } from './graphConfigValidator'
+import { instrumentPresets } from '../config/instrumentPresets'
+
+// Loose enough to break on purpose
+interface TestConfig {
+  name: string
+  type: string
+  graph: {
+    nodes: Record<string, Record<string, unknown>>
+    connections: Array<Record<string, unknown>>
+    modulation?: unknown[]
+    trigger: string
+  }
+}
+
+// A small valid instrument: synth -> filter -> output
+const createConfig = (): TestConfig => ({
+  name: 'Test patch',
+  type: 'instrument',
+  graph: {
+    nodes: {
+      synth: { type: 'Synth', trigger: true, settings: { volume: -6 } },
+      filter: { type: 'Filter', settings: { frequency: 800 } },
+      output: { type: 'Output', settings: {} }
+    },
+    connections: [
+      { from: 'synth', to: 'filter' },
+      { from: 'filter', to: 'output' }
+    ],
+    trigger: 'sustained'
+  }
+})
+
+const paths = (issues: Array<{ path: string }>) => issues.map(issue => issue.path)
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('validateGraphConfig', () => {
+  it('accepts a well-formed config and every factory instrument', () => {
+    expect(validateGraphConfig(createConfig())).toEqual({ valid: true, errors: [], warnings: [] })
+    for (const preset of Object.values(instrumentPresets)) {
+      expect(validateGraphConfig(preset).errors).toEqual([])
+    }
+  })
+
+  it('points at the endpoint of the connection that names a missing node', () => {
+    const config = createConfig()
+    config.graph.connections.push({ from: 'filter', to: 'reverb' })
+    const { valid, errors } = validateGraphConfig(config)
+
+    expect(valid).toBe(false)
+    expect(errors).toEqual([{ path: 'graph.connections[2].to', code: 'unknown_node', message: 'Node "reverb" does not exist' }])
+  })
+
+  it('reports a node without a type at its own path', () => {
+    const config = createConfig()
+    config.graph.nodes.x = { settings: {} }
+    expect(validateGraphConfig(config).errors).toContainEqual(
+      expect.objectContaining({ path: 'graph.nodes.x.type', code: 'unknown_node_type' })
+    )
+  })
+
+  it('quotes node ids that are not plain identifiers', () => {
+    const config = createConfig()
+    config.graph.nodes['my node'] = { type: 'Gain' }
+    expect(paths(validateGraphConfig(config).errors)).toContain('graph.nodes["my node"]')
+  })
+
+  it('reports nested paths for ports and modulation routes', () => {
+    const config = createConfig()
+    config.graph.nodes.filter.inputs = ['input']
+    config.graph.connections[0].to = 'filter.sidechain'
+    config.graph.modulation = [{ source: 'synth', destination: 'filter.noSuchParam', amount: 'lots' }]
+
+    expect(paths(validateGraphConfig(config).errors)).toEqual([
+      'graph.connections[0].to',
+      'graph.modulation[0].destination',
+      'graph.modulation[0].amount'
+    ])
+  })
+
+  it('stops at the first missing level instead of cascading', () => {
+    expect(validateGraphConfig(null).errors).toEqual([{ path: '', code: 'invalid_type', message: 'Configuration must be an object' }])
+    expect(paths(validateGraphConfig({ name: 'No graph', type: 'instrument' }).errors)).toEqual(['graph'])
+  })
+
+  it('warns about unreachable nodes without making the config invalid', () => {
+    const config = createConfig()
+    config.graph.nodes.lonely = { type: 'Oscillator', settings: {} }
+    const { valid, errors, warnings } = validateGraphConfig(config)
+
+    expect(valid).toBe(true)
+    expect(errors).toEqual([])
+    expect(warnings).toEqual([expect.objectContaining({ path: 'graph.nodes.lonely', code: 'unreachable' })])
+  })
+
+  it('treats a loop without a delay as an error', () => {
+    const config = createConfig()
+    config.graph.connections.push({ from: 'filter', to: 'synth' })
+    const { valid, errors } = validateGraphConfig(config)
+
+    expect(valid).toBe(false)
+    expect(errors).toEqual([expect.objectContaining({ path: 'graph.connections', code: 'cycle' })])
+  })
+
+  it('skips the structural analysis while the shape has errors', () => {
+    const config = createConfig()
+    config.graph.nodes.lonely = { type: 'Oscillator', settings: {} }
+    config.name = ''
+    expect(validateGraphConfig(config).warnings).toEqual([])
+  })
+})
+
+describe('parseGraphConfigJson', () => {
+  it('reports bad JSON as one invalid_json error at the root', () => {
+    const result = parseGraphConfigJson('{ "name": "Broken", ')
+    expect(result.valid).toBe(false)
+    expect(result.config).toBeNull()
+    expect(result.warnings).toEqual([])
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({ path: '', code: 'invalid_json' })
+    expect(result.errors[0].message).toMatch(/^Invalid JSON: /)
+  })
+
+  it('returns the config only when it validates', () => {
+    expect(parseGraphConfigJson(JSON.stringify(createConfig())).config?.name).toBe('Test patch')
+
+    const invalid = createConfig()
+    invalid.graph.connections[1].from = 'ghost'
+    const result = parseGraphConfigJson(JSON.stringify(invalid))
+    expect(result.config).toBeNull()
+    expect(paths(result.errors)).toEqual(['graph.connections[1].from'])
+  })
+
+  it('converts legacy instrument configs before validating', () => {
+    const result = parseGraphConfigJson(JSON.stringify({ type: 'synth', name: 'Old synth', settings: { volume: -3 } }))
+    expect(result.valid).toBe(true)
+    expect(result.config?.name).toBe('Old synth')
+  })
+})
+
+describe('formatGraphConfigIssue', () => {
+  it('prefixes the path when there is one', () => {
+    expect(formatGraphConfigIssue({ path: 'graph.trigger', code: 'invalid_value', message: 'Bad trigger' })).toBe('graph.trigger: Bad trigger')
+    expect(formatGraphConfigIssue({ path: '', code: 'invalid_json', message: 'Invalid JSON' })).toBe('Invalid JSON')
+  })
+})
@@ -0,0 +1,411 @@
+// Schema validation for AudioGraphConfig objects (presets, pasted JSON, shared patches)
+
+import { AUDIO_NODE_TYPES } from '../types/audioGraph'
+import type { AudioGraphConfig, AudioNodeType } from '../types/audioGraph'
+import { getParameterMetadata } from '../types/parameterMetadata'
+import { analyzeGraph } from './graphAnalysis'
+import { MAX_BPM, MIN_BPM } from './sequencer'
+import { INSTRUMENT_ENVELOPE_SOURCES } from './modulationMatrix'
+import { getZoneIssue } from './samplerZones'
+import { isLegacyInstrumentConfig, legacyToGraph } from './graphConfigConverter'
+import { DEFAULT_PROPERTIES, isValidNodePath, parseConnectionString, parseParameterPath } from './graphUtils'
+
+export type GraphConfigIssueCode =
+  | 'invalid_json'
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'unknown_node_type'
+  | 'unknown_node'
+  | 'unknown_port'
+  | 'unknown_parameter'
+  | 'invalid_trigger'
+  | 'cycle'
+  | 'unreachable'
+
+export interface GraphConfigIssue {
+  path: string // JSON path to the offending value, e.g. "graph.connections[2].to"
+  code: GraphConfigIssueCode
+  message: string
+}
+
+export interface GraphConfigValidationResult {
+  valid: boolean // True when there are no errors (warnings do not block loading)
+  errors: GraphConfigIssue[]
+  warnings: GraphConfigIssue[]
+}
+
+// Node types that respond to triggerAttack/triggerRelease and may be marked `trigger: true`
+export const TRIGGERABLE_NODE_TYPES: readonly AudioNodeType[] = [
+  'Synth',
+  'MembraneSynth',
+  'AMSynth',
+  'FMSynth',
+  'DuoSynth',
+  'MonoSynth',
+  'PluckSynth',
+  'PolySynth',
+  'MetalSynth',
+  'NoiseSynth',
+  'Sampler',
+  'ADSR'
+]
+
+// Signal-rate parameters most Tone.js nodes expose even when not listed in settings
+const COMMON_SIGNAL_PARAMETERS = ['frequency', 'detune', 'volume', 'gain', 'Q', 'wet', 'pan', 'harmonicity', 'modulationIndex']
+
+const CONFIG_TYPES = ['instrument', 'effect', 'utility'] as const
+const TRIGGER_MODES = ['momentary', 'sustained'] as const
+const SIGNAL_TYPES = ['audio', 'cv'] as const
+
+type UnknownRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Append an object key to a JSON path, quoting keys that are not plain identifiers
+ */
+const keyPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+
+/**
+ * Check whether a dot-notation parameter path resolves inside a settings object
+ */
+const hasSettingPath = (settings: unknown, property: string): boolean => {
+  let current = settings
+  for (const part of property.split('.')) {
+    if (!isRecord(current) || !(part in current)) {
+      return false
+    }
+    current = current[part]
+  }
+  return true
+}
+
+/**
+ * Validate an AudioGraphConfig (or anything claiming to be one).
+ * Structural problems are errors; reachability problems are warnings.
+ */
+export function validateGraphConfig(config: unknown): GraphConfigValidationResult {
+  const errors: GraphConfigIssue[] = []
+  const warnings: GraphConfigIssue[] = []
+  const error = (path: string, code: GraphConfigIssueCode, message: string) => errors.push({ path, code, message })
+  const warn = (path: string, code: GraphConfigIssueCode, message: string) => warnings.push({ path, code, message })
+
+  const result = () => ({ valid: errors.length === 0, errors, warnings })
+
+  if (!isRecord(config)) {
+    error('', 'invalid_type', 'Configuration must be an object')
+    return result()
+  }
+
+  // Top-level fields
+  if (typeof config.name !== 'string' || config.name.trim().length === 0) {
+    error('name', 'required', 'Name must be a non-empty string')
+  }
+  if (!CONFIG_TYPES.includes(config.type as typeof CONFIG_TYPES[number])) {
+    error('type', 'invalid_value', `Type must be one of: ${CONFIG_TYPES.join(', ')}`)
+  }
+  if (config.metadata !== undefined) {
+    if (!isRecord(config.metadata)) {
+      error('metadata', 'invalid_type', 'Metadata must be an object')
+    } else if (config.metadata.tags !== undefined &&
+      (!Array.isArray(config.metadata.tags) || config.metadata.tags.some(tag => typeof tag !== 'string'))) {
+      error('metadata.tags', 'invalid_type', 'Tags must be an array of strings')
+    }
+  }
+
+  const graph = config.graph
+  if (!isRecord(graph)) {
+    error('graph', 'required', 'Graph definition is required')
+    return result()
+  }
+
+  if (!TRIGGER_MODES.includes(graph.trigger as typeof TRIGGER_MODES[number])) {
+    error('graph.trigger', 'invalid_value', `Trigger must be one of: ${TRIGGER_MODES.join(', ')}`)
+  }
+
+  // Nodes
+  if (!isRecord(graph.nodes)) {
+    error('graph.nodes', 'required', 'Graph nodes must be an object keyed by node ID')
+    return result()
+  }
+
+  const nodes = graph.nodes
+  const triggerNodeIds: string[] = []
+
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    const nodePath = keyPath('graph.nodes', nodeId)
+
+    if (!isValidNodePath(nodeId) || nodeId.includes('.')) {
+      error(nodePath, 'invalid_value', `Node ID "${nodeId}" may only contain letters, numbers, "_" and "-"`)
+    }
+    if (!isRecord(node)) {
+      error(nodePath, 'invalid_type', 'Node definition must be an object')
+      continue
+    }
+    if (!AUDIO_NODE_TYPES.includes(node.type as AudioNodeType)) {
+      error(`${nodePath}.type`, 'unknown_node_type', `Unknown node type "${String(node.type)}"`)
+    }
+    if (node.settings !== undefined && !isRecord(node.settings)) {
+      error(`${nodePath}.settings`, 'invalid_type', 'Settings must be an object')
+    }
+    if (node.type === 'Sampler' && isRecord(node.settings) && node.settings.zones !== undefined) {
+      const zones = node.settings.zones
+      if (!Array.isArray(zones)) {
+        error(`${nodePath}.settings.zones`, 'invalid_type', 'Sampler zones must be an array')
+      } else {
+        zones.forEach((zone, index) => {
+          const issue = getZoneIssue(zone)
+          if (issue) {
+            error(`${nodePath}.settings.zones[${index}]`, 'invalid_value', issue)
+          }
+        })
+      }
+    }
+    for (const portList of ['inputs', 'outputs'] as const) {
+      const ports = node[portList]
+      if (ports !== undefined && (!Array.isArray(ports) || ports.some(port => typeof port !== 'string'))) {
+        error(`${nodePath}.${portList}`, 'invalid_type', `${portList} must be an array of port names`)
+      }
+    }
+    if (node.signalType !== undefined && !SIGNAL_TYPES.includes(node.signalType as typeof SIGNAL_TYPES[number])) {
+      error(`${nodePath}.signalType`, 'invalid_value', `Signal type must be one of: ${SIGNAL_TYPES.join(', ')}`)
+    }
+    if (node.position !== undefined &&
+      (!isRecord(node.position) || !Number.isFinite(node.position.x) || !Number.isFinite(node.position.y))) {
+      error(`${nodePath}.position`, 'invalid_type', 'Position must be an object with numeric "x" and "y"')
+    }
+    if (node.trigger !== undefined) {
+      if (typeof node.trigger !== 'boolean') {
+        error(`${nodePath}.trigger`, 'invalid_type', 'Trigger flag must be a boolean')
+      } else if (node.trigger) {
+        triggerNodeIds.push(nodeId)
+        if (!TRIGGERABLE_NODE_TYPES.includes(node.type as AudioNodeType)) {
+          error(`${nodePath}.trigger`, 'invalid_trigger', `Node type "${String(node.type)}" cannot be triggered`)
+        }
+      }
+    }
+  }
+
+  if (config.type === 'instrument' && triggerNodeIds.length === 0) {
+    error('graph.nodes', 'invalid_trigger', 'Instrument graphs need at least one node with "trigger": true')
+  }
+
+  // Resolve a connection endpoint against node IDs and declared ports
+  const checkEndpoint = (endpoint: unknown, path: string, direction: 'inputs' | 'outputs') => {
+    if (typeof endpoint !== 'string' || !isValidNodePath(endpoint)) {
+      error(path, 'invalid_value', 'Endpoint must be a node path like "nodeId" or "nodeId.port"')
+      return
+    }
+    const { nodeId, property } = parseConnectionString(endpoint)
+    const node = nodes[nodeId]
+    if (!isRecord(node)) {
+      error(path, 'unknown_node', `Node "${nodeId}" does not exist`)
+      return
+    }
+    const defaultPort = direction === 'inputs' ? DEFAULT_PROPERTIES.CONNECTION_INPUT : DEFAULT_PROPERTIES.CONNECTION_OUTPUT
+    const declaredPorts = node[direction]
+    if (property !== defaultPort && property !== DEFAULT_PROPERTIES.CONNECTION_OUTPUT &&
+      Array.isArray(declaredPorts) && !declaredPorts.includes(property)) {
+      error(path, 'unknown_port', `Node "${nodeId}" declares no ${direction === 'inputs' ? 'input' : 'output'} "${property}"`)
+    }
+  }
+
+  // Connections
+  if (!Array.isArray(graph.connections)) {
+    error('graph.connections', 'required', 'Connections must be an array')
+  } else {
+    graph.connections.forEach((connection, index) => {
+      const path = `graph.connections[${index}]`
+      if (!isRecord(connection)) {
+        error(path, 'invalid_type', 'Connection must be an object with "from" and "to"')
+        return
+      }
+      checkEndpoint(connection.from, `${path}.from`, 'outputs')
+      checkEndpoint(connection.to, `${path}.to`, 'inputs')
+      if (connection.signalType !== undefined && !SIGNAL_TYPES.includes(connection.signalType as typeof SIGNAL_TYPES[number])) {
+        error(`${path}.signalType`, 'invalid_value', `Signal type must be one of: ${SIGNAL_TYPES.join(', ')}`)
+      }
+    })
+  }
+
+  // Modulation routes
+  if (graph.modulation !== undefined) {
+    if (!Array.isArray(graph.modulation)) {
+      error('graph.modulation', 'invalid_type', 'Modulation must be an array of routes')
+    } else {
+      graph.modulation.forEach((route, index) => {
+        const path = `graph.modulation[${index}]`
+        if (!isRecord(route)) {
+          error(path, 'invalid_type', 'Modulation route must be an object')
+          return
+        }
+
+        // Instrument envelopes are modulation sources without being declared outputs
+        const sourceNode = typeof route.source === 'string' ? nodes[parseConnectionString(route.source).nodeId] : undefined
+        const envelopeSources = isRecord(sourceNode) ? INSTRUMENT_ENVELOPE_SOURCES[sourceNode.type as AudioNodeType] || [] : []
+        if (!envelopeSources.includes(parseConnectionString(String(route.source)).property)) {
+          checkEndpoint(route.source, `${path}.source`, 'outputs')
+        }
+
+        if (typeof route.destination !== 'string' || !isValidNodePath(route.destination)) {
+          error(`${path}.destination`, 'invalid_value', 'Destination must be a parameter path like "filter.frequency"')
+        } else {
+          const { nodeId, property } = parseParameterPath(route.destination)
+          const node = nodes[nodeId]
+          if (!isRecord(node)) {
+            error(`${path}.destination`, 'unknown_node', `Node "${nodeId}" does not exist`)
+          } else {
+            const topLevel = property.split('.')[0]
+            const known = hasSettingPath(node.settings, property) ||
+              COMMON_SIGNAL_PARAMETERS.includes(topLevel) ||
+              getParameterMetadata(topLevel, String(node.type)) !== null
+            if (!known) {
+              error(`${path}.destination`, 'unknown_parameter', `Node "${nodeId}" (${String(node.type)}) has no parameter "${property}"`)
+            }
+          }
+        }
+
+        if (typeof route.amount !== 'number' || !Number.isFinite(route.amount)) {
+          error(`${path}.amount`, 'invalid_type', 'Amount must be a finite number')
+        }
+        if (route.scale !== undefined &&
+          (!Array.isArray(route.scale) || route.scale.length !== 2 || route.scale.some(bound => typeof bound !== 'number'))) {
+          error(`${path}.scale`, 'invalid_type', 'Scale must be a [min, max] pair of numbers')
+        }
+        if (route.enabled !== undefined && typeof route.enabled !== 'boolean') {
+          error(`${path}.enabled`, 'invalid_type', 'Enabled must be a boolean')
+        }
+      })
+    }
+  }
+
+  // MIDI CC bindings
+  if (graph.midiBindings !== undefined) {
+    if (!Array.isArray(graph.midiBindings)) {
+      error('graph.midiBindings', 'invalid_type', 'MIDI bindings must be an array')
+    } else {
+      graph.midiBindings.forEach((binding, index) => {
+        const path = `graph.midiBindings[${index}]`
+        if (!isRecord(binding)) {
+          error(path, 'invalid_type', 'MIDI binding must be an object')
+          return
+        }
+
+        if (!Number.isInteger(binding.controller) || Number(binding.controller) < 0 || Number(binding.controller) > 127) {
+          error(`${path}.controller`, 'invalid_value', 'Controller must be a CC number from 0 to 127')
+        }
+        if (binding.channel !== undefined &&
+          (!Number.isInteger(binding.channel) || Number(binding.channel) < 1 || Number(binding.channel) > 16)) {
+          error(`${path}.channel`, 'invalid_value', 'Channel must be from 1 to 16')
+        }
+        if (typeof binding.target !== 'string' || !isValidNodePath(binding.target)) {
+          error(`${path}.target`, 'invalid_value', 'Target must be a parameter path like "synth.volume"')
+        } else if (!isRecord(nodes[parseParameterPath(binding.target).nodeId])) {
+          error(`${path}.target`, 'unknown_node', `Node "${parseParameterPath(binding.target).nodeId}" does not exist`)
+        }
+      })
+    }
+  }
+
+  // Step sequencer pattern
+  if (graph.sequence !== undefined) {
+    const sequence = graph.sequence
+    if (!isRecord(sequence)) {
+      error('graph.sequence', 'invalid_type', 'Sequence must be an object')
+    } else {
+      if (sequence.length !== 16 && sequence.length !== 32) {
+        error('graph.sequence.length', 'invalid_value', 'Sequence length must be 16 or 32 steps')
+      }
+      if (typeof sequence.bpm !== 'number' || sequence.bpm < MIN_BPM || sequence.bpm > MAX_BPM) {
+        error('graph.sequence.bpm', 'invalid_value', `BPM must be a number from ${MIN_BPM} to ${MAX_BPM}`)
+      }
+      if (typeof sequence.swing !== 'number' || sequence.swing < 0 || sequence.swing > 1) {
+        error('graph.sequence.swing', 'invalid_value', 'Swing must be a number from 0 to 1')
+      }
+      if (!Array.isArray(sequence.steps)) {
+        error('graph.sequence.steps', 'invalid_type', 'Steps must be an array')
+      } else {
+        if (sequence.steps.length !== sequence.length) {
+          error('graph.sequence.steps', 'invalid_value', `Expected ${String(sequence.length)} steps, found ${sequence.steps.length}`)
+        }
+        sequence.steps.forEach((step, index) => {
+          const path = `graph.sequence.steps[${index}]`
+          if (!isRecord(step)) {
+            error(path, 'invalid_type', 'Step must be an object')
+            return
+          }
+          if (typeof step.active !== 'boolean' || typeof step.accent !== 'boolean') {
+            error(path, 'invalid_type', 'Step active and accent must be booleans')
+          }
+          if (!Number.isInteger(step.note) || Number(step.note) < 0 || Number(step.note) > 127) {
+            error(`${path}.note`, 'invalid_value', 'Note must be a MIDI note number from 0 to 127')
+          }
+          if (typeof step.velocity !== 'number' || step.velocity < 0 || step.velocity > 1) {
+            error(`${path}.velocity`, 'invalid_value', 'Velocity must be a number from 0 to 1')
+          }
+          if (typeof step.gate !== 'number' || step.gate <= 0 || step.gate > 1) {
+            error(`${path}.gate`, 'invalid_value', 'Gate must be a fraction of the step, above 0 and at most 1')
+          }
+        })
+      }
+    }
+  }
+
+  // Graph structure - only meaningful once the shape itself is sound
+  if (errors.length === 0) {
+    const analysis = analyzeGraph((config as unknown as AudioGraphConfig).graph)
+    for (const cycle of analysis.invalidCycles) {
+      error('graph.connections', 'cycle', `Connections form a loop without a delay node: ${cycle.nodeIds.join(' -> ')}`)
+    }
+    for (const nodeId of analysis.unreachableNodes) {
+      warn(keyPath('graph.nodes', nodeId), 'unreachable', `Node "${nodeId}" never reaches an output`)
+    }
+  }
+
+  return result()
+}
+
+/**
+ * Type guard form of validateGraphConfig for callers that only need a yes/no
+ */
+export function isValidGraphConfig(config: unknown): config is AudioGraphConfig {
+  return validateGraphConfig(config).valid
+}
+
+/**
+ * Parse JSON text and validate the result as an AudioGraphConfig.
+ * Legacy instrument configs are converted to graphs first.
+ * Syntax errors are reported as a single 'invalid_json' error at the root path.
+ */
+export function parseGraphConfigJson(json: string): GraphConfigValidationResult & { config: AudioGraphConfig | null } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : String(parseError)
+    return {
+      valid: false,
+      errors: [{ path: '', code: 'invalid_json', message: `Invalid JSON: ${message}` }],
+      warnings: [],
+      config: null
+    }
+  }
+
+  if (isLegacyInstrumentConfig(parsed)) {
+    console.log('🔄 Converting legacy instrument config:', parsed.name)
+    parsed = legacyToGraph(parsed)
+  }
+
+  const result = validateGraphConfig(parsed)
+  return { ...result, config: result.valid ? parsed as AudioGraphConfig : null }
+}
+
+/**
+ * Format an issue as a single human-readable line
+ */
+export function formatGraphConfigIssue(issue: GraphConfigIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
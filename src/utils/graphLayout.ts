@@ -0,0 +1,87 @@
+/**
+ * Geometry and automatic layout for the patch editor
+ * Nodes without a stored position are placed in columns by signal-flow depth.
+ */
+
+import type { AnalyzableGraph } from './graphAnalysis'
+import type { AudioNodeType, NodePosition } from '../types/audioGraph'
+import { getTopologicalOrder } from './graphAnalysis'
+import { parseConnectionString, parseParameterPath } from './graphUtils'
+import { getNodePorts } from './nodePorts'
+
+export const NODE_WIDTH = 160
+export const NODE_HEADER_HEIGHT = 26
+export const PORT_ROW_HEIGHT = 18
+
+const COLUMN_GAP = 60
+const ROW_GAP = 24
+const LAYOUT_MARGIN = 24
+
+/**
+ * Input ports of a node in display order: the audio input first, then CV parameters
+ */
+export function getInputPortNames(type: AudioNodeType): string[] {
+  const ports = getNodePorts(type)
+  return [...(ports.audioInput ? ['input'] : []), ...ports.cvInputs]
+}
+
+export function getNodeHeight(type: AudioNodeType): number {
+  const rows = Math.max(getInputPortNames(type).length, 1)
+  return NODE_HEADER_HEIGHT + rows * PORT_ROW_HEIGHT + 8
+}
+
+/**
+ * Canvas position of a port's connector, relative to the canvas origin
+ */
+export function getPortPosition(position: NodePosition, type: AudioNodeType, port: string, direction: 'input' | 'output'): NodePosition {
+  if (direction === 'output') {
+    return { x: position.x + NODE_WIDTH, y: position.y + NODE_HEADER_HEIGHT + PORT_ROW_HEIGHT / 2 }
+  }
+
+  // Unknown ports (e.g. parameters not exposed as CV inputs) attach to the node header
+  const rowIndex = getInputPortNames(type).indexOf(port)
+  if (rowIndex === -1) {
+    return { x: position.x, y: position.y + NODE_HEADER_HEIGHT / 2 }
+  }
+  return { x: position.x, y: position.y + NODE_HEADER_HEIGHT + rowIndex * PORT_ROW_HEIGHT + PORT_ROW_HEIGHT / 2 }
+}
+
+/**
+ * Positions for every node: stored positions are kept, the rest are laid out
+ * left to right by their longest path from a source
+ */
+export function layoutGraph(graph: AnalyzableGraph & { nodes: Record<string, { type: AudioNodeType; position?: NodePosition }> }): Record<string, NodePosition> {
+  const order = getTopologicalOrder(graph)
+  const orderIndex = new Map(order.map((nodeId, index) => [nodeId, index]))
+
+  const edges: Array<[string, string]> = [
+    ...graph.connections.map(connection => [parseConnectionString(connection.from).nodeId, parseConnectionString(connection.to).nodeId] as [string, string]),
+    ...(graph.modulation || []).map(route => [parseConnectionString(route.source).nodeId, parseParameterPath(route.destination).nodeId] as [string, string])
+  ]
+
+  // Longest-path depth; edges pointing backwards in the order (feedback loops) are ignored
+  const depth = new Map<string, number>()
+  for (const nodeId of order) {
+    const incoming = edges.filter(([from, to]) =>
+      to === nodeId && (orderIndex.get(from) ?? Infinity) < (orderIndex.get(nodeId) ?? -1)
+    )
+    depth.set(nodeId, Math.max(0, ...incoming.map(([from]) => (depth.get(from) ?? 0) + 1)))
+  }
+
+  const positions: Record<string, NodePosition> = {}
+  const columnHeights = new Map<number, number>()
+  for (const nodeId of order) {
+    const node = graph.nodes[nodeId]
+    if (node.position) {
+      positions[nodeId] = node.position
+      continue
+    }
+
+    const column = depth.get(nodeId) ?? 0
+    const y = columnHeights.get(column) ?? LAYOUT_MARGIN
+    positions[nodeId] = { x: LAYOUT_MARGIN + column * (NODE_WIDTH + COLUMN_GAP), y }
+    columnHeights.set(column, y + getNodeHeight(node.type) + ROW_GAP)
+  }
+
+  return positions
+}
@@ -116,17 +116,9 @@ export function isSameNode(path1: string, path2: string): boolean {
 
 /**
  * Graph validation utilities
+ * Cycle checks need the whole graph and live in graphAnalysis (wouldCreateCycle)
  */
 export const GraphValidation = {
-  /**
-   * Check if a connection would create a cycle
-   * Simple check - more sophisticated cycle detection could be added later
-   */
-  wouldCreateCycle(from: string, to: string): boolean {
-    // Basic check: prevent direct self-connections
-    return isSameNode(from, to)
-  },
-  
   /**
    * Validate connection endpoint format
    */
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { createMockMidiAccess, midiNoteToName, parseMidiMessage } from './midi'
+
+const parse = (bytes: number[]) => parseMidiMessage(new Uint8Array(bytes))
+
+describe('parseMidiMessage', () => {
+  it('decodes note-on with a normalised velocity', () => {
+    expect(parse([0x90, 60, 127])).toEqual({ type: 'noteon', channel: 1, note: 60, velocity: 1 })
+  })
+
+  it('treats note-on with velocity 0 as note-off', () => {
+    expect(parse([0x90, 60, 0])).toEqual({ type: 'noteoff', channel: 1, note: 60 })
+    expect(parse([0x80, 60, 64])).toEqual({ type: 'noteoff', channel: 1, note: 60 })
+  })
+
+  it('decodes the sustain pedal as control change 64', () => {
+    expect(parse([0xb0, 64, 127])).toEqual({ type: 'controlchange', channel: 1, controller: 64, value: 127 })
+    expect(parse([0xb0, 64, 0])).toEqual({ type: 'controlchange', channel: 1, controller: 64, value: 0 })
+  })
+
+  it('masks the channel out of the status byte', () => {
+    expect(parse([0x9f, 48, 64])).toMatchObject({ type: 'noteon', channel: 16 })
+    expect(parse([0x83, 48, 0])).toMatchObject({ type: 'noteoff', channel: 4 })
+    expect(parse([0xb9, 1, 10])).toMatchObject({ type: 'controlchange', channel: 10 })
+  })
+
+  it('ignores short, empty and unsupported messages', () => {
+    expect(parseMidiMessage(null)).toBeNull()
+    expect(parse([0x90, 60])).toBeNull()
+    expect(parse([0xe0, 0, 64])).toBeNull() // Pitch bend
+    expect(parse([0xa0, 60, 30])).toBeNull() // Aftertouch
+  })
+})
+
+describe('midiNoteToName', () => {
+  it('uses scientific pitch names', () => {
+    expect(midiNoteToName(60)).toBe('C4')
+    expect(midiNoteToName(21)).toBe('A0')
+    expect(midiNoteToName(61)).toBe('C#4')
+  })
+})
+
+describe('createMockMidiAccess', () => {
+  it('delivers bytes to listeners of the named input only', () => {
+    const access = createMockMidiAccess([{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }])
+    const received: number[][] = []
+    access.inputs.get('a')!.addEventListener('midimessage', event => received.push(Array.from(event.data!)))
+
+    access.send('a', [0x90, 60, 100])
+    access.send('b', [0x90, 62, 100])
+
+    expect(received).toEqual([[0x90, 60, 100]])
+    expect(() => access.send('missing', [0x90, 60, 100])).toThrow()
+  })
+})
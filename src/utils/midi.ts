@@ -0,0 +1,122 @@
+/**
+ * Web MIDI helpers: message parsing, note naming and access to input devices
+ * A mock MIDIAccess lets the input handling run without hardware or browser support.
+ */
+
+import type { MidiAccessLike, MidiInputLike, MidiMessage, MidiMessageEventLike, RequestMidiAccess } from '../types/midi'
+
+export const SUSTAIN_PEDAL_CC = 64
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+/**
+ * Decode a raw MIDI message; returns null for messages the instrument ignores
+ * (system messages, aftertouch, pitch bend, program change)
+ */
+export function parseMidiMessage(data: Uint8Array | null): MidiMessage | null {
+  if (!data || data.length < 3) {
+    return null
+  }
+
+  const [status, data1, data2] = data
+  const channel = (status & 0x0f) + 1
+
+  switch (status & 0xf0) {
+    case 0x90:
+      // Note-on with velocity 0 is the running-status form of note-off
+      return data2 === 0
+        ? { type: 'noteoff', channel, note: data1 }
+        : { type: 'noteon', channel, note: data1, velocity: data2 / 127 }
+    case 0x80:
+      return { type: 'noteoff', channel, note: data1 }
+    case 0xb0:
+      return { type: 'controlchange', channel, controller: data1, value: data2 }
+    default:
+      return null
+  }
+}
+
+/**
+ * Scientific pitch name for a MIDI note number (60 = C4)
+ */
+export function midiNoteToName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`
+}
+
+/**
+ * Request MIDI access from the browser; throws when Web MIDI is unavailable
+ */
+export const requestBrowserMidiAccess: RequestMidiAccess = async () => {
+  if (!isWebMidiSupported()) {
+    throw new Error('Web MIDI is not supported in this browser')
+  }
+  return navigator.requestMIDIAccess()
+}
+
+export function isWebMidiSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function'
+}
+
+// Small listener registry shared by the mock ports
+function createListenerSet<T>() {
+  const listeners = new Set<(event: T) => void>()
+  return {
+    add: (listener: (event: T) => void) => { listeners.add(listener) },
+    remove: (listener: (event: T) => void) => { listeners.delete(listener) },
+    emit: (event: T) => listeners.forEach(listener => listener(event))
+  }
+}
+
+export interface MockMidiAccess extends MidiAccessLike {
+  // Deliver raw bytes from the given input, e.g. [0x90, 60, 100]
+  send(inputId: string, data: number[]): void
+  // Plug in or unplug a device; fires statechange like a real hot-plug
+  connectInput(id: string, name: string): void
+  disconnectInput(id: string): void
+}
+
+/**
+ * In-memory MIDIAccess for tests and development without a MIDI keyboard
+ */
+export function createMockMidiAccess(devices: Array<{ id: string; name: string }> = []): MockMidiAccess {
+  const inputs = new Map<string, MidiInputLike>()
+  const messageListeners = new Map<string, ReturnType<typeof createListenerSet<MidiMessageEventLike>>>()
+  const stateListeners = createListenerSet<void>()
+
+  const addInput = (id: string, name: string) => {
+    const listeners = createListenerSet<MidiMessageEventLike>()
+    messageListeners.set(id, listeners)
+    inputs.set(id, {
+      id,
+      name,
+      manufacturer: 'Mock',
+      state: 'connected',
+      addEventListener: (_type, listener) => listeners.add(listener),
+      removeEventListener: (_type, listener) => listeners.remove(listener)
+    })
+  }
+
+  devices.forEach(({ id, name }) => addInput(id, name))
+
+  return {
+    inputs,
+    addEventListener: (_type, listener) => stateListeners.add(listener),
+    removeEventListener: (_type, listener) => stateListeners.remove(listener),
+    send: (inputId, data) => {
+      const listeners = messageListeners.get(inputId)
+      if (!listeners) {
+        throw new Error(`Unknown mock MIDI input: ${inputId}`)
+      }
+      listeners.emit({ data: new Uint8Array(data) })
+    },
+    connectInput: (id, name) => {
+      addInput(id, name)
+      stateListeners.emit()
+    },
+    disconnectInput: (id) => {
+      inputs.delete(id)
+      messageListeners.delete(id)
+      stateListeners.emit()
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * MIDI learn: turning controller values into parameter values
+ * Ranges and curves come from parameter metadata, so a CC sweeps the same range as the on-screen control.
+ */
+
+import type { AudioGraphDefinition, MidiCCBinding } from '../types/audioGraph'
+import type { ParameterMetadata } from '../types/parameterMetadata'
+import { getParameterMetadata } from '../types/parameterMetadata'
+import { parseParameterPath } from './graphUtils'
+
+// Envelope objects nested in instrument settings share the ADSR node's ranges
+const ENVELOPE_KEYS = ['envelope', 'filterEnvelope']
+
+/**
+ * Metadata describing the parameter at a binding target, e.g. "synth.envelope.attack"
+ */
+export function getTargetMetadata(graph: AudioGraphDefinition, target: string): ParameterMetadata | null {
+  const { nodeId, property } = parseParameterPath(target)
+  const node = graph.nodes[nodeId]
+  if (!node) {
+    return null
+  }
+
+  const segments = property.split('.')
+  const parameterName = segments[segments.length - 1]
+  const parent = segments[segments.length - 2]
+  const nodeType = parent && ENVELOPE_KEYS.includes(parent) ? 'ADSR' : node.type
+  return getParameterMetadata(parameterName, nodeType)
+}
+
+/**
+ * Map a 7-bit controller value onto a parameter, following the metadata's range and scale.
+ * Logarithmic parameters are swept in slider space so the knob feels like the slider.
+ */
+export function scaleControllerValue(value: number, metadata: ParameterMetadata): number | string | null {
+  const position = Math.min(Math.max(value / 127, 0), 1)
+
+  if (metadata.controlType === 'select' && metadata.options?.length) {
+    const index = Math.min(Math.floor(position * metadata.options.length), metadata.options.length - 1)
+    return metadata.options[index].value
+  }
+
+  if (!metadata.range) {
+    return null
+  }
+
+  const { min, max, step } = metadata.range
+  const sliderValue = min + position * (max - min)
+
+  if (metadata.scale === 'logarithmic' && metadata.fromSlider) {
+    return metadata.fromSlider(sliderValue)
+  }
+
+  if (!step) {
+    return sliderValue
+  }
+  // Snap to the step, trimming float noise such as 0.30000000000000004
+  const snapped = min + Math.round((sliderValue - min) / step) * step
+  return Number(snapped.toFixed(6))
+}
+
+/**
+ * Settings update that writes `value` at a nested property path.
+ * The innermost object keeps its siblings; outer levels carry only the changed branch,
+ * matching how the envelope controls update voices.
+ */
+export function buildSettingsUpdate(settings: Record<string, unknown>, property: string, value: unknown): Record<string, unknown> {
+  const [key, ...rest] = property.split('.')
+  if (rest.length === 0) {
+    return { [key]: value }
+  }
+
+  const current = settings[key]
+  const nested = typeof current === 'object' && current !== null ? current as Record<string, unknown> : {}
+  if (rest.length === 1) {
+    return { [key]: { ...nested, [rest[0]]: value } }
+  }
+  return { [key]: buildSettingsUpdate(nested, rest.join('.'), value) }
+}
+
+/**
+ * Bindings that respond to a controller message
+ */
+export function findBindings(bindings: MidiCCBinding[] | undefined, controller: number, channel: number): MidiCCBinding[] {
+  return (bindings || []).filter(binding =>
+    binding.controller === controller && (binding.channel === undefined || binding.channel === channel)
+  )
+}
@@ -0,0 +1,152 @@
+/**
+ * Signal-rate modulation: a CV source (LFO or envelope) is routed through Tone.js signal
+ * operators into a destination Param, where it sums with the Param's own value.
+ *
+ *   unscaled route:  param = base + source * amount
+ *   scaled route:    param = min + (source * amount) * (max - min)
+ */
+
+import type { ModulationRoute, NodeInstance } from '../types/audioGraph'
+import { getToneModule } from './toneLoader'
+
+export interface ModulationChain {
+  multiply: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  scale: any | null // eslint-disable-line @typescript-eslint/no-explicit-any
+  source: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  destination: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  range: [number, number] | null
+}
+
+// Resolve a property path (e.g. "filterEnvelope" or "filter.frequency") on a node's Tone.js instance
+export const getParameter = (node: NodeInstance, paramName: string): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const instance = node.instance
+
+  if (!instance) {
+    console.warn('⚠️ Node instance is null:', node.id)
+    return null
+  }
+
+  // Handle nested parameters (e.g., oscillator.frequency)
+  const paramParts = paramName.split('.')
+  let param = instance
+
+  for (const part of paramParts) {
+    if (param && param[part] !== undefined) {
+      param = param[part]
+    } else {
+      console.warn('⚠️ Parameter not found:', paramName, 'on node', node.id)
+      return null
+    }
+  }
+
+  return param
+}
+
+/**
+ * The signal a modulation source emits. "output" (or no property) means the node itself.
+ * Amplitude envelopes only output the audio they shape, and Tone.js exposes no public handle
+ * on their control curve, so the protected `_sig` Signal behind it is tapped instead. That field
+ * is Tone.js internals: it is checked before use so a Tone.js upgrade that renames it fails loudly.
+ */
+export const getModulationSource = (node: NodeInstance, property: string): any => { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const Tone = getToneModule()
+  const source = !property || property === 'output' ? node.instance : getParameter(node, property)
+  if (!Tone || !source) {
+    return null
+  }
+  if (source instanceof Tone.AmplitudeEnvelope) {
+    const curve: unknown = source['_sig' as keyof typeof source]
+    if (!(curve instanceof Tone.Signal)) {
+      console.error('❌ Amplitude envelope control signal not found, cannot modulate from:', node.id)
+      return null
+    }
+    return curve
+  }
+  return source
+}
+
+// Chains per source, so an LFO started for modulation is stopped once nothing it modulates is left
+const chainCounts = new WeakMap<object, number>()
+const autoStartedSources = new WeakSet<object>()
+
+// The Param's own value, which the modulation is added to
+const getBaseValue = (destination: any): number => // eslint-disable-line @typescript-eslint/no-explicit-any
+  typeof destination.value === 'number' ? destination.value : 0
+
+// A scaled route sweeps the Param between min and max, so the scale is offset by the Param's own value
+const applyRange = (chain: ModulationChain) => {
+  if (!chain.scale || !chain.range) return
+  const base = getBaseValue(chain.destination)
+  chain.scale.min = chain.range[0] - base
+  chain.scale.max = chain.range[1] - base
+}
+
+/**
+ * Build and connect the signal chain for one route. Returns null when the source or
+ * destination cannot carry a signal.
+ */
+export function createModulationChain(source: any, destination: any, route: ModulationRoute): ModulationChain | null { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const Tone = getToneModule()
+  if (!Tone) {
+    throw new Error('Tone.js not loaded')
+  }
+  if (!source || typeof source.connect !== 'function') {
+    console.error('❌ Modulation source cannot output a signal:', route.source)
+    return null
+  }
+  if (!destination || !(destination instanceof Tone.Param || destination instanceof Tone.Signal)) {
+    console.error('❌ Modulation destination is not a signal-rate parameter:', route.destination)
+    return null
+  }
+
+  const multiply = new Tone.Multiply(route.amount)
+  const scale = route.scale ? new Tone.Scale(route.scale[0], route.scale[1]) : null
+  const chain: ModulationChain = { multiply, scale, source, destination, range: route.scale ? [...route.scale] : null }
+  applyRange(chain)
+
+  source.connect(multiply)
+  if (scale) {
+    multiply.connect(scale)
+  }
+  // Tone's plain connect sums with the Param instead of overriding its value the way signal.connect would
+  Tone.connect(scale || multiply, destination)
+
+  // LFOs are free running once they modulate something
+  if (source instanceof Tone.LFO && source.state !== 'started') {
+    source.start()
+    autoStartedSources.add(source)
+  }
+  chainCounts.set(source, (chainCounts.get(source) ?? 0) + 1)
+
+  return chain
+}
+
+export function setModulationChainAmount(chain: ModulationChain, amount: number) {
+  chain.multiply.factor.value = amount
+}
+
+// Re-offset a scaled route after the destination's own value changed
+export function rebaseModulationChain(chain: ModulationChain) {
+  applyRange(chain)
+}
+
+export function disposeModulationChain(chain: ModulationChain) {
+  try {
+    chain.source.disconnect(chain.multiply)
+  } catch (error) {
+    // The source may already be disposed along with its node
+    console.warn('⚠️ Modulation source already disconnected:', error)
+  }
+  chain.multiply.dispose()
+  chain.scale?.dispose()
+
+  const remaining = (chainCounts.get(chain.source) ?? 1) - 1
+  if (remaining > 0) {
+    chainCounts.set(chain.source, remaining)
+    return
+  }
+  chainCounts.delete(chain.source)
+  if (autoStartedSources.delete(chain.source) && !chain.source.disposed && chain.source.state === 'started') {
+    chain.source.stop()
+  }
+}
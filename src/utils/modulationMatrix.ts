@@ -0,0 +1,132 @@
+/**
+ * Modulation matrix: which CV sources a graph offers, which parameters they can drive,
+ * and how a bipolar depth (-1..1) maps onto a route's amount.
+ * Full depth sweeps the destination across its whole control range.
+ */
+
+import type { AudioGraphDefinition, AudioNodeType, ModulationRoute } from '../types/audioGraph'
+import type { ParameterMetadata, ParameterRange } from '../types/parameterMetadata'
+import { getParameterMetadata } from '../types/parameterMetadata'
+import { getNodePorts } from './nodePorts'
+import { parseConnectionString, parseParameterPath } from './graphUtils'
+
+export interface ModulationSourceOption {
+  path: string // Route source, e.g. "lfo" or "synth.envelope"
+  nodeId: string
+  label: string
+}
+
+export interface ModulationDestinationOption {
+  path: string // Route destination, e.g. "filter.frequency"
+  nodeId: string
+  parameter: string
+  label: string
+  metadata: ParameterMetadata
+}
+
+export const MAX_MODULATION_DEPTH = 1
+
+// Nodes whose output is itself a control signal
+const CV_SOURCE_NODE_TYPES: AudioNodeType[] = ['LFO', 'ADSR']
+
+// Amplitude envelopes inside instruments; their control curve can drive other parameters too
+export const INSTRUMENT_ENVELOPE_SOURCES: Partial<Record<AudioNodeType, string[]>> = {
+  Synth: ['envelope'],
+  MembraneSynth: ['envelope'],
+  MetalSynth: ['envelope'],
+  NoiseSynth: ['envelope'],
+  MonoSynth: ['envelope'],
+  AMSynth: ['envelope', 'modulationEnvelope'],
+  FMSynth: ['envelope', 'modulationEnvelope']
+}
+
+/**
+ * CV sources in the graph: LFO and ADSR nodes, then instrument envelopes
+ */
+export function getModulationSources(graph: AudioGraphDefinition): ModulationSourceOption[] {
+  const entries = Object.entries(graph.nodes)
+  const nodeSources = entries
+    .filter(([, node]) => CV_SOURCE_NODE_TYPES.includes(node.type))
+    .map(([nodeId]) => ({ path: nodeId, nodeId, label: nodeId }))
+  const envelopeSources = entries.flatMap(([nodeId, node]) =>
+    (INSTRUMENT_ENVELOPE_SOURCES[node.type] || []).map(envelope => ({
+      path: `${nodeId}.${envelope}`,
+      nodeId,
+      label: `${nodeId} ${envelope}`
+    }))
+  )
+  return [...nodeSources, ...envelopeSources]
+}
+
+/**
+ * Signal-rate parameters with a control range. Decibel parameters are left out:
+ * a signal is added to their linear gain, so a depth in dB would not mean anything.
+ */
+export function getModulationDestinations(graph: AudioGraphDefinition): ModulationDestinationOption[] {
+  return Object.entries(graph.nodes).flatMap(([nodeId, node]) =>
+    getNodePorts(node.type).cvInputs.flatMap(parameter => {
+      const metadata = getParameterMetadata(parameter, node.type)
+      if (!metadata || !getValueRange(metadata) || metadata.unit === 'dB') {
+        return []
+      }
+      return [{ path: `${nodeId}.${parameter}`, nodeId, parameter, label: `${nodeId} ${parameter}`, metadata }]
+    })
+  )
+}
+
+// Real value bounds of a slider parameter; logarithmic sliders are converted back from slider space
+const getValueRange = (metadata: ParameterMetadata): ParameterRange | null => {
+  if (metadata.valueRange) {
+    return metadata.valueRange
+  }
+  if (!metadata.range) {
+    return null
+  }
+  if (metadata.scale === 'logarithmic' && metadata.fromSlider) {
+    return { min: metadata.fromSlider(metadata.range.min), max: metadata.fromSlider(metadata.range.max) }
+  }
+  return metadata.range
+}
+
+// Peak-to-peak output of a source. LFOs swing between their min and max, envelopes between 0 and 1.
+const getSourceSpan = (graph: AudioGraphDefinition, source: string): number => {
+  const node = graph.nodes[parseConnectionString(source).nodeId]
+  if (node?.type !== 'LFO') {
+    return 1
+  }
+  const min = typeof node.settings?.min === 'number' ? node.settings.min : 0
+  const max = typeof node.settings?.max === 'number' ? node.settings.max : 1
+  return Math.abs(max - min) || 1
+}
+
+/**
+ * Route amount per unit of depth for a source/destination pair
+ */
+export function getDepthScale(graph: AudioGraphDefinition, source: string, destination: string): number {
+  const { nodeId, property } = parseParameterPath(destination)
+  const node = graph.nodes[nodeId]
+  const metadata = node ? getParameterMetadata(property, node.type) : null
+  const range = metadata ? getValueRange(metadata) : null
+  const destinationSpan = range ? range.max - range.min : 1
+  return destinationSpan / getSourceSpan(graph, source)
+}
+
+export function depthToAmount(graph: AudioGraphDefinition, source: string, destination: string, depth: number): number {
+  const clamped = Math.max(-MAX_MODULATION_DEPTH, Math.min(MAX_MODULATION_DEPTH, depth))
+  return Number((clamped * getDepthScale(graph, source, destination)).toPrecision(6))
+}
+
+export function amountToDepth(graph: AudioGraphDefinition, route: ModulationRoute): number {
+  return route.amount / getDepthScale(graph, route.source, route.destination)
+}
+
+export function findModulationRoute(graph: AudioGraphDefinition, source: string, destination: string): ModulationRoute | undefined {
+  return graph.modulation?.find(route => route.source === source && route.destination === destination)
+}
+
+// An LFO or ADSR node routed into its own parameters would only feed back on itself
+export const isSelfModulation = (source: ModulationSourceOption, destination: ModulationDestinationOption): boolean =>
+  source.path === source.nodeId && source.nodeId === destination.nodeId
+
+// Routes without the flag predate it and are active
+export const isRouteEnabled = (route: ModulationRoute): boolean => route.enabled !== false
@@ -0,0 +1,31 @@
+/**
+ * Timing of one-shot hits for momentary graphs (kicks, snares, hats)
+ * The note is held through the envelope's attack and decay, then released so the release tail plays out.
+ */
+
+import type { AudioNodeType } from '../types/audioGraph'
+
+export interface MomentaryTiming {
+  releaseStart: number // Seconds after the attack when the note is released
+  totalDuration: number // Seconds until the release tail has finished
+}
+
+export function getMomentaryTiming(type: AudioNodeType, settings: Record<string, any>): MomentaryTiming { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const envelope = settings.envelope || {}
+
+  if (type === 'MetalSynth') {
+    // MetalSynth has sustain=0, so it's attack+decay, then release
+    const releaseStart = (envelope.attack || 0.001) + (envelope.decay || 1.4)
+    return { releaseStart, totalDuration: releaseStart + (envelope.release || 0.2) }
+  }
+
+  if (type === 'NoiseSynth') {
+    // Short sustain for noise
+    const releaseStart = (envelope.attack || 0.005) + (envelope.decay || 0.3) + 0.1
+    return { releaseStart, totalDuration: releaseStart + (envelope.release || 0.3) }
+  }
+
+  // Standard envelope-based instruments (MembraneSynth, etc.)
+  const releaseStart = (envelope.attack || 0.001) + (envelope.decay || 0.4) + (envelope.sustainDuration || 0.1)
+  return { releaseStart, totalDuration: releaseStart + (envelope.release || 1.4) }
+}
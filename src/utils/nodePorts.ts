@@ -0,0 +1,78 @@
+/**
+ * Connection ports each node type offers in the patch editor
+ * Audio ports carry sound; CV ports are signal-rate parameters that accept control signals.
+ */
+
+import type { AudioNodeType, SignalType } from '../types/audioGraph'
+import { DEFAULT_PROPERTIES } from './graphUtils'
+
+export interface NodePorts {
+  audioInput: boolean
+  output: boolean
+  cvInputs: string[] // Parameter names that can be driven by a CV cable
+}
+
+// Nodes that generate sound or control signals themselves and take no audio input
+const SOURCE_NODE_TYPES: AudioNodeType[] = [
+  'Synth', 'MembraneSynth', 'AMSynth', 'FMSynth', 'DuoSynth', 'MonoSynth', 'PluckSynth',
+  'PolySynth', 'MetalSynth', 'NoiseSynth', 'Sampler', 'Oscillator', 'LFO'
+]
+
+// Nodes that end a signal path
+const TERMINAL_NODE_TYPES: AudioNodeType[] = ['Output', 'Recorder']
+
+// Signal-rate parameters exposed as CV inputs (Tone.js Signal/Param members only)
+const CV_INPUTS: Partial<Record<AudioNodeType, string[]>> = {
+  Synth: ['frequency', 'detune', 'volume'],
+  MembraneSynth: ['frequency', 'detune', 'volume'],
+  AMSynth: ['frequency', 'detune', 'harmonicity', 'volume'],
+  FMSynth: ['frequency', 'detune', 'harmonicity', 'modulationIndex', 'volume'],
+  DuoSynth: ['frequency', 'detune', 'harmonicity', 'vibratoAmount', 'volume'],
+  MonoSynth: ['frequency', 'detune', 'volume'],
+  MetalSynth: ['frequency', 'detune', 'volume'],
+  PolySynth: ['volume'],
+  PluckSynth: ['volume'],
+  NoiseSynth: ['volume'],
+  Sampler: ['volume'],
+  Oscillator: ['frequency', 'detune', 'volume'],
+  LFO: ['frequency', 'amplitude'],
+  Filter: ['frequency', 'Q', 'detune', 'gain'],
+  Gain: ['gain'],
+  Delay: ['delayTime'],
+  FeedbackDelay: ['delayTime', 'feedback', 'wet'],
+  PingPongDelay: ['delayTime', 'feedback', 'wet'],
+  Reverb: ['wet'],
+  Freeverb: ['roomSize', 'wet'],
+  JCReverb: ['roomSize', 'wet'],
+  Distortion: ['wet'],
+  BitCrusher: ['wet'],
+  Chebyshev: ['wet'],
+  Chorus: ['frequency', 'wet'],
+  Phaser: ['frequency', 'Q', 'wet'],
+  AutoFilter: ['frequency', 'depth', 'wet'],
+  AutoPanner: ['frequency', 'depth', 'wet'],
+  AutoWah: ['Q', 'gain', 'wet'],
+  Tremolo: ['frequency', 'depth', 'wet'],
+  Vibrato: ['frequency', 'depth', 'wet'],
+  Multiply: ['factor'],
+  Add: ['addend']
+}
+
+/**
+ * Ports available on a node of the given type
+ */
+export function getNodePorts(type: AudioNodeType): NodePorts {
+  return {
+    audioInput: !SOURCE_NODE_TYPES.includes(type),
+    output: !TERMINAL_NODE_TYPES.includes(type),
+    cvInputs: CV_INPUTS[type] || []
+  }
+}
+
+/**
+ * Signal type of a cable ending at the given input port:
+ * the audio input carries sound, every other input is a parameter
+ */
+export function getInputSignalType(port: string): SignalType {
+  return port === DEFAULT_PROPERTIES.CONNECTION_INPUT ? 'audio' : 'cv'
+}
@@ -0,0 +1,96 @@
+/**
+ * Offline rendering of a complete graph (instrument and effects) for export
+ */
+
+import type { AudioGraphConfig } from '../types/audioGraph'
+import { getToneModule } from './toneLoader'
+import { getMomentaryTiming } from './momentaryTiming'
+import { buildToneGraph, type ToneGraph } from './toneGraph'
+import { ZonedSampler } from './zonedSampler'
+
+export interface OfflineRenderOptions {
+  sampleRate: number
+  noteLength: number // Seconds a sustained note is held; momentary graphs follow their envelope
+  tail: number // Seconds recorded after the release, for reverb and delay tails
+  note?: string | number // Defaults to the note the play button uses
+}
+
+export interface RenderedAudio {
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 88200, 96000]
+export const MAX_RENDER_SECONDS = 60
+
+export const DEFAULT_RENDER_OPTIONS: OfflineRenderOptions = {
+  sampleRate: 44100,
+  noteLength: 1,
+  tail: 2
+}
+
+/**
+ * Seconds the trigger nodes are held before release
+ */
+export function getRenderHoldTime(config: AudioGraphConfig, noteLength: number): number {
+  if (config.graph.trigger === 'sustained') {
+    return noteLength
+  }
+  return Math.max(0, ...Object.values(config.graph.nodes)
+    .filter(definition => definition.trigger)
+    .map(definition => getMomentaryTiming(definition.type, definition.settings || {}).releaseStart))
+}
+
+/**
+ * Render one note through the whole graph in an OfflineContext, returning stereo sample data
+ */
+export async function renderGraphOffline(config: AudioGraphConfig, options: OfflineRenderOptions): Promise<RenderedAudio> {
+  const Tone = getToneModule()
+  if (!Tone) {
+    throw new Error('Tone.js not loaded')
+  }
+
+  const holdTime = getRenderHoldTime(config, options.noteLength)
+  const duration = holdTime + options.tail
+  if (duration <= 0 || duration > MAX_RENDER_SECONDS) {
+    throw new Error(`Render length must be between 0 and ${MAX_RENDER_SECONDS} seconds`)
+  }
+
+  console.log('🎚️ Rendering graph offline:', config.name, `${duration.toFixed(2)}s @ ${options.sampleRate} Hz`)
+
+  const builtGraphs: ToneGraph[] = []
+  const buffer = await Tone.Offline(async () => {
+    const graph = buildToneGraph(config.graph)
+    builtGraphs.push(graph)
+
+    // Samplers fetch their buffers asynchronously, after reading them from the sample store
+    await Tone.loaded()
+    await Promise.all(Array.from(graph.nodes.values(), node => node.instance instanceof ZonedSampler ? node.instance.loaded : undefined))
+    // Reverbs generate their impulse response asynchronously; rendering before it is ready leaves them silent
+    await Promise.all(Array.from(graph.nodes.values(), node => node.instance?.ready))
+
+    for (const [nodeId, definition] of Object.entries(config.graph.nodes)) {
+      const node = graph.nodes.get(nodeId)
+      if (!definition.trigger || !node?.instance || !('triggerAttackRelease' in node.instance)) continue
+
+      if (definition.type === 'NoiseSynth') {
+        node.instance.triggerAttackRelease(holdTime, 0)
+        continue
+      }
+      const settings = definition.settings || {}
+      const defaultNote = config.graph.trigger === 'momentary' && definition.type !== 'MetalSynth'
+        ? 'C2'
+        : settings.frequency || 440
+      node.instance.triggerAttackRelease(options.note ?? defaultNote, holdTime, 0)
+    }
+  }, duration, 2, options.sampleRate)
+
+  builtGraphs.forEach(graph => graph.dispose())
+
+  const audioBuffer = buffer.get()
+  if (!audioBuffer) {
+    throw new Error('Offline render produced no audio')
+  }
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, index) => audioBuffer.getChannelData(index))
+  return { channels, sampleRate: audioBuffer.sampleRate }
+}
@@ -0,0 +1,119 @@
+/**
+ * Share patches as URL hashes
+ * The config JSON is deflate-compressed (when the browser supports CompressionStream)
+ * and base64url-encoded into `#patch=<format><data>`.
+ */
+
+import type { AudioGraphConfig, GraphPreset } from '../types/audioGraph'
+import { validateGraphConfig, formatGraphConfigIssue } from './graphConfigValidator'
+import { isLegacyInstrumentConfig, legacyToGraph } from './graphConfigConverter'
+import { CURRENT_PRESET_VERSION, migratePreset, needsMigration } from './presetMigrations'
+import { snapshotPresetGraph } from './presetStorage'
+
+export const PATCH_HASH_PARAM = 'patch'
+
+// Leading format marker so links stay decodable whichever encoding produced them
+const FORMAT_DEFLATE = 'z'
+const FORMAT_PLAIN = 'j'
+
+const supportsCompression = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const transformed = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(transformed).arrayBuffer())
+}
+
+/**
+ * Encode a config into the compact string used in share links.
+ * Preset identity is dropped; the preset version is kept so old links can be migrated.
+ */
+export async function encodePatch(config: AudioGraphConfig): Promise<string> {
+  const { name, type, graph, metadata } = config
+  const payload = {
+    name,
+    type,
+    graph: snapshotPresetGraph(graph),
+    ...(metadata ? { metadata } : {}),
+    version: CURRENT_PRESET_VERSION
+  }
+  const bytes = new TextEncoder().encode(JSON.stringify(payload))
+
+  if (supportsCompression()) {
+    const compressed = await transformBytes(bytes, new CompressionStream('deflate-raw'))
+    return FORMAT_DEFLATE + toBase64Url(compressed)
+  }
+
+  return FORMAT_PLAIN + toBase64Url(bytes)
+}
+
+/**
+ * Decode and validate a shared patch string.
+ * Throws with a readable message if the data is corrupt or not a valid graph config.
+ */
+export async function decodePatch(encoded: string): Promise<AudioGraphConfig> {
+  const format = encoded.charAt(0)
+  let bytes = fromBase64Url(encoded.slice(1))
+
+  if (format === FORMAT_DEFLATE) {
+    if (!supportsCompression()) {
+      throw new Error('This browser cannot decompress shared patches')
+    }
+    bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'))
+  } else if (format !== FORMAT_PLAIN) {
+    throw new Error(`Unknown patch format "${format}"`)
+  }
+
+  let config: unknown = JSON.parse(new TextDecoder().decode(bytes))
+
+  if (isLegacyInstrumentConfig(config)) {
+    config = legacyToGraph(config)
+  } else if (config && typeof config === 'object' && 'version' in config) {
+    // Links created by older versions of the app carry an older preset schema
+    const preset = config as GraphPreset
+    if (needsMigration(preset)) {
+      config = migratePreset(preset)
+    }
+  }
+
+  const validation = validateGraphConfig(config)
+  if (!validation.valid) {
+    throw new Error(`Invalid shared patch: ${validation.errors.map(formatGraphConfigIssue).join('; ')}`)
+  }
+
+  // Strip the version marker so the result is a plain graph config
+  const { name, type, graph, metadata } = config as AudioGraphConfig
+  return { name, type, graph, ...(metadata ? { metadata } : {}) }
+}
+
+/**
+ * Build a shareable link to the current page carrying the encoded patch
+ */
+export async function createShareUrl(config: AudioGraphConfig): Promise<string> {
+  const encoded = await encodePatch(config)
+  const url = new URL(window.location.href)
+  url.hash = `${PATCH_HASH_PARAM}=${encoded}`
+  return url.toString()
+}
+
+/**
+ * Extract the encoded patch from a location hash, if there is one
+ */
+export function readPatchFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(PATCH_HASH_PARAM)
+}
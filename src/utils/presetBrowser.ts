@@ -0,0 +1,197 @@
+/**
+ * Preset browser: one searchable list over factory instruments, effect chains and user presets,
+ * plus favourites and recently used presets persisted in localStorage.
+ * Entries are identified by the same values the preset select uses.
+ */
+
+import type { AudioGraphConfig, GraphPreset } from '../types/audioGraph'
+import { getAvailableInstruments, getInstrumentPreset } from '../config/instrumentPresets'
+import { getAvailableEffectChains, getEffectChainPreset, effectChainPresets } from '../config/effectChainPresets'
+import { getFactoryPreset } from './presetStorage'
+
+const STORAGE_KEY = 'audio-bass.presetBrowser'
+
+// Effect chains and user presets are prefixed so their values never collide with instrument keys
+export const EFFECT_CHAIN_PREFIX = 'chain:'
+export const USER_PRESET_PREFIX = 'user:'
+
+export const MAX_RECENT_PRESETS = 8
+export const UNCATEGORISED = 'other'
+
+export type PresetSource = 'instrument' | 'chain' | 'user'
+
+export interface PresetEntry {
+  value: string
+  name: string
+  source: PresetSource
+  category: string
+  tags: string[]
+  description: string
+  trigger: 'momentary' | 'sustained'
+}
+
+export type PresetView = 'all' | 'favourites' | 'recent'
+
+export interface PresetFilter {
+  query: string
+  category: string | null
+  view: PresetView
+}
+
+export interface PresetBrowserState {
+  favourites: string[]
+  recents: string[] // Most recent first
+}
+
+/**
+ * Every preset the browser can load, factory instruments first. Disabled instruments are left out.
+ */
+export function buildPresetEntries(userPresets: GraphPreset[]): PresetEntry[] {
+  const instruments = getAvailableInstruments()
+    .filter(instrument => !instrument.disabled)
+    .map(instrument => {
+      const config = getInstrumentPreset(instrument.key)
+      return {
+        value: instrument.key,
+        name: instrument.name,
+        source: 'instrument' as const,
+        category: config.metadata?.category || UNCATEGORISED,
+        tags: config.metadata?.tags || [],
+        description: config.metadata?.description || instrument.description,
+        trigger: config.graph.trigger
+      }
+    })
+
+  const chains = getAvailableEffectChains().map(chain => {
+    const config = getEffectChainPreset(chain.key)
+    return {
+      value: `${EFFECT_CHAIN_PREFIX}${chain.key}`,
+      name: chain.name,
+      source: 'chain' as const,
+      category: chain.category,
+      tags: config.metadata?.tags || [],
+      description: chain.description,
+      trigger: config.graph.trigger
+    }
+  })
+
+  const user = userPresets.map(preset => ({
+    value: `${USER_PRESET_PREFIX}${preset.presetId}`,
+    name: preset.name,
+    source: 'user' as const,
+    category: preset.metadata?.category || UNCATEGORISED,
+    tags: preset.metadata?.tags || [],
+    description: preset.metadata?.description || '',
+    trigger: preset.graph.trigger
+  }))
+
+  return [...instruments, ...chains, ...user]
+}
+
+/**
+ * The factory preset a preset value names: an effect chain, or an instrument via presetStorage.
+ * Undefined for user presets and unknown keys.
+ */
+export function getFactoryPresetForValue(value: string): AudioGraphConfig | undefined {
+  if (!value.startsWith(EFFECT_CHAIN_PREFIX)) {
+    return getFactoryPreset(value)
+  }
+  const chains: Record<string, AudioGraphConfig> = effectChainPresets
+  const key = value.slice(EFFECT_CHAIN_PREFIX.length)
+  return Object.hasOwn(chains, key) ? chains[key] : undefined
+}
+
+/**
+ * Categories with how many entries each holds, in order of first appearance
+ */
+export function getPresetCategories(entries: PresetEntry[]): Array<{ category: string; count: number }> {
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    counts.set(entry.category, (counts.get(entry.category) || 0) + 1)
+  }
+  return Array.from(counts, ([category, count]) => ({ category, count }))
+}
+
+// How well an entry matches one search word: name beats tags and category, which beat the description
+const scoreWord = (entry: PresetEntry, word: string): number => {
+  const name = entry.name.toLowerCase()
+  if (name.startsWith(word)) return 4
+  if (name.includes(word)) return 3
+  if (entry.tags.some(tag => tag.toLowerCase().startsWith(word)) || entry.category.toLowerCase().startsWith(word)) return 2
+  if (entry.description.toLowerCase().includes(word)) return 1
+  return 0
+}
+
+/**
+ * Entries matching the filter. Every search word must match somewhere; better matches come first,
+ * and the recent view keeps most-recent-first order.
+ */
+export function filterPresets(entries: PresetEntry[], filter: PresetFilter, state: PresetBrowserState): PresetEntry[] {
+  let candidates = entries
+  if (filter.view === 'favourites') {
+    candidates = entries.filter(entry => state.favourites.includes(entry.value))
+  } else if (filter.view === 'recent') {
+    candidates = state.recents
+      .map(value => entries.find(entry => entry.value === value))
+      .filter((entry): entry is PresetEntry => entry !== undefined)
+  }
+  if (filter.category) {
+    candidates = candidates.filter(entry => entry.category === filter.category)
+  }
+
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) {
+    return candidates
+  }
+
+  return candidates
+    .map((entry, index) => {
+      const scores = words.map(word => scoreWord(entry, word))
+      return { entry, index, score: scores.includes(0) ? 0 : scores.reduce((sum, score) => sum + score, 0) }
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(match => match.entry)
+}
+
+export function toggleFavourite(state: PresetBrowserState, value: string): PresetBrowserState {
+  const favourites = state.favourites.includes(value)
+    ? state.favourites.filter(favourite => favourite !== value)
+    : [...state.favourites, value]
+  return { ...state, favourites }
+}
+
+export function addRecentPreset(state: PresetBrowserState, value: string): PresetBrowserState {
+  const recents = [value, ...state.recents.filter(recent => recent !== value)].slice(0, MAX_RECENT_PRESETS)
+  return { ...state, recents }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+export function loadPresetBrowserState(): PresetBrowserState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) {
+      return { favourites: [], recents: [] }
+    }
+    const parsed = JSON.parse(stored) as Partial<PresetBrowserState>
+    return {
+      favourites: isStringArray(parsed?.favourites) ? parsed.favourites : [],
+      recents: isStringArray(parsed?.recents) ? parsed.recents.slice(0, MAX_RECENT_PRESETS) : []
+    }
+  } catch (error) {
+    console.error('❌ Failed to load preset browser state:', error)
+    return { favourites: [], recents: [] }
+  }
+}
+
+export function savePresetBrowserState(state: PresetBrowserState): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    return true
+  } catch (error) {
+    console.error('❌ Failed to save preset browser state:', error)
+    return false
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { GraphPreset } from '../types/audioGraph'
+import { CURRENT_PRESET_VERSION, migratePreset, needsMigration, presetMigrations, syncFlattenedSettings } from './presetMigrations'
+
+const createPreset = (version: string | undefined, nodes: GraphPreset['graph']['nodes']): GraphPreset => ({
+  name: 'Test preset',
+  type: 'instrument',
+  presetId: 'test',
+  version: version as string,
+  graph: {
+    nodes: { ...nodes, output: { type: 'Output', settings: {} } },
+    connections: [],
+    trigger: 'sustained'
+  }
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('v1 → v2: syncFlattenedSettings', () => {
+  it('copies flattened MonoSynth filter parameters into the nested groups', () => {
+    const synced = syncFlattenedSettings('MonoSynth', {
+      Q: 4,
+      filterType: 'highpass',
+      baseFrequency: 300,
+      octaves: 2,
+      filter: { Q: 1, type: 'lowpass', rolloff: -24 },
+      filterEnvelope: { attack: 0.1 }
+    })
+
+    expect(synced.filter).toEqual({ Q: 4, type: 'highpass', rolloff: -24 })
+    expect(synced.filterEnvelope).toEqual({ attack: 0.1, baseFrequency: 300, octaves: 2 })
+    expect(synced.Q).toBe(4) // The flat keys stay for the UI
+  })
+
+  it('moves legacy oscillatorType into oscillator.type for Synth and MembraneSynth', () => {
+    expect(syncFlattenedSettings('Synth', { oscillatorType: 'square', oscillator: { phase: 90 } }))
+      .toEqual({ oscillator: { phase: 90, type: 'square' } })
+    expect(syncFlattenedSettings('MembraneSynth', { oscillatorType: 'sine' }))
+      .toEqual({ oscillator: { type: 'sine' } })
+  })
+
+  it('leaves other node types and the input untouched', () => {
+    const settings = { oscillatorType: 'square', Q: 3 }
+    expect(syncFlattenedSettings('FMSynth', settings)).toEqual(settings)
+    syncFlattenedSettings('Synth', settings)
+    expect(settings).toEqual({ oscillatorType: 'square', Q: 3 })
+  })
+
+  it('is registered as the migration from version 1', () => {
+    const migration = presetMigrations.find(candidate => candidate.from === '1')
+    expect(migration?.to).toBe('2')
+    const migrated = migration!.migrate(createPreset('1', { mono: { type: 'MonoSynth', settings: { Q: 7 } } }))
+    expect(migrated.graph.nodes.mono.settings?.filter).toEqual({ Q: 7 })
+  })
+})
+
+describe('migratePreset', () => {
+  it('chains every step from an unversioned preset up to the current version', () => {
+    const migrated = migratePreset(createPreset(undefined, {
+      mono: { type: 'MonoSynth', trigger: true, settings: { rolloff: -48 } },
+      synth: { type: 'Synth', settings: { oscillatorType: 'triangle' } }
+    }))
+
+    expect(migrated.version).toBe(CURRENT_PRESET_VERSION)
+    expect(migrated.graph.nodes.mono.settings?.filter).toEqual({ rolloff: -48 })
+    expect(migrated.graph.nodes.synth.settings).toEqual({ oscillator: { type: 'triangle' } })
+    expect(needsMigration(migrated)).toBe(false)
+  })
+
+  it('follows the registry one version at a time', () => {
+    let version = '1'
+    const steps: string[] = []
+    while (version !== CURRENT_PRESET_VERSION) {
+      const migration = presetMigrations.find(candidate => candidate.from === version)
+      expect(migration, `migration from v${version}`).toBeDefined()
+      steps.push(`${migration!.from}->${migration!.to}`)
+      version = migration!.to
+    }
+    expect(steps.length).toBe(presetMigrations.length)
+  })
+
+  it('leaves a current preset untouched', () => {
+    const preset = createPreset(CURRENT_PRESET_VERSION, { synth: { type: 'Synth', settings: { oscillatorType: 'square' } } })
+    expect(needsMigration(preset)).toBe(false)
+    expect(migratePreset(preset)).toEqual(preset)
+  })
+
+  it('rejects presets from a future or unknown version', () => {
+    const future = createPreset('99', { synth: { type: 'Synth', settings: {} } })
+    expect(needsMigration(future)).toBe(true)
+    expect(() => migratePreset(future)).toThrow('No migration from preset version 99')
+    expect(() => migratePreset(createPreset('beta', { synth: { type: 'Synth', settings: {} } }))).toThrow()
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Versioned migrations for stored GraphPresets
+ * Each migration upgrades a preset by exactly one version; migratePreset chains them
+ * until the preset reaches CURRENT_PRESET_VERSION.
+ */
+
+import type { AudioNodeType, GraphPreset } from '../types/audioGraph'
+
+export const CURRENT_PRESET_VERSION = '2'
+
+// Presets saved before versioning was enforced are treated as version 1
+const UNVERSIONED_PRESET_VERSION = '1'
+
+export interface PresetMigration {
+  from: string
+  to: string
+  description: string
+  migrate: (preset: GraphPreset) => GraphPreset
+}
+
+type Settings = Record<string, any> // eslint-disable-line @typescript-eslint/no-explicit-any
+
+// Flattened MonoSynth UI parameters and where Tone.js expects them
+const MONO_SYNTH_FLATTENED_PARAMS: Record<string, { group: 'filter' | 'filterEnvelope'; key: string }> = {
+  Q: { group: 'filter', key: 'Q' },
+  filterType: { group: 'filter', key: 'type' },
+  rolloff: { group: 'filter', key: 'rolloff' },
+  baseFrequency: { group: 'filterEnvelope', key: 'baseFrequency' },
+  octaves: { group: 'filterEnvelope', key: 'octaves' },
+  exponent: { group: 'filterEnvelope', key: 'exponent' }
+}
+
+/**
+ * Bring nested Tone.js settings in line with the flattened UI settings.
+ * The UI edits flat keys (MonoSynth `Q`, `baseFrequency`…, legacy `oscillatorType`), so those win.
+ */
+export function syncFlattenedSettings(nodeType: AudioNodeType, settings: Settings): Settings {
+  const synced: Settings = { ...settings }
+
+  if ((nodeType === 'Synth' || nodeType === 'MembraneSynth') && 'oscillatorType' in synced) {
+    synced.oscillator = { ...(synced.oscillator || {}), type: synced.oscillatorType }
+    delete synced.oscillatorType
+  }
+
+  if (nodeType === 'MonoSynth') {
+    for (const [flatKey, { group, key }] of Object.entries(MONO_SYNTH_FLATTENED_PARAMS)) {
+      if (flatKey in synced) {
+        synced[group] = { ...(synced[group] || {}), [key]: synced[flatKey] }
+      }
+    }
+  }
+
+  return synced
+}
+
+/**
+ * Apply a settings transform to every node in a preset
+ */
+const mapNodeSettings = (preset: GraphPreset, transform: (nodeType: AudioNodeType, settings: Settings) => Settings): GraphPreset => ({
+  ...preset,
+  graph: {
+    ...preset.graph,
+    nodes: Object.fromEntries(
+      Object.entries(preset.graph.nodes).map(([nodeId, node]) => [
+        nodeId,
+        node.settings ? { ...node, settings: transform(node.type, node.settings) } : node
+      ])
+    )
+  }
+})
+
+// Registry of migrations, one per version step
+export const presetMigrations: PresetMigration[] = [
+  {
+    from: '1',
+    to: '2',
+    description: 'Sync flattened MonoSynth filter params and oscillatorType into nested Tone.js settings',
+    migrate: (preset) => mapNodeSettings(preset, syncFlattenedSettings)
+  }
+]
+
+/**
+ * Upgrade a preset step by step to CURRENT_PRESET_VERSION.
+ * Throws if the preset is from a newer app version or no migration path exists.
+ */
+export function migratePreset(preset: GraphPreset): GraphPreset {
+  let migrated: GraphPreset = { ...preset, version: preset.version || UNVERSIONED_PRESET_VERSION }
+
+  const visited = new Set<string>()
+  while (migrated.version !== CURRENT_PRESET_VERSION) {
+    if (visited.has(migrated.version)) {
+      throw new Error(`Preset migration loop detected at version ${migrated.version}`)
+    }
+    visited.add(migrated.version)
+
+    const migration = presetMigrations.find(candidate => candidate.from === migrated.version)
+    if (!migration) {
+      throw new Error(`No migration from preset version ${migrated.version} to ${CURRENT_PRESET_VERSION}`)
+    }
+
+    console.log(`🔄 Migrating preset "${migrated.name}" from v${migration.from} to v${migration.to}:`, migration.description)
+    migrated = { ...migration.migrate(migrated), version: migration.to }
+  }
+
+  return migrated
+}
+
+/**
+ * Whether a preset needs migrating before use
+ */
+export function needsMigration(preset: Pick<GraphPreset, 'version'>): boolean {
+  return (preset.version || UNVERSIONED_PRESET_VERSION) !== CURRENT_PRESET_VERSION
+}
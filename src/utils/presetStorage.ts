@@ -0,0 +1,122 @@
+/**
+ * Persistence for user presets in localStorage
+ * Presets are stored as one JSON array so a library can be exported/inspected as a whole
+ */
+
+import type { AudioGraphConfig, AudioGraphDefinition, GraphPreset } from '../types/audioGraph'
+import { validateGraphConfig, formatGraphConfigIssue } from './graphConfigValidator'
+import { CURRENT_PRESET_VERSION, migratePreset, needsMigration, syncFlattenedSettings } from './presetMigrations'
+import { instrumentPresets } from '../config/instrumentPresets'
+
+const STORAGE_KEY = 'audio-bass.userPresets'
+
+export function createPresetId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Clone a live graph into the shape stored for the current preset version
+ */
+export function snapshotPresetGraph(graph: AudioGraphDefinition): AudioGraphDefinition {
+  const snapshot = structuredClone(graph)
+  for (const node of Object.values(snapshot.nodes)) {
+    if (node.settings) {
+      node.settings = syncFlattenedSettings(node.type, node.settings)
+    }
+  }
+  return snapshot
+}
+
+/**
+ * Build a user preset from a graph config, dropping any identity the config already carried.
+ * The factory preset it started from, if known, is kept so reverting can go back to it.
+ */
+export function createUserPreset(config: AudioGraphConfig, name: string, sourcePresetId?: string): GraphPreset {
+  const { graph, type, metadata } = config
+  return {
+    name,
+    type,
+    graph: snapshotPresetGraph(graph),
+    ...(metadata ? { metadata: structuredClone(metadata) } : {}),
+    presetId: createPresetId(),
+    version: CURRENT_PRESET_VERSION,
+    ...(sourcePresetId ? { sourcePresetId } : {})
+  }
+}
+
+/**
+ * The factory instrument a user preset was saved from (its sourcePresetId); undefined for unknown ids
+ */
+export function getFactoryPreset(sourcePresetId: string): AudioGraphConfig | undefined {
+  const presets: Record<string, AudioGraphConfig> = instrumentPresets
+  return Object.hasOwn(presets, sourcePresetId) ? presets[sourcePresetId] : undefined
+}
+
+/**
+ * Load all stored user presets, migrating older versions and skipping entries that no longer validate
+ */
+export function loadUserPresets(): GraphPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) {
+      return []
+    }
+
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) {
+      console.warn('⚠️ Ignoring malformed user preset storage')
+      return []
+    }
+
+    let migratedAny = false
+    let skippedAny = false
+    const presets: GraphPreset[] = []
+    for (const entry of parsed) {
+      let preset = entry as GraphPreset
+      try {
+        if (needsMigration(preset)) {
+          preset = migratePreset(preset)
+          migratedAny = true
+        }
+      } catch (error) {
+        console.warn('⚠️ Skipping stored preset that cannot be migrated:', preset?.name, error)
+        skippedAny = true
+        continue
+      }
+
+      const validation = validateGraphConfig(preset)
+      if (!validation.valid || typeof preset.presetId !== 'string') {
+        console.warn('⚠️ Skipping invalid stored preset:', preset?.name, validation.errors.map(formatGraphConfigIssue))
+        skippedAny = true
+        continue
+      }
+      presets.push(preset)
+    }
+
+    // Write upgraded presets back so migrations only run once (never while that would drop skipped entries)
+    if (migratedAny && !skippedAny) {
+      saveUserPresets(presets)
+    }
+
+    return presets
+  } catch (error) {
+    console.error('❌ Failed to load user presets:', error)
+    return []
+  }
+}
+
+/**
+ * Replace the stored user preset library
+ */
+export function saveUserPresets(presets: GraphPreset[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+    return true
+  } catch (error) {
+    console.error('❌ Failed to save user presets:', error)
+    return false
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Local audio for Sampler zones, kept in IndexedDB so presets reference samples by ID and play fully offline.
+ * Each sample gets one blob URL per session, which Tone.js loads like any other URL.
+ */
+
+import type { StoredSample } from '../types/sampler'
+
+const DB_NAME = 'audio-bass.samples'
+const DB_VERSION = 1
+const STORE_NAME = 'samples'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+const sampleUrls = new Map<string, string>()
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // A failed open may succeed later (e.g. after the user allows storage), so do not cache it
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const createSampleId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `sample-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Store an audio file; `duration` comes from decoding it, which also proves the browser can play it
+ */
+export async function saveSample(file: File, duration: number): Promise<StoredSample | null> {
+  const sample: StoredSample = {
+    id: createSampleId(),
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    duration,
+    createdAt: Date.now(),
+    data: file
+  }
+  try {
+    await runRequest('readwrite', store => store.put(sample))
+    console.log('💾 Stored sample:', sample.name, sample.id)
+    return sample
+  } catch (error) {
+    console.error('❌ Failed to store sample:', file.name, error)
+    return null
+  }
+}
+
+export async function getSample(id: string): Promise<StoredSample | null> {
+  try {
+    return (await runRequest<StoredSample | undefined>('readonly', store => store.get(id))) || null
+  } catch (error) {
+    console.error('❌ Failed to read sample:', id, error)
+    return null
+  }
+}
+
+/**
+ * Blob URL for a stored sample, or null when the sample is not in this browser's store
+ */
+export async function getSampleUrl(id: string): Promise<string | null> {
+  const cached = sampleUrls.get(id)
+  if (cached) {
+    return cached
+  }
+  const sample = await getSample(id)
+  if (!sample) {
+    return null
+  }
+  // Another load may have created a URL while this one read the store
+  const url = sampleUrls.get(id) || URL.createObjectURL(sample.data)
+  sampleUrls.set(id, url)
+  return url
+}
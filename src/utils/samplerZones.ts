@@ -0,0 +1,126 @@
+/**
+ * Sampler zones: each local sample plays from its root note across a key range and a velocity range.
+ * A note sounds every zone whose ranges contain it, so zones can split the keyboard or layer by velocity.
+ */
+
+import type { SamplerZone } from '../types/sampler'
+
+export const SUPPORTED_SAMPLE_EXTENSIONS = ['wav', 'mp3', 'ogg', 'flac'] as const
+export const SAMPLE_FILE_ACCEPT = '.wav,.mp3,.ogg,.flac,audio/wav,audio/x-wav,audio/mpeg,audio/ogg,audio/flac,audio/x-flac'
+
+export const DEFAULT_ROOT_NOTE = 60 // C4
+export const MIN_NOTE = 0
+export const MAX_NOTE = 127
+export const MIN_VELOCITY = 1
+export const MAX_VELOCITY = 127
+
+const SUPPORTED_SAMPLE_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mpeg', 'audio/mp3', 'audio/ogg', 'audio/flac', 'audio/x-flac']
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 }
+
+// A note name inside a file name, e.g. "piano_C4.wav", "Cello F#2.flac" or "pad-eb3.ogg"
+const FILE_NOTE_PATTERN = /(?:^|[^a-z])([a-g])(#|b|s)?(-1|[0-9])(?![0-9])/gi
+
+export function isSupportedSampleFile(file: { name: string; type: string }): boolean {
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  return SUPPORTED_SAMPLE_TYPES.includes(file.type) ||
+    (SUPPORTED_SAMPLE_EXTENSIONS as readonly string[]).includes(extension)
+}
+
+/**
+ * Root note named in a sample's file name (the last one wins), or null when it names none
+ */
+export function parseRootNote(fileName: string): number | null {
+  const baseName = fileName.replace(/\.[^.]+$/, '')
+  const matches = Array.from(baseName.matchAll(FILE_NOTE_PATTERN))
+  const match = matches[matches.length - 1]
+  if (!match) {
+    return null
+  }
+  const [, letter, accidental, octave] = match
+  const shift = accidental === '#' || accidental?.toLowerCase() === 's' ? 1 : accidental === 'b' ? -1 : 0
+  const note = (parseInt(octave, 10) + 1) * 12 + NOTE_OFFSETS[letter.toLowerCase()] + shift
+  return note >= MIN_NOTE && note <= MAX_NOTE ? note : null
+}
+
+const createZoneId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * A zone playing a sample across the whole keyboard and every velocity
+ */
+export function createZone(sampleId: string, name: string, rootNote: number = DEFAULT_ROOT_NOTE): SamplerZone {
+  return {
+    id: createZoneId(),
+    sampleId,
+    name,
+    rootNote,
+    keyRange: [MIN_NOTE, MAX_NOTE],
+    velocityRange: [MIN_VELOCITY, MAX_VELOCITY]
+  }
+}
+
+/**
+ * Split the keyboard between root notes: each root note plays up to halfway to its neighbours,
+ * and the lowest and highest extend to the ends of the keyboard. Zones sharing a root note
+ * (velocity layers) share its key range.
+ */
+export function autoMapKeyRanges(zones: SamplerZone[]): SamplerZone[] {
+  const roots = Array.from(new Set(zones.map(zone => zone.rootNote))).sort((a, b) => a - b)
+  const ranges = new Map<number, [number, number]>(roots.map((root, index) => {
+    const low = index === 0 ? MIN_NOTE : Math.floor((roots[index - 1] + root) / 2) + 1
+    const high = index === roots.length - 1 ? MAX_NOTE : Math.floor((root + roots[index + 1]) / 2)
+    return [root, [low, high]]
+  }))
+  return zones.map(zone => ({ ...zone, keyRange: ranges.get(zone.rootNote) || zone.keyRange }))
+}
+
+// Tone.js velocities run 0-1; zones use MIDI velocities
+export function velocityToMidi(velocity: number): number {
+  return Math.min(MAX_VELOCITY, Math.max(MIN_VELOCITY, Math.round(velocity * MAX_VELOCITY)))
+}
+
+export function zoneContains(zone: SamplerZone, note: number, velocity: number): boolean {
+  return note >= zone.keyRange[0] && note <= zone.keyRange[1] &&
+    velocity >= zone.velocityRange[0] && velocity <= zone.velocityRange[1]
+}
+
+/**
+ * The zone to draw as the instrument's waveform: the loudest one playing C4, else the first zone
+ */
+export function getPreviewZone(zones: SamplerZone[]): SamplerZone | undefined {
+  return zones.find(zone => zoneContains(zone, DEFAULT_ROOT_NOTE, MAX_VELOCITY)) || zones[0]
+}
+
+const isRange = (value: unknown, min: number, max: number): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 &&
+  value.every(bound => Number.isInteger(bound) && bound >= min && bound <= max) &&
+  value[0] <= value[1]
+
+/**
+ * Problem with a stored zone, or null when it is well formed
+ */
+export function getZoneIssue(zone: unknown): string | null {
+  if (typeof zone !== 'object' || zone === null) {
+    return 'Zone must be an object'
+  }
+  const candidate = zone as Record<string, unknown>
+  for (const field of ['id', 'sampleId', 'name'] as const) {
+    if (typeof candidate[field] !== 'string') {
+      return `Zone ${field} must be a string`
+    }
+  }
+  if (!Number.isInteger(candidate.rootNote) || (candidate.rootNote as number) < MIN_NOTE || (candidate.rootNote as number) > MAX_NOTE) {
+    return `Zone root note must be a MIDI note (${MIN_NOTE}-${MAX_NOTE})`
+  }
+  if (!isRange(candidate.keyRange, MIN_NOTE, MAX_NOTE)) {
+    return `Zone key range must be [low, high] MIDI notes (${MIN_NOTE}-${MAX_NOTE})`
+  }
+  if (!isRange(candidate.velocityRange, MIN_VELOCITY, MAX_VELOCITY)) {
+    return `Zone velocity range must be [low, high] velocities (${MIN_VELOCITY}-${MAX_VELOCITY})`
+  }
+  return null
+}
@@ -0,0 +1,59 @@
+/**
+ * Step sequencer patterns
+ * A pattern is a row of 16th-note steps, each with its own note, velocity, gate length and accent.
+ */
+
+import type { SequencerStep, StepSequence } from '../types/audioGraph'
+
+export const SEQUENCER_LENGTHS: StepSequence['length'][] = [16, 32]
+export const STEP_SUBDIVISION = '16n'
+
+export const MIN_BPM = 40
+export const MAX_BPM = 300
+export const DEFAULT_BPM = 120
+
+export const MIN_GATE = 0.05
+export const DEFAULT_STEP_NOTE = 36 // C2, where the bass and kick presets sit
+export const DEFAULT_STEP_VELOCITY = 0.8
+export const ACCENT_VELOCITY_BOOST = 0.3
+
+export function createStep(note: number = DEFAULT_STEP_NOTE): SequencerStep {
+  return {
+    active: false,
+    note,
+    velocity: DEFAULT_STEP_VELOCITY,
+    gate: 0.5,
+    accent: false
+  }
+}
+
+// Empty 16-step pattern at the default tempo
+export function createDefaultSequence(): StepSequence {
+  return {
+    length: 16,
+    bpm: DEFAULT_BPM,
+    swing: 0,
+    steps: Array.from({ length: 16 }, () => createStep())
+  }
+}
+
+/**
+ * Change the pattern length; growing repeats the existing steps so a 16-step groove becomes two bars of it
+ */
+export function resizeSequence(sequence: StepSequence, length: StepSequence['length']): StepSequence {
+  const steps = Array.from({ length }, (_, index) => {
+    const source = sequence.steps[index % sequence.steps.length]
+    return source ? { ...source } : createStep()
+  })
+  return { ...sequence, length, steps }
+}
+
+// Velocity the step is played at; accents push it towards full
+export function getStepVelocity(step: SequencerStep): number {
+  return Math.min(1, step.accent ? step.velocity + ACCENT_VELOCITY_BOOST : step.velocity)
+}
+
+// How long the step's note is held, given the length of one step in seconds
+export function getStepDuration(step: SequencerStep, stepSeconds: number): number {
+  return stepSeconds * Math.min(1, Math.max(MIN_GATE, step.gate))
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { diffSettingsSnapshots, getSettingsChanges } from './settingsDiff'
+
+describe('getSettingsChanges', () => {
+  it('returns only keys whose values changed', () => {
+    const envelope = { attack: 0.1 }
+    expect(getSettingsChanges({ volume: -6, envelope }, { volume: -3, envelope })).toEqual({ volume: -3 })
+  })
+
+  it('includes keys that only the next settings have', () => {
+    expect(getSettingsChanges({}, { detune: 5 })).toEqual({ detune: 5 })
+  })
+
+  it('resets removed keys to the defaults', () => {
+    const defaults = { volume: 0, portamento: 0 }
+    expect(getSettingsChanges({ volume: -6, portamento: 0.2 }, { volume: -6 }, defaults)).toEqual({ portamento: 0 })
+  })
+
+  it('leaves removed keys without a default alone', () => {
+    expect(getSettingsChanges({ oscillatorType: 'square', volume: -6 }, {}, { volume: 0 })).toEqual({ volume: 0 })
+  })
+})
+
+describe('diffSettingsSnapshots', () => {
+  it('compares nested parameters by path', () => {
+    expect(diffSettingsSnapshots(
+      { synth: { envelope: { attack: 0.1, decay: 0.2 } } },
+      { synth: { envelope: { attack: 0.5, decay: 0.2 } } }
+    )).toEqual([{ nodeId: 'synth', path: 'envelope.attack', a: 0.1, b: 0.5 }])
+  })
+})
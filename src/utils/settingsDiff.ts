@@ -0,0 +1,87 @@
+/**
+ * Parameter-level comparison of node settings snapshots
+ */
+
+// Node id -> that node's settings
+export type GraphSettingsSnapshot = Record<string, Record<string, unknown>>
+
+export interface SettingsDifference {
+  nodeId: string
+  path: string // Dot path inside the node settings, e.g. `envelope.attack`
+  a: unknown
+  b: unknown
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Flatten nested settings into dot paths so nested envelopes compare per parameter
+const flattenSettings = (settings: Record<string, unknown>, prefix = '', into: Map<string, unknown> = new Map()) => {
+  for (const [key, value] of Object.entries(settings)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (isPlainObject(value)) {
+      flattenSettings(value, path, into)
+    } else {
+      into.set(path, value)
+    }
+  }
+  return into
+}
+
+const valuesEqual = (a: unknown, b: unknown) =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b))
+
+/**
+ * Take a snapshot of every node's settings in a graph
+ */
+export function snapshotGraphSettings(nodes: Record<string, { settings?: Record<string, unknown> }>): GraphSettingsSnapshot {
+  return Object.fromEntries(
+    Object.entries(nodes).map(([nodeId, node]) => [nodeId, node.settings || {}])
+  )
+}
+
+/**
+ * List every parameter whose value differs between two snapshots.
+ * Parameters present on only one side are reported with `undefined` on the other.
+ */
+export function diffSettingsSnapshots(a: GraphSettingsSnapshot, b: GraphSettingsSnapshot): SettingsDifference[] {
+  const differences: SettingsDifference[] = []
+  const nodeIds = [...new Set([...Object.keys(a), ...Object.keys(b)])]
+
+  for (const nodeId of nodeIds) {
+    const flatA = flattenSettings(a[nodeId] || {})
+    const flatB = flattenSettings(b[nodeId] || {})
+    const paths = [...new Set([...flatA.keys(), ...flatB.keys()])]
+
+    for (const path of paths) {
+      const valueA = flatA.get(path)
+      const valueB = flatB.get(path)
+      if (!valuesEqual(valueA, valueB)) {
+        differences.push({ nodeId, path, a: valueA, b: valueB })
+      }
+    }
+  }
+
+  return differences
+}
+
+/**
+ * The top-level settings a live node needs to go from one settings object to another.
+ * Keys the next settings no longer have are reset to the node's defaults; keys without a default are left as they are.
+ */
+export function getSettingsChanges(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  defaults: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {}
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (previous[key] === next[key]) continue
+    if (key in next) {
+      changes[key] = next[key]
+    } else if (defaults[key] !== undefined) {
+      changes[key] = defaults[key]
+    }
+  }
+  return changes
+}
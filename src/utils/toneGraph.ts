@@ -0,0 +1,83 @@
+/**
+ * Standalone Tone.js graphs built straight from a graph definition, outside useAudioGraph.
+ * Drum kit pads and offline renders each need their own set of nodes for the same config.
+ */
+
+import type { AudioGraphDefinition, NodeInstance } from '../types/audioGraph'
+import { createToneInstance } from '../hooks/useAudioNodes'
+import { getConnectionPoint } from '../hooks/useGraphConnections'
+import { parseConnectionString, parseParameterPath } from './graphUtils'
+import { getParameter, getModulationSource, createModulationChain, disposeModulationChain, type ModulationChain } from './modulationChain'
+
+export interface ToneGraph {
+  nodes: Map<string, NodeInstance>
+  dispose: () => void
+}
+
+const disposeNodes = (nodes: Map<string, NodeInstance>, chains: ModulationChain[]) => {
+  chains.forEach(disposeModulationChain)
+  nodes.forEach(node => {
+    node.isDisposed = true
+    node.instance?.dispose?.()
+  })
+}
+
+/**
+ * Create every node of the graph and wire its audio connections, in the current Tone.js context.
+ * Output nodes reach the context's destination unless `output` is given.
+ */
+export function buildToneGraph(graph: AudioGraphDefinition, output?: any): ToneGraph { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const nodes = new Map<string, NodeInstance>()
+  const chains: ModulationChain[] = []
+
+  try {
+    for (const [nodeId, definition] of Object.entries(graph.nodes)) {
+      const instance = createToneInstance(definition.type, definition.settings)
+      if (definition.type === 'Output' && output) {
+        instance.disconnect()
+        instance.connect(output)
+      }
+      nodes.set(nodeId, {
+        id: nodeId,
+        type: definition.type,
+        instance,
+        settings: definition.settings || {},
+        inputs: new Map(),
+        outputs: new Map(),
+        isDisposed: false
+      })
+    }
+
+    for (const connection of graph.connections) {
+      const from = parseConnectionString(connection.from)
+      const to = parseConnectionString(connection.to)
+      const source = nodes.get(from.nodeId)
+      const destination = nodes.get(to.nodeId)
+      if (!source || !destination) {
+        console.warn('⚠️ Skipping connection with missing node:', connection.from, '->', connection.to)
+        continue
+      }
+      getConnectionPoint(source, from.property, false).connect(getConnectionPoint(destination, to.property, true))
+    }
+
+    for (const route of (graph.modulation || []).filter(route => route.enabled !== false)) {
+      const from = parseConnectionString(route.source)
+      const to = parseParameterPath(route.destination)
+      const source = nodes.get(from.nodeId)
+      const destination = nodes.get(to.nodeId)
+      if (!source || !destination) {
+        console.warn('⚠️ Skipping modulation route with missing node:', route.source, '->', route.destination)
+        continue
+      }
+      const chain = createModulationChain(getModulationSource(source, from.property), getParameter(destination, to.property), route)
+      if (chain) {
+        chains.push(chain)
+      }
+    }
+  } catch (error) {
+    disposeNodes(nodes, chains)
+    throw error
+  }
+
+  return { nodes, dispose: () => disposeNodes(nodes, chains) }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { chooseVoiceToSteal, getVoicesToRelease, type ActiveVoice } from './voiceAllocation'
+
+const voice = (note: string, startedAt: number, velocity = 1): ActiveVoice => ({ note, velocity, startedAt })
+
+describe('chooseVoiceToSteal', () => {
+  const voices = [voice('C4', 1, 0.9), voice('E4', 2, 0.3), voice('G4', 3, 0.3)]
+
+  it('picks the longest-held voice for oldest', () => {
+    expect(chooseVoiceToSteal(voices, 'oldest')?.note).toBe('C4')
+  })
+
+  it('picks the lowest attack velocity for softest, oldest first on ties', () => {
+    expect(chooseVoiceToSteal(voices, 'softest')?.note).toBe('E4')
+  })
+
+  it('returns nothing without voices', () => {
+    expect(chooseVoiceToSteal([], 'oldest')).toBeUndefined()
+  })
+})
+
+describe('getVoicesToRelease', () => {
+  it('retriggers the same note without stealing another voice', () => {
+    const voices = [voice('C4', 1), voice('E4', 2)]
+    expect(getVoicesToRelease(voices, 'E4', 2, 'oldest')).toEqual([voices[1]])
+  })
+
+  it('releases nothing below the polyphony limit', () => {
+    expect(getVoicesToRelease([voice('C4', 1)], 'E4', 4, 'oldest')).toEqual([])
+  })
+
+  it('steals the oldest voice at the polyphony limit', () => {
+    const voices = [voice('C4', 1), voice('E4', 2), voice('G4', 3)]
+    expect(getVoicesToRelease(voices, 'B4', 3, 'oldest')).toEqual([voices[0]])
+  })
+
+  it('steals the softest voice at the polyphony limit', () => {
+    const voices = [voice('C4', 1, 0.8), voice('E4', 2, 0.2), voice('G4', 3, 0.5)]
+    expect(getVoicesToRelease(voices, 'B4', 3, 'softest')).toEqual([voices[1]])
+  })
+
+  it('steals down to the limit after it was lowered', () => {
+    const voices = [voice('C4', 1), voice('E4', 2), voice('G4', 3)]
+    expect(getVoicesToRelease(voices, 'B4', 1, 'oldest')).toEqual(voices)
+  })
+})
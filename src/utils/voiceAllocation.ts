@@ -0,0 +1,67 @@
+/**
+ * Voice allocation for sustained instruments
+ * Tracks which notes hold a voice and picks the voice to steal when a new note exceeds the polyphony limit.
+ */
+
+import type { AudioNodeType } from '../types/audioGraph'
+
+export type VoiceStealingPolicy = 'oldest' | 'softest'
+
+export interface ActiveVoice {
+  note: string | number // As passed to triggerAttack, e.g. "C4" or 440
+  velocity: number
+  startedAt: number // Monotonic order of attacks
+}
+
+export const DEFAULT_MAX_POLYPHONY = 8
+export const DEFAULT_VOICE_STEALING: VoiceStealingPolicy = 'oldest'
+
+// Instruments that sound several notes at once and release them note by note
+const POLYPHONIC_NODE_TYPES: readonly AudioNodeType[] = ['PolySynth', 'Sampler']
+
+export function isPolyphonicNodeType(type: AudioNodeType | undefined): boolean {
+  return type !== undefined && POLYPHONIC_NODE_TYPES.includes(type)
+}
+
+/**
+ * Voice to give up for a new note once every voice is busy:
+ * 'oldest' frees the longest-held note, 'softest' the one attacked with the lowest velocity
+ * (oldest first on ties). Velocity is what the note was struck with, not how loud it sounds
+ * now: a soft note that was just struck wins over a loud one that has decayed.
+ */
+export function chooseVoiceToSteal(voices: ActiveVoice[], policy: VoiceStealingPolicy): ActiveVoice | undefined {
+  return [...voices].sort((a, b) =>
+    policy === 'softest' && a.velocity !== b.velocity ? a.velocity - b.velocity : a.startedAt - b.startedAt
+  )[0]
+}
+
+/**
+ * Voices that must be released before `note` starts: the same note already sounding is
+ * retriggered, and voices beyond `maxPolyphony` are stolen according to the policy
+ */
+export function getVoicesToRelease(
+  voices: ActiveVoice[],
+  note: string | number,
+  maxPolyphony: number,
+  policy: VoiceStealingPolicy
+): ActiveVoice[] {
+  const released = voices.filter(voice => voice.note === note)
+  let remaining = voices.filter(voice => voice.note !== note)
+
+  while (remaining.length >= Math.max(1, maxPolyphony)) {
+    const stolen = chooseVoiceToSteal(remaining, policy)
+    if (!stolen) break
+    released.push(stolen)
+    remaining = remaining.filter(voice => voice !== stolen)
+  }
+
+  return released
+}
+
+/**
+ * Voice ceiling for the Tone.js PolySynth itself. Tone keeps a released voice busy until its
+ * release tail ends, so stolen voices need headroom above the playable limit or new notes are dropped.
+ */
+export function getToneMaxPolyphony(maxPolyphony: number): number {
+  return Math.max(1, maxPolyphony) * 2
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { encodeWav } from './wavEncoder'
+
+const ascii = (view: DataView, offset: number, length = 4) =>
+  String.fromCharCode(...Array.from({ length }, (_, index) => view.getUint8(offset + index)))
+
+const int24 = (view: DataView, offset: number) => {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)
+  return value & 0x800000 ? value - 0x1000000 : value
+}
+
+describe('encodeWav', () => {
+  it('writes the RIFF, fmt and data headers for 16-bit PCM', () => {
+    const view = new DataView(encodeWav([new Float32Array(4), new Float32Array(4)], 44100, 16))
+
+    expect(ascii(view, 0)).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8)
+    expect(ascii(view, 8)).toBe('WAVE')
+
+    expect(ascii(view, 12)).toBe('fmt ')
+    expect(view.getUint32(16, true)).toBe(16)
+    expect(view.getUint16(20, true)).toBe(1) // PCM
+    expect(view.getUint16(22, true)).toBe(2) // Channels
+    expect(view.getUint32(24, true)).toBe(44100)
+    expect(view.getUint32(28, true)).toBe(44100 * 4) // Byte rate
+    expect(view.getUint16(32, true)).toBe(4) // Block align
+    expect(view.getUint16(34, true)).toBe(16)
+
+    expect(ascii(view, 36)).toBe('data')
+    expect(view.getUint32(40, true)).toBe(16)
+    expect(view.byteLength).toBe(44 + 16)
+  })
+
+  it('interleaves 16-bit samples little-endian and clips at full scale', () => {
+    const left = new Float32Array([0.5, 1.5])
+    const right = new Float32Array([-1, -2])
+    const view = new DataView(encodeWav([left, right], 8000, 16))
+
+    expect(view.getInt16(44, true)).toBe(Math.round(0.5 * 0x7fff))
+    expect(view.getInt16(46, true)).toBe(-0x8000)
+    expect(view.getInt16(48, true)).toBe(0x7fff)
+    expect(view.getInt16(50, true)).toBe(-0x8000)
+    expect(view.getUint8(48)).toBe(0xff) // Low byte first
+    expect(view.getUint8(49)).toBe(0x7f)
+  })
+
+  it('packs 24-bit samples into three bytes and pads an odd data chunk', () => {
+    const view = new DataView(encodeWav([new Float32Array([1, -1, 0.25])], 48000, 24))
+
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(32, true)).toBe(3)
+    expect(view.getUint16(34, true)).toBe(24)
+    expect(view.getUint32(28, true)).toBe(48000 * 3)
+
+    expect(view.getUint32(40, true)).toBe(9) // Unpadded size
+    expect(view.byteLength).toBe(44 + 10) // Word-aligned with one pad byte
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8)
+    expect(view.getUint8(53)).toBe(0)
+
+    expect(int24(view, 44)).toBe(0x7fffff)
+    expect(int24(view, 47)).toBe(-0x800000)
+    expect(int24(view, 50)).toBe(Math.round(0.25 * 0x7fffff))
+    expect([view.getUint8(44), view.getUint8(45), view.getUint8(46)]).toEqual([0xff, 0xff, 0x7f])
+  })
+
+  it('writes 32-bit float with format tag 3, the extended fmt chunk and a fact chunk', () => {
+    const view = new DataView(encodeWav([new Float32Array([0.5, -0.25, 2])], 22050, '32f'))
+
+    expect(view.getUint32(16, true)).toBe(18)
+    expect(view.getUint16(20, true)).toBe(3) // IEEE float
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint16(34, true)).toBe(32)
+    expect(view.getUint16(36, true)).toBe(0) // No extension data
+
+    expect(ascii(view, 38)).toBe('fact')
+    expect(view.getUint32(42, true)).toBe(4)
+    expect(view.getUint32(46, true)).toBe(3) // Frames
+
+    expect(ascii(view, 50)).toBe('data')
+    expect(view.getUint32(54, true)).toBe(12)
+    expect(view.getFloat32(58, true)).toBe(0.5)
+    expect(view.getFloat32(62, true)).toBe(-0.25)
+    expect(view.getFloat32(66, true)).toBe(2) // Float keeps overs
+    expect(view.byteLength).toBe(70)
+  })
+
+  it('writes non-finite samples as silence', () => {
+    const view = new DataView(encodeWav([new Float32Array([NaN, Infinity])], 8000, 16))
+    expect(view.getInt16(44, true)).toBe(0)
+    expect(view.getInt16(46, true)).toBe(0)
+  })
+
+  it('rejects missing channels, bad sample rates and ragged channels', () => {
+    expect(() => encodeWav([], 44100, 16)).toThrow()
+    expect(() => encodeWav([new Float32Array(1)], 0, 16)).toThrow()
+    expect(() => encodeWav([new Float32Array(1), new Float32Array(2)], 44100, 16)).toThrow()
+  })
+})
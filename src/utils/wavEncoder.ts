@@ -0,0 +1,104 @@
+/**
+ * RIFF/WAVE encoder for rendered audio
+ * Writes interleaved little-endian PCM (16/24-bit integer) or IEEE float (32-bit) samples.
+ */
+
+export type WavBitDepth = 16 | 24 | '32f'
+
+export const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24, '32f']
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+
+const bytesPerSample = (bitDepth: WavBitDepth): number => bitDepth === 16 ? 2 : bitDepth === 24 ? 3 : 4
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i))
+  }
+}
+
+// Full-scale float to signed integer, clipping anything outside [-1, 1]
+const toInteger = (sample: number, maxValue: number): number => {
+  const clipped = Math.max(-1, Math.min(1, Number.isFinite(sample) ? sample : 0))
+  return Math.round(clipped < 0 ? clipped * (maxValue + 1) : clipped * maxValue)
+}
+
+/**
+ * Encode channels of equal length into a WAV file.
+ * Float files carry the extended fmt chunk and the fact chunk the format requires for non-PCM data.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error('Cannot encode a WAV file without audio channels')
+  }
+  if (!Number.isInteger(sampleRate) || sampleRate <= 0) {
+    throw new Error(`Invalid sample rate: ${sampleRate}`)
+  }
+
+  const frameCount = channels[0].length
+  if (channels.some(channel => channel.length !== frameCount)) {
+    throw new Error('All channels must have the same length')
+  }
+
+  const isFloat = bitDepth === '32f'
+  const sampleBytes = bytesPerSample(bitDepth)
+  const blockAlign = channels.length * sampleBytes
+  const dataBytes = frameCount * blockAlign
+  const fmtBytes = isFloat ? 18 : 16
+  const factChunkBytes = isFloat ? 12 : 0
+  const paddedDataBytes = dataBytes + (dataBytes % 2) // Chunks are word aligned
+  const fileBytes = 12 + (8 + fmtBytes) + factChunkBytes + 8 + paddedDataBytes
+
+  const buffer = new ArrayBuffer(fileBytes)
+  const view = new DataView(buffer)
+  let offset = 0
+
+  writeAscii(view, offset, 'RIFF')
+  view.setUint32(offset + 4, fileBytes - 8, true)
+  writeAscii(view, offset + 8, 'WAVE')
+  offset += 12
+
+  writeAscii(view, offset, 'fmt ')
+  view.setUint32(offset + 4, fmtBytes, true)
+  view.setUint16(offset + 8, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true)
+  view.setUint16(offset + 10, channels.length, true)
+  view.setUint32(offset + 12, sampleRate, true)
+  view.setUint32(offset + 16, sampleRate * blockAlign, true)
+  view.setUint16(offset + 20, blockAlign, true)
+  view.setUint16(offset + 22, sampleBytes * 8, true)
+  if (isFloat) {
+    view.setUint16(offset + 24, 0, true) // No extension data
+  }
+  offset += 8 + fmtBytes
+
+  if (isFloat) {
+    writeAscii(view, offset, 'fact')
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, frameCount, true)
+    offset += factChunkBytes
+  }
+
+  writeAscii(view, offset, 'data')
+  view.setUint32(offset + 4, dataBytes, true)
+  offset += 8
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      const sample = channel[frame]
+      if (bitDepth === 16) {
+        view.setInt16(offset, toInteger(sample, 0x7fff), true)
+      } else if (bitDepth === 24) {
+        const value = toInteger(sample, 0x7fffff)
+        view.setUint8(offset, value & 0xff)
+        view.setUint8(offset + 1, (value >> 8) & 0xff)
+        view.setUint8(offset + 2, (value >> 16) & 0xff)
+      } else {
+        view.setFloat32(offset, Number.isFinite(sample) ? sample : 0, true)
+      }
+      offset += sampleBytes
+    }
+  }
+
+  return buffer
+}
@@ -0,0 +1,187 @@
+/**
+ * The Sampler node's Tone.js instance: one Tone.Sampler per zone, each holding that zone's sample
+ * at its root note, all feeding one volume stage. Notes are routed to the zones whose key and
+ * velocity ranges contain them. Samples load from the local sample store as blob URLs.
+ */
+
+import type { SamplerZone } from '../types/sampler'
+import { getToneModule } from './toneLoader'
+import { getSampleUrl } from './sampleStore'
+import { velocityToMidi, zoneContains } from './samplerZones'
+
+export interface ZonedSamplerOptions {
+  zones?: SamplerZone[]
+  volume?: number
+  attack?: number
+  release?: number
+}
+
+interface ZoneVoice {
+  zone: SamplerZone
+  sampler: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  ready: boolean // Tone.Sampler throws when triggered before it holds a buffer
+}
+
+type Notes = string | number | Array<string | number>
+
+const requireTone = () => {
+  const Tone = getToneModule()
+  if (!Tone) {
+    throw new Error('Tone.js not loaded yet')
+  }
+  return Tone
+}
+
+const toArray = (notes: Notes): Array<string | number> => Array.isArray(notes) ? notes : [notes]
+
+/**
+ * Decode a zone's sample, or null when it is missing from this browser's sample store
+ */
+export async function loadZoneBuffer(zone: SamplerZone): Promise<any | null> { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const url = await getSampleUrl(zone.sampleId)
+  if (!url) {
+    console.warn('⚠️ Sample missing from the sample store, zone stays silent:', zone.name)
+    return null
+  }
+  try {
+    return await new (requireTone().ToneAudioBuffer)().load(url)
+  } catch (error) {
+    console.error('❌ Failed to decode sample:', zone.name, error)
+    return null
+  }
+}
+
+export class ZonedSampler {
+  readonly output: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  readonly volume: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  loaded: Promise<void> = Promise.resolve() // Settles once every zone has loaded or given up
+  private voices: ZoneVoice[] = []
+  private attackTime: number
+  private releaseTime: number
+
+  constructor(options: ZonedSamplerOptions = {}) {
+    this.output = new (requireTone().Volume)(options.volume ?? 0)
+    this.volume = this.output.volume
+    this.attackTime = options.attack ?? 0
+    this.releaseTime = options.release ?? 0.1
+    this.zones = options.zones || []
+  }
+
+  get zones(): SamplerZone[] {
+    return this.voices.map(voice => voice.zone)
+  }
+
+  // Range edits keep a zone's loaded sample; a new sample or root note loads it again
+  set zones(zones: SamplerZone[]) {
+    const previous = new Map(this.voices.map(voice => [voice.zone.id, voice]))
+    const loads: Promise<void>[] = []
+
+    this.voices = zones.map(zone => {
+      const existing = previous.get(zone.id)
+      if (existing && existing.zone.sampleId === zone.sampleId && existing.zone.rootNote === zone.rootNote) {
+        previous.delete(zone.id)
+        existing.zone = zone
+        return existing
+      }
+      const voice: ZoneVoice = { zone, sampler: this.createSampler(), ready: false }
+      loads.push(this.loadVoice(voice))
+      return voice
+    })
+
+    previous.forEach(voice => voice.sampler.dispose())
+    this.loaded = Promise.all(loads).then(() => undefined)
+  }
+
+  get attack(): number {
+    return this.attackTime
+  }
+
+  set attack(time: number) {
+    this.attackTime = time
+    this.voices.forEach(voice => { voice.sampler.attack = time })
+  }
+
+  get release(): number {
+    return this.releaseTime
+  }
+
+  set release(time: number) {
+    this.releaseTime = time
+    this.voices.forEach(voice => { voice.sampler.release = time })
+  }
+
+  triggerAttack(notes: Notes, time?: number, velocity = 1): this {
+    for (const note of toArray(notes)) {
+      this.forZones(note, velocity, sampler => sampler.triggerAttack(note, time, velocity))
+    }
+    return this
+  }
+
+  // Without notes every sounding sample is released, as monophonic instruments do
+  triggerRelease(notes?: Notes, time?: number): this {
+    if (notes === undefined) {
+      return this.releaseAll(time)
+    }
+    this.voices.forEach(voice => voice.sampler.triggerRelease(notes, time))
+    return this
+  }
+
+  triggerAttackRelease(notes: Notes, duration: number | string, time?: number, velocity = 1): this {
+    for (const note of toArray(notes)) {
+      this.forZones(note, velocity, sampler => sampler.triggerAttackRelease(note, duration, time, velocity))
+    }
+    return this
+  }
+
+  releaseAll(time?: number): this {
+    this.voices.forEach(voice => voice.sampler.releaseAll(time))
+    return this
+  }
+
+  connect(destination: any, outputNumber = 0, inputNumber = 0): this { // eslint-disable-line @typescript-eslint/no-explicit-any
+    this.output.connect(destination, outputNumber, inputNumber)
+    return this
+  }
+
+  disconnect(destination?: any): this { // eslint-disable-line @typescript-eslint/no-explicit-any
+    this.output.disconnect(destination)
+    return this
+  }
+
+  toDestination(): this {
+    this.output.toDestination()
+    return this
+  }
+
+  dispose(): this {
+    this.voices.forEach(voice => voice.sampler.dispose())
+    this.voices = []
+    this.output.dispose()
+    return this
+  }
+
+  private createSampler() {
+    const Tone = requireTone()
+    return new Tone.Sampler({ attack: this.attackTime, release: this.releaseTime }).connect(this.output)
+  }
+
+  private async loadVoice(voice: ZoneVoice): Promise<void> {
+    const buffer = await loadZoneBuffer(voice.zone)
+    // The zone may have been removed or the node disposed while the sample loaded
+    if (!buffer || voice.sampler.disposed) {
+      return
+    }
+    voice.sampler.add(voice.zone.rootNote, buffer)
+    voice.ready = true
+  }
+
+  private forZones(note: string | number, velocity: number, play: (sampler: any) => void) { // eslint-disable-line @typescript-eslint/no-explicit-any
+    const midi = requireTone().Frequency(note).toMidi()
+    const midiVelocity = velocityToMidi(velocity)
+    for (const voice of this.voices) {
+      if (voice.ready && zoneContains(voice.zone, midi, midiVelocity)) {
+        play(voice.sampler)
+      }
+    }
+  }
+}